@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { Product, Sale, SaleItem, Category, Session } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Product, Sale, SaleItem, SaleTax, Category, Session, Payment, Permission, RoleDefinition, StaffMember, StockMovement, StockMovementReason, AuditAction, Device, DeviceCommand, Discount, HeldCart, PromoCode } from './types';
 import Header from './components/Header';
 import PosView from './views/PosView';
 import DashboardView from './views/DashboardView';
@@ -8,106 +8,264 @@ import HistoryView from './views/HistoryView';
 import SettingsView from './views/SettingsView';
 import OrdersView from './views/OrdersView';
 import LoginView from './views/LoginView';
-import { supabase } from './lib/supabaseClient';
+import BackendSetupView from './views/BackendSetupView';
+import LockView from './views/LockView';
+import AuditView from './views/AuditView';
+import ElevateModal from './components/ElevateModal';
+import ShortcutsModal from './components/ShortcutsModal';
+import CommandPalette from './components/CommandPalette';
+import type { Command } from './components/CommandPalette';
+import { navViews } from './components/Header';
+import { KeyboardIcon } from './components/icons/Icons';
+import { activeBackend, dataStore, needsBackendSetup } from './lib/backend';
+import { setBackendProfile, setDeviceConnection } from './lib/backendConfig';
+import type { BackendProfile, RemoteBackendProfile, SupabaseConnection } from './lib/backendConfig';
+import { isNetworkError } from './lib/dataStore';
+import type { HeldCartInput, NewAuditEntry, OrderNumberAllocation, PinVerification, PromoCodeInput, StaffApproval, StaffInput } from './lib/dataStore';
+import { getFailedSalesKey, getOfflineQueueKey, submitSale, toFailedSale, toPendingSale, toUnsyncedSale } from './lib/offlineQueue';
+import type { FailedSale, PendingSale, SubmitResult } from './lib/offlineQueue';
+import { DEFAULT_ORDER_NUMBERING, ORDER_NUMBERING_CONFIG_KEY, formatOrderNumber, getOrderScope, getReservedOrderKey, parseOrderNumberingConfig } from './lib/orderNumber';
+import type { OrderNumberingConfig } from './lib/orderNumber';
+import { DEFAULT_ROLES, PERMISSIONS, ROLES_CONFIG_KEY, allowedViews, grantsMoreThan, hasPermission, parseRolesConfig, roleName } from './lib/permissions';
+import { DEFAULT_SESSION_POLICY, SESSION_POLICY_CONFIG_KEY, getSessionExpiry, isElevated, minutesFromNow, parseSessionPolicy } from './lib/sessionPolicy';
+import type { SessionPolicy } from './lib/sessionPolicy';
+import { formatDiscount, redeemPromoCode } from './lib/discounts';
+import { summarizePaymentMethod } from './lib/payments';
+import type { CashReceived } from './lib/payments';
+import type { RefundRequest } from './lib/refunds';
+import { DEFAULT_TAX_CONFIG, TAX_CONFIG_KEY, TAX_EXEMPT, parseTaxConfig } from './lib/tax';
+import { DEFAULT_UPI_CONFIG, UPI_CONFIG_KEY, parseUpiConfig } from './lib/upi';
+import type { UpiConfig } from './lib/upi';
+import type { TaxConfig } from './lib/tax';
+import { HOTKEYS_STORAGE_KEY, formatCombo, withDefaultHotkeys } from './lib/hotkeys';
+import type { HotkeyConfig } from './lib/hotkeys';
+import { DEVICE_REPORT_INTERVAL_MS, deviceLabel, getDeviceId } from './lib/device';
+import { createSyncEngine } from './lib/syncEngine';
+import type { ConnectionStatus, SyncEngine } from './lib/syncEngine';
 import useTheme from './hooks/useTheme';
 import { ToastProvider, useToasts } from './components/ToastProvider';
 import useLocalStorage from './hooks/useLocalStorage';
+import useMutation from './hooks/useMutation';
+import useIdleTimer from './hooks/useIdleTimer';
+import useHotkeys from './hooks/useHotkeys';
+import type { MutationResult } from './hooks/useMutation';
 
-export type View = 'pos' | 'orders' | 'dashboard' | 'history' | 'inventory';
+export type View = 'pos' | 'orders' | 'dashboard' | 'history' | 'inventory' | 'audit';
+
+const SESSION_KEY = 'pyj-pos-session';
+
+// The backend is chosen once per page load. The session is dropped too, since it was granted by the old backend.
+const reloadWithNewBackend = () => {
+  localStorage.removeItem(SESSION_KEY);
+  window.location.reload();
+};
 
 const AppContent: React.FC = () => {
-  const [session, setSession] = useLocalStorage<Session | null>('pyj-pos-session', null);
+  const [session, setSession] = useLocalStorage<Session | null>(SESSION_KEY, null);
   const [products, setProducts] = useState<Product[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [orderNumbering, setOrderNumbering] = useState<OrderNumberingConfig>(DEFAULT_ORDER_NUMBERING);
+  const [taxConfig, setTaxConfig] = useState<TaxConfig>(DEFAULT_TAX_CONFIG);
+  const [upiConfig, setUpiConfig] = useState<UpiConfig>(DEFAULT_UPI_CONFIG);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [offlineQueue, setOfflineQueue] = useLocalStorage<PendingSale[]>(getOfflineQueueKey(activeBackend.profile), []);
+  const [failedSales, setFailedSales] = useLocalStorage<FailedSale[]>(getFailedSalesKey(activeBackend.profile), []);
+  const [storedReservation, setStoredReservation] = useLocalStorage<OrderNumberAllocation | null>(getReservedOrderKey(activeBackend.profile), null);
   const [currentView, setCurrentView] = useState<View>('pos');
   const [isLoading, setIsLoading] = useState(false);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('polling');
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [heldCarts, setHeldCarts] = useState<HeldCart[]>([]);
+  const [roles, setRoles] = useState<RoleDefinition[]>(DEFAULT_ROLES);
+  const [sessionPolicy, setSessionPolicy] = useState<SessionPolicy>(DEFAULT_SESSION_POLICY);
+  const [isElevateModalOpen, setIsElevateModalOpen] = useState(false);
+  const [storedHotkeys, setStoredHotkeys] = useLocalStorage<Partial<HotkeyConfig>>(HOTKEYS_STORAGE_KEY, {});
+  const hotkeys = useMemo(() => withDefaultHotkeys(storedHotkeys), [storedHotkeys]);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const { addToast } = useToasts();
+  const mutate = useMutation();
 
-  const fetchInitialData = React.useCallback(async (silent = false) => {
-    if (!silent) setIsLoading(true);
-    const productsPromise = supabase.from('products').select('*, categories(name)').order('name');
-    const categoriesPromise = supabase.from('categories').select('*').order('name');
-    const salesPromise = supabase.from('sales').select('*').neq('status', 'Draft').order('timestamp', { ascending: false });
-
-    const [productsResult, categoriesResult, salesResult] = await Promise.all([
-      productsPromise,
-      categoriesPromise,
-      salesPromise,
-    ]);
-
-    if (productsResult.error) {
-      console.error("Products fetch error:", productsResult.error);
-      if (!silent) addToast(`Error fetching products: ${productsResult.error.message}`, 'error');
-    }
-    if (categoriesResult.error) {
-      console.error("Categories fetch error:", categoriesResult.error);
-      if (!silent) addToast(`Error fetching categories: ${categoriesResult.error.message}`, 'error');
-    }
-    if (salesResult.error) {
-      console.error("Sales fetch error:", salesResult.error);
-      if (!silent) addToast(`Error fetching sales: ${salesResult.error.message}`, 'error');
-    }
+  // The replay loop runs across renders, so it reads the latest queue through a ref.
+  const offlineQueueRef = useRef(offlineQueue);
+  offlineQueueRef.current = offlineQueue;
+  const isReplayingRef = useRef(false);
+  const syncEngineRef = useRef<SyncEngine | null>(null);
+  const isLoggedIn = !!session;
 
-    if (productsResult.data) setProducts(productsResult.data);
-    if (categoriesResult.data) setCategories(categoriesResult.data);
-    
-    if (salesResult.data) {
-      const salesData = salesResult.data;
-      const saleIds = salesData.map(s => s.id);
+  // Sessions saved before staff accounts existed have no staff id and cannot attribute sales.
+  useEffect(() => {
+    if (session && !session.staffId) setSession(null);
+  }, [session, setSession]);
 
-      const { data: saleItemsData, error: saleItemsError } = saleIds.length > 0
-          ? await supabase.from('sale_items').select('*').in('sale_id', saleIds)
-          : { data: [], error: null };
+  // While elevated, the session holds the approver's permissions on top of its own.
+  const elevatedRole = isElevated(session) ? session!.elevation!.role : undefined;
+  const can = (permission: Permission) =>
+    hasPermission(roles, session?.role, permission) || hasPermission(roles, elevatedRole, permission);
+  const views = useMemo(() => allowedViews(roles, session?.role, elevatedRole), [roles, session?.role, elevatedRole]);
 
-      if (saleItemsError) {
-        console.error("Sale items fetch error:", saleItemsError);
-        if (!silent) addToast(`Error fetching sale items: ${saleItemsError.message}`, 'error');
+  // Handlers check too, since hiding a button does not stop a stale screen or another caller.
+  const requirePermission = (permission: Permission): MutationResult<never> | null => {
+    if (can(permission)) return null;
+    const label = PERMISSIONS.find(p => p.id === permission)?.label || permission;
+    const error = { message: `Your role does not have the "${label}" permission.` };
+    addToast(error.message, 'error');
+    return { ok: false, error };
+  };
+
+  // Written once a change has been accepted. A failed entry is reported, but never undoes the change.
+  const recordAudit = (action: AuditAction, details: Pick<NewAuditEntry, 'entity_id' | 'summary' | 'before' | 'after'>) => {
+    if (!session) return;
+    dataStore.insertAuditEntry({
+      action,
+      actor_id: session.staffId,
+      actor_name: session.staffName,
+      approved_by: isElevated(session) ? session.elevation!.staffId : null,
+      device_id: getDeviceId(),
+      ...details,
+    }).then(({ error }) => {
+      if (!error) return;
+      console.error('Error writing audit entry:', error);
+      addToast(`The change was saved, but not recorded in the audit log: ${error.message}`, 'warning');
+    });
+  };
+
+  // The login screen needs role names and the session policy before anyone is logged in; logging in
+  // picks up later edits.
+  useEffect(() => {
+    dataStore.getConfigValue(ROLES_CONFIG_KEY).then(({ data, error }) => {
+      if (!error) setRoles(parseRolesConfig(data));
+    });
+    dataStore.getConfigValue(SESSION_POLICY_CONFIG_KEY).then(({ data, error }) => {
+      if (!error) setSessionPolicy(parseSessionPolicy(data));
+    });
+  }, [isLoggedIn]);
+
+  // Anyone whose PIN would actually widen what this session may do.
+  const elevationCandidates = useMemo(
+    () => staff.filter(s => s.active && s.id !== session?.staffId && grantsMoreThan(roles, s.role, session?.role)),
+    [staff, roles, session?.staffId, session?.role],
+  );
+
+  // Sales store staff ids; views show names, including for staff who have since been deactivated.
+  const staffNames = useMemo(() => Object.fromEntries(staff.map(s => [s.id, s.name])), [staff]);
+
+  // Sales still waiting in the offline queue, or set aside after failing, are shown alongside the synced ones.
+  const unsyncedSales = useMemo(() => [...offlineQueue, ...failedSales], [offlineQueue, failedSales]);
+  const visibleSales = useMemo(() => {
+    const queuedIds = new Set(unsyncedSales.map(p => p.client_id));
+    return [
+      ...unsyncedSales.map(toUnsyncedSale),
+      ...sales.filter(s => !s.client_id || !queuedIds.has(s.client_id)),
+    ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }, [unsyncedSales, sales]);
+
+  const replayOfflineQueue = React.useCallback(async () => {
+    if (isReplayingRef.current || offlineQueueRef.current.length === 0) return;
+    isReplayingRef.current = true;
+    let syncedCount = 0;
+
+    try {
+      // In capture order. A lost connection stops the replay so later sales never overtake an earlier
+      // one; a sale the backend rejects is set aside for an admin and the rest carry on.
+      for (const pending of offlineQueueRef.current) {
+        const result = await submitSale(dataStore, pending);
+        if (result.error && isNetworkError(result.error)) {
+          setOfflineQueue(prev => prev.map(p => p.client_id === pending.client_id ? { ...result.pending, sale: p.sale } : p));
+          break;
+        }
+        if (result.error) {
+          console.error("Error replaying offline sale:", result.error);
+          const failed = toFailedSale({ ...result.pending, sale: pending.sale }, result.error);
+          setOfflineQueue(prev => prev.filter(p => p.client_id !== pending.client_id));
+          setFailedSales(prev => [...prev.filter(p => p.client_id !== pending.client_id), failed]);
+          addToast(`Order #${formatOrderNumber(pending.sale)} could not be synced: ${result.error.message}. It is listed under Settings for an admin to retry or discard.`, 'error');
+          continue;
+        }
+        setOfflineQueue(prev => prev.filter(p => p.client_id !== pending.client_id));
+        syncedCount++;
       }
+    } finally {
+      isReplayingRef.current = false;
+    }
 
-      const salesWithItems = salesData.map((sale): Sale => ({
-        ...sale,
-        items: saleItemsData
-          ? saleItemsData
-              .filter(item => item.sale_id === sale.id)
-              .map(item => ({
-                id: item.product_id, name: item.name, price: item.price, quantity: item.quantity,
-              }))
-          : [],
-        status: sale.status || 'Completed', 
-        order_number: sale.order_number || 0,
-        admin_notes: sale.admin_notes, user_notes: sale.user_notes,
-      }));
-      setSales(salesWithItems);
+    if (syncedCount > 0) {
+      addToast(`Synced ${syncedCount} offline sale${syncedCount === 1 ? '' : 's'}.`, 'success');
+      syncEngineRef.current?.syncNow();
     }
-    if (!silent) setIsLoading(false);
-  }, [addToast]);
+  }, [addToast, setOfflineQueue, setFailedSales]);
 
   useEffect(() => {
     if (!session) {
       return;
     }
 
-    // 1. Initial Data Fetch
-    fetchInitialData();
+    // Replay queued sales as soon as the browser regains a connection, and retry periodically
+    // in case `online` fires before the backend is actually reachable.
+    replayOfflineQueue();
+    window.addEventListener('online', replayOfflineQueue);
+    const replayIntervalId = setInterval(replayOfflineQueue, 10000);
+
+    return () => {
+      window.removeEventListener('online', replayOfflineQueue);
+      clearInterval(replayIntervalId);
+    };
+  }, [session, replayOfflineQueue]);
+
+  useEffect(() => {
+    if (!isLoggedIn) {
+      return;
+    }
+
+    // 1. Initial load, then apply pushed changes, falling back to pulling changed rows while disconnected
+    const engine = createSyncEngine(dataStore, {
+      onChange: (snapshot) => {
+        setProducts(snapshot.products);
+        setCategories(snapshot.categories);
+        setSales(snapshot.sales);
+        setHeldCarts(snapshot.heldCarts);
+      },
+      onError: (table, error, isInitialLoad) => {
+        console.error(`Sync error for ${table}:`, error);
+        if (isInitialLoad) addToast(`Error fetching ${table.replace('_', ' ')}: ${error.message}`, 'error');
+      },
+      onStatusChange: setConnectionStatus,
+    });
+    syncEngineRef.current = engine;
+    setIsLoading(true);
+    engine.start().then(() => setIsLoading(false));
 
-    // Setup fallback polling to ensure parity between devices (since realtime is removed)
-    const fallbackPollIntervalId = setInterval(() => {
-        fetchInitialData(true);
-    }, 2000); // 2 seconds polling to ensure parity
+    dataStore.getConfigValue(ORDER_NUMBERING_CONFIG_KEY).then(({ data, error }) => {
+      if (!error) setOrderNumbering(parseOrderNumberingConfig(data));
+    });
+    dataStore.getConfigValue(TAX_CONFIG_KEY).then(({ data, error }) => {
+      if (!error) setTaxConfig(parseTaxConfig(data));
+    });
+    dataStore.getConfigValue(UPI_CONFIG_KEY).then(({ data, error }) => {
+      if (!error) setUpiConfig(parseUpiConfig(data));
+    });
+
+    return () => {
+      engine.stop();
+      syncEngineRef.current = null;
+    };
+  }, [isLoggedIn, addToast]);
+
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
 
     // 2. Poll for Global Logout
     const checkGlobalLogout = async () => {
-      const { data, error } = await supabase.from('app_config').select('value').eq('key', 'last_global_logout_timestamp').single();
-      if (data && session) {
-        const globalLogoutTimestamp = data.value;
-        if (globalLogoutTimestamp && new Date(globalLogoutTimestamp) > new Date(session.loginTimestamp)) {
-          setSession(null);
-          addToast('You have been logged out by an admin.', 'warning');
-        }
+      const { data: globalLogoutTimestamp, error } = await dataStore.getConfigValue('last_global_logout_timestamp');
+      if (globalLogoutTimestamp && session && new Date(globalLogoutTimestamp) > new Date(session.loginTimestamp)) {
+        setSession(null);
+        addToast('You have been logged out by an admin.', 'warning');
       }
-      if (error && error.code !== 'PGRST116') { // Ignore "no rows" error
+      if (error) {
         console.error("Polling error fetching config:", error);
       }
     };
@@ -116,219 +274,890 @@ const AppContent: React.FC = () => {
     // 3. Cleanup on component unmount
     return () => {
       clearInterval(logoutIntervalId);
-      clearInterval(fallbackPollIntervalId);
     };
-  }, [session, addToast, fetchInitialData, setSession]);
+  }, [session, addToast, setSession]);
 
 
-  const handleLogin = async (loginRole: 'user' | 'admin', password?: string): Promise<boolean> => {
-    if (!password) return false;
-    
-    const passwordKey = loginRole === 'admin' ? 'admin_password' : 'user_password';
-
+  // Resolves to null when the PIN could not be checked at all; the PIN pad shows the lockout otherwise.
+  const checkPin = async (staffId: string, pin: string): Promise<PinVerification | null> => {
     try {
-      const { data, error } = await supabase.from('app_config').select('value').eq('key', passwordKey).single();
-
-      if (error || !data) {
-        console.error(`Error fetching ${loginRole} password:`, error);
-        addToast(`Password not configured. Please contact an admin.`, 'error');
-        return false;
-      }
-
-      if (data.value === password) {
-        setSession({
-          role: loginRole,
-          loginTimestamp: new Date().toISOString(),
-        });
-        setCurrentView('pos');
-        addToast(`Welcome, ${loginRole}!`, 'success');
-        return true;
-      } else {
-        return false;
+      const { data: verification, error } = await dataStore.verifyStaffPin(staffId, pin);
+      if (error || !verification) {
+        console.error('Error verifying PIN:', error);
+        addToast(`Could not check the PIN: ${error?.message || 'Unknown Error'}`, 'error');
+        return null;
       }
+      return verification;
     } catch (e) {
-      console.error("Login error:", e);
-      addToast("An unexpected error occurred during login.", 'error');
-      return false;
+      console.error("PIN check error:", e);
+      addToast("An unexpected error occurred while checking the PIN.", 'error');
+      return null;
     }
   };
 
-  const handleLogout = () => {
-    setSession(null);
-    setCurrentView('pos');
+  const handleLogin = async (staffId: string, pin: string): Promise<PinVerification | null> => {
+    const verification = await checkPin(staffId, pin);
+    const staffMember = verification?.staff;
+    if (staffMember) {
+      setSession({
+        role: staffMember.role,
+        staffId: staffMember.id,
+        staffName: staffMember.name,
+        loginTimestamp: new Date().toISOString(),
+        expiresAt: minutesFromNow(sessionPolicy.maxSessionHours * 60),
+      });
+      setCurrentView(allowedViews(roles, staffMember.role)[0] || 'pos');
+      addToast(`Welcome, ${staffMember.name}!`, 'success');
+    }
+    return verification;
   };
 
-  const handleGlobalLogout = async (): Promise<void> => {
-    if (!session) return;
-    const { error } = await supabase.rpc('update_global_logout_timestamp');
+  const handleLock = React.useCallback(() => {
+    setSession(prev => (prev && !prev.lockedAt ? { ...prev, lockedAt: new Date().toISOString(), elevation: null } : prev));
+  }, [setSession]);
 
-    if (error) {
-      console.error('Error during global logout:', error);
-      addToast('Failed to log out from other devices.', 'error');
-    } else {
+  const handleUnlock = async (pin: string): Promise<PinVerification | null> => {
+    if (!session) return null;
+    const verification = await checkPin(session.staffId, pin);
+    if (verification?.staff) setSession({ ...session, lockedAt: null });
+    return verification;
+  };
+
+  const handleElevate = async (staffId: string, pin: string): Promise<PinVerification | null> => {
+    if (!session) return null;
+    const verification = await checkPin(staffId, pin);
+    const approver = verification?.staff;
+    if (approver) {
       setSession({
-        role: session.role,
-        loginTimestamp: new Date().toISOString(),
+        ...session,
+        elevation: { role: approver.role, staffId: approver.id, staffName: approver.name, until: minutesFromNow(sessionPolicy.elevationMinutes) },
       });
-      addToast('Successfully triggered a log out on all other devices.', 'success');
+      addToast(`${roleName(roles, approver.role)} access granted by ${approver.name} for ${sessionPolicy.elevationMinutes} minutes.`, 'success');
     }
+    return verification;
   };
 
-  const handleAddSale = async (saleData: { items: SaleItem[], total: number, paymentMethod: string, userNotes?: string }): Promise<Sale | undefined> => {
-    const { data: lastSale, error: lastSaleError } = await supabase
-      .from('sales').select('order_number').order('order_number', { ascending: false }).limit(1).single();
+  const handleDropElevation = React.useCallback(() => {
+    setSession(prev => (prev ? { ...prev, elevation: null } : prev));
+  }, [setSession]);
 
-    if (lastSaleError && lastSaleError.code !== 'PGRST116') {
-      console.error("Error fetching last order number:", lastSaleError);
-      addToast("Error creating sale: could not get next order number.", 'error');
+  // Reports who is using this device, and carries out a logout or lock an admin queued for it.
+  const reportedStaffId = session?.staffId ?? null;
+  const reportedStaffName = session?.staffName ?? null;
+  const isReportedLocked = !!session?.lockedAt;
+  useEffect(() => {
+    if (needsBackendSetup) return;
+    const report = async () => {
+      const { data: command, error } = await dataStore.reportDevice({
+        deviceId: getDeviceId(),
+        userAgent: navigator.userAgent,
+        staffId: reportedStaffId,
+        staffName: reportedStaffName,
+        isLocked: isReportedLocked,
+      });
+      if (error) {
+        if (!isNetworkError(error)) console.error('Error reporting device:', error);
+        return;
+      }
+      if (!reportedStaffId) return;
+      if (command === 'logout') {
+        setSession(null);
+        addToast('This device was logged out by an admin.', 'warning');
+      } else if (command === 'lock') {
+        handleLock();
+      }
+    };
+    report();
+    const interval = setInterval(report, DEVICE_REPORT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [reportedStaffId, reportedStaffName, isReportedLocked, handleLock, setSession, addToast]);
+
+  useIdleTimer(sessionPolicy.idleLockMinutes * 60 * 1000, handleLock, isLoggedIn && !session?.lockedAt);
+
+  // The absolute limit applies however busy the till is.
+  const sessionExpiry = session ? getSessionExpiry(session, sessionPolicy) : null;
+  useEffect(() => {
+    if (sessionExpiry === null) return;
+    const expire = () => {
+      setSession(null);
+      addToast('Your session has expired. Please log in again.', 'warning');
+    };
+    const remaining = sessionExpiry - Date.now();
+    if (remaining <= 0) {
+      expire();
       return;
     }
+    // setTimeout overflows past ~24.8 days; the effect re-arms whenever the session changes anyway.
+    const timeout = setTimeout(expire, Math.min(remaining, 2 ** 31 - 1));
+    return () => clearTimeout(timeout);
+  }, [sessionExpiry, setSession, addToast]);
 
-    const nextOrderNumber = (lastSale?.order_number || 0) + 1;
-
-    const { data: newSaleData, error: saleInsertError } = await supabase
-        .from('sales').insert({ 
-            total: saleData.total, 
-            paymentMethod: saleData.paymentMethod,
-            status: saleData.items[0]?.name === 'Manual Sale' ? 'Completed' : 'Pending',
-            order_number: nextOrderNumber,
-            user_notes: saleData.userNotes,
-        }).select().single();
-    
-    if (saleInsertError || !newSaleData) {
-      console.error("Error creating sale:", saleInsertError);
-      addToast(`An error occurred while creating the sale: ${saleInsertError?.message || 'Unknown Error'}`, 'error');
-      return;
+  const elevationUntil = session?.elevation?.until;
+  useEffect(() => {
+    if (!elevationUntil) return;
+    const timeout = setTimeout(() => {
+      handleDropElevation();
+      addToast('Elevated access has ended.', 'warning');
+    }, Math.max(0, new Date(elevationUntil).getTime() - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [elevationUntil, handleDropElevation, addToast]);
+
+  const handleLoadStaff = React.useCallback(async (): Promise<StaffMember[]> => {
+    const { data, error } = await dataStore.listStaff();
+    if (error) {
+      console.error('Error fetching staff:', error);
+      addToast(`Error fetching staff: ${error.message}`, 'error');
     }
-    const saleId = newSaleData.id;
+    return data || [];
+  }, [addToast]);
+
+  // Staff changes need an Admin's PIN; the form suggests whoever holds Settings for this session, the approver while elevated.
+  const staffApproverId = (isElevated(session) ? session!.elevation!.staffId : session?.staffId) ?? '';
 
-    const saleItemsToInsert = saleData.items.map(item => ({
-        sale_id: saleId, product_id: item.id, name: item.name, price: item.price, quantity: item.quantity,
+  const handleSaveStaff = async ({ id, ...staffData }: Partial<StaffInput> & { id?: string }, approval: StaffApproval): Promise<MutationResult<unknown>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    const previous = staff.find(s => s.id === id);
+    const { pin, ...details } = staffData;
+    return mutate({
+      run: () => id ? dataStore.updateStaff(id, staffData, approval) : dataStore.insertStaff(staffData as StaffInput, approval),
+      errorMessage: 'Failed to save staff member',
+      successMessage: 'Staff member saved.',
+      onSuccess: (saved) => {
+        handleLoadStaff().then(setStaff);
+        recordAudit('staff.save', {
+          entity_id: id ?? (saved as StaffMember | null)?.id ?? null,
+          summary: details.name ?? previous?.name ?? '',
+          before: previous ? { name: previous.name, role: previous.role, active: previous.active } : null,
+          // The PIN itself is never logged, only that it was set.
+          after: { ...details, ...(pin ? { pin: 'changed' } : {}) },
+        });
+      },
+    });
+  };
+
+  useEffect(() => {
+    if (isLoggedIn) handleLoadStaff().then(setStaff);
+  }, [isLoggedIn, handleLoadStaff]);
+
+  const handleLoadPromoCodes = React.useCallback(async (): Promise<PromoCode[] | null> => {
+    const { data, error } = await dataStore.listPromoCodes();
+    if (error) console.error('Error fetching promo codes:', error);
+    return data;
+  }, []);
+
+  useEffect(() => {
+    if (isLoggedIn) handleLoadPromoCodes().then(list => list && setPromoCodes(list));
+  }, [isLoggedIn, handleLoadPromoCodes]);
+
+  // Checked against a fresh list, so a code added or switched off at another till applies straight
+  // away; offline, the list loaded at login is used instead.
+  const handleRedeemPromoCode = async (code: string): Promise<{ discount: Discount } | { error: string }> => {
+    const latest = await handleLoadPromoCodes();
+    if (latest) setPromoCodes(latest);
+    return redeemPromoCode(latest || promoCodes, code);
+  };
+
+  const handleSavePromoCode = async ({ id, ...promoData }: PromoCodeInput & { id?: string }): Promise<MutationResult<unknown>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    const previous = promoCodes.find(p => p.id === id);
+    return mutate({
+      run: () => id ? dataStore.updatePromoCode(id, promoData) : dataStore.insertPromoCode(promoData),
+      errorMessage: 'Failed to save promo code',
+      successMessage: `Promo code ${promoData.code} saved.`,
+      onSuccess: (saved) => {
+        handleLoadPromoCodes().then(list => list && setPromoCodes(list));
+        const describe = (p: PromoCodeInput) => ({ code: p.code, discount: formatDiscount(p), starts_at: p.starts_at ?? null, ends_at: p.ends_at ?? null, active: p.active });
+        recordAudit('promo.save', {
+          entity_id: id ?? (saved as PromoCode | null)?.id ?? null,
+          summary: promoData.code,
+          before: previous ? describe(previous) : null,
+          after: describe(promoData),
+        });
+      },
+    });
+  };
+
+  // Role changes and deactivations made by an admin apply to a session as soon as staff reload.
+  useEffect(() => {
+    const member = staff.find(s => s.id === session?.staffId);
+    if (!session || !member) return;
+    if (!member.active) {
+      setSession(null);
+      addToast('Your account has been deactivated.', 'warning');
+    } else if (member.role !== session.role || member.name !== session.staffName) {
+      setSession({ ...session, role: member.role, staffName: member.name });
+    }
+  }, [staff, session, setSession, addToast]);
+
+  const handleLogout = () => {
+    setSession(null);
+    setCurrentView('pos');
+  };
+
+  const handleGlobalLogout = async (): Promise<void> => {
+    if (!session || requirePermission('settings.manage')) return;
+    await mutate({
+      run: () => dataStore.triggerGlobalLogout(),
+      errorMessage: 'Failed to log out from other devices',
+      successMessage: 'Successfully triggered a log out on all other devices.',
+      // Stay logged in here, even though the new timestamp is later than this session.
+      onSuccess: () => {
+        setSession({ ...session, loginTimestamp: new Date().toISOString() });
+        recordAudit('logout.global', { summary: 'All devices' });
+      },
+    });
+  };
+
+  const handleHoldCart = async (cart: Pick<HeldCartInput, 'label' | 'items' | 'order_discount' | 'user_notes'>): Promise<MutationResult<HeldCart>> => {
+    const denied = requirePermission('sell');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.insertHeldCart({ ...cart, held_by: session?.staffId ?? null, device_id: getDeviceId() }),
+      errorMessage: 'Failed to park the order',
+      successMessage: `Parked "${cart.label}".`,
+      // Realtime brings it to the other tills; this one shows it straight away.
+      onSuccess: (created) => setHeldCarts(prev => (prev.some(c => c.id === created.id) ? prev : [...prev, created])),
+    });
+  };
+
+  const handleClaimHeldCart = async (id: string): Promise<MutationResult<HeldCart | null>> => {
+    const denied = requirePermission('sell');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.claimHeldCart(id),
+      errorMessage: 'Failed to recall the order',
+      onSuccess: () => setHeldCarts(prev => prev.filter(c => c.id !== id)),
+    });
+  };
+
+  // Draws the next order number ahead of the sale, so it can go in a UPI payment note. Null when
+  // offline; the sale then gets a number as usual.
+  // A reservation only counts in the sequence it was drawn from, so one drawn before midnight, or
+  // before the numbering was changed, is dropped rather than given to a sale in the new sequence.
+  const currentReservation = () =>
+    storedReservation && storedReservation.order_scope === getOrderScope(orderNumbering) ? storedReservation : null;
+  const reservedOrder = currentReservation();
+
+  const handleReserveOrderNumber = async () => {
+    if (!can('sell') || currentReservation()) return;
+    const { data, error } = await dataStore.allocateOrderNumber();
+    if (error && !isNetworkError(error)) console.error("Error reserving order number:", error);
+    setStoredReservation(data);
+  };
+
+  // Mirrors what a sale or refund does to stock, ahead of the sync engine; refunds have negative quantities.
+  const applyStockChange = (items: SaleItem[]) => {
+    setProducts(prev => prev.map(p => {
+      const sold = items.filter(item => item.id === p.id).reduce((sum, item) => sum + item.quantity, 0);
+      return sold ? { ...p, stock: Math.max(0, p.stock - sold) } : p;
     }));
-    const { error: saleItemsInsertError } = await supabase.from('sale_items').insert(saleItemsToInsert);
-    
-    if (saleItemsInsertError) {
-      console.error("Error creating sale items:", saleItemsInsertError);
-      addToast(`Error saving sale items: ${saleItemsInsertError.message}`, 'error');
+  };
+
+  const handleAddSale = async (saleData: { items: SaleItem[], total: number, payments: Payment[], cash?: CashReceived | null, upiRef?: string | null, userNotes?: string, discount?: number, promoCode?: string | null, subtotal?: number, taxes?: SaleTax[] }): Promise<Sale | undefined> => {
+    if (requirePermission('sell')) return;
+    const hasManualDiscount = saleData.items.some(item => item.discount) || (!!saleData.discount && !saleData.promoCode);
+    if (hasManualDiscount && requirePermission('discounts.manual')) return;
+    const reservation = currentReservation();
+    const { data: allocation, error: allocationError } = reservation
+      ? { data: reservation, error: null }
+      : await dataStore.allocateOrderNumber();
+    const isOffline = isNetworkError(allocationError);
+
+    if (allocationError && !isOffline) {
+      console.error("Error allocating order number:", allocationError);
+      addToast("Error creating sale: could not get next order number.", 'error');
+      return;
     }
 
-    const stockUpdates = saleData.items
-        .filter(item => !item.id.startsWith('manual-'))
-        .map(async item => {
-            const product = products.find(p => p.id === item.id);
-            const newStock = product ? product.stock - item.quantity : 0;
-            if (product && product.stock > 0 && newStock <= 0) {
-              addToast(`${product.name} is now out of stock!`, 'warning');
-            }
-            const { error: stockUpdateError } = await supabase.from('products').update({ stock: newStock }).eq('id', item.id);
-            if (stockUpdateError) {
-               console.error("Error updating stock:", stockUpdateError);
-               addToast(`Failed to update stock for ${item.name}: ${stockUpdateError.message}`, 'error');
-            }
-        });
-    await Promise.all(stockUpdates);
-    
-    const newSaleWithItems: Sale = {
-      id: newSaleData.id, timestamp: newSaleData.timestamp, total: newSaleData.total,
-      paymentMethod: newSaleData.paymentMethod, order_number: newSaleData.order_number,
-      status: newSaleData.status, items: saleData.items, admin_notes: null, user_notes: saleData.userNotes,
+    // Offline, the best guess is to continue from the highest number this device has seen in the
+    // current sequence; the replay then reserves it so the backend never hands it out again.
+    const orderScope = allocation?.order_scope ?? getOrderScope(orderNumbering);
+    const orderPrefix = allocation ? allocation.order_prefix : orderNumbering.prefix || null;
+    const orderNumber = allocation?.order_number ?? Math.max(0, ...visibleSales
+      .filter(s => (s.order_scope || 'all') === orderScope)
+      .map(s => s.order_number || 0)) + 1;
+
+    const isManualSale = saleData.items[0]?.name === 'Manual Sale';
+    const pending: PendingSale = {
+      client_id: crypto.randomUUID(),
+      sale: {
+        timestamp: new Date().toISOString(),
+        total: saleData.total,
+        paymentMethod: summarizePaymentMethod(saleData.payments),
+        payments: saleData.payments,
+        cash_tendered: saleData.cash?.tendered ?? null,
+        change_given: saleData.cash?.change ?? null,
+        upi_ref: saleData.upiRef || null,
+        discount: saleData.discount || 0,
+        promo_code: saleData.promoCode || null,
+        subtotal: saleData.subtotal ?? saleData.total,
+        taxes: saleData.taxes?.length ? saleData.taxes : null,
+        status: isManualSale ? 'Completed' : 'Pending',
+        order_number: orderNumber,
+        order_prefix: orderPrefix,
+        order_scope: orderScope,
+        user_notes: saleData.userNotes,
+        created_by: session?.staffId ?? null,
+        completed_by: isManualSale ? session?.staffId ?? null : null,
+      },
+      items: saleData.items,
+      provisional_order_number: isOffline,
     };
 
-    // Optimistically update the UI state so it doesn't solely rely on Realtime
-    setSales(prev => {
-      // Prevent duplicates in case realtime arrives fast
-      if (prev.some(s => s.id === newSaleWithItems.id)) return prev;
-      return [newSaleWithItems, ...prev];
+    saleData.items.forEach(item => {
+      const product = products.find(p => p.id === item.id);
+      if (product && product.stock > 0 && product.stock - item.quantity <= 0) {
+        addToast(`${product.name} is now out of stock!`, 'warning');
+      }
     });
 
-    setProducts(prev => {
-      let updated = [...prev];
-      saleData.items.forEach(item => {
-        if (!item.id.startsWith('manual-')) {
-          updated = updated.map(p => 
-            p.id === item.id ? { ...p, stock: Math.max(0, p.stock - item.quantity) } : p
-          );
-        }
+    const result: SubmitResult = isOffline
+      ? { pending, sale: null, error: allocationError, failedStep: 'sale' }
+      : await submitSale(dataStore, pending);
+
+    let newSaleWithItems: Sale;
+    if (isNetworkError(result.error)) {
+      // Keep whatever progress was made; the replay picks up from the first unfinished step.
+      setOfflineQueue(prev => [...prev, result.pending]);
+      addToast(`No connection. Order #${formatOrderNumber(pending.sale)} was saved on this device and will sync automatically.`, 'warning');
+      newSaleWithItems = toUnsyncedSale(result.pending);
+    } else if (!result.sale) {
+      console.error("Error creating sale:", result.error);
+      addToast(`An error occurred while creating the sale: ${result.error?.message || 'Unknown Error'}`, 'error');
+      return;
+    } else {
+      if (result.error) {
+        console.error(`Error during sale step "${result.failedStep}":`, result.error);
+        addToast(result.failedStep === 'items'
+          ? `Error saving sale items: ${result.error.message}`
+          : `Failed to update stock: ${result.error.message}`, 'error');
+      }
+      const newSaleData = result.sale;
+      newSaleWithItems = {
+        id: newSaleData.id, timestamp: newSaleData.timestamp, total: newSaleData.total,
+        paymentMethod: newSaleData.paymentMethod, payments: newSaleData.payments,
+        cash_tendered: newSaleData.cash_tendered, change_given: newSaleData.change_given, upi_ref: newSaleData.upi_ref, discount: newSaleData.discount, promo_code: newSaleData.promo_code,
+        subtotal: newSaleData.subtotal, taxes: newSaleData.taxes,
+        order_number: newSaleData.order_number,
+        order_prefix: newSaleData.order_prefix, order_scope: newSaleData.order_scope,
+        status: newSaleData.status, items: saleData.items, admin_notes: null, user_notes: saleData.userNotes,
+        client_id: newSaleData.client_id, created_by: newSaleData.created_by, completed_by: newSaleData.completed_by,
+      };
+
+      // Optimistically update the UI state so it doesn't solely rely on Realtime
+      setSales(prev => {
+        // Prevent duplicates in case realtime arrives fast
+        if (prev.some(s => s.id === newSaleWithItems.id)) return prev;
+        return [newSaleWithItems, ...prev];
       });
-      return updated;
-    });
+    }
+
+    setStoredReservation(null);
+    applyStockChange(saleData.items);
 
     return newSaleWithItems;
   };
 
-  const handleUpdateSaleStatus = async (saleId: string, status: 'Completed') => {
-    // Optimistic update
-    setSales(prev => prev.map(s => s.id === saleId ? { ...s, status } : s));
-    
-    const { error } = await supabase.from('sales').update({ status }).eq('id', saleId);
-    if (error) {
-      console.error('Error updating sale status:', error);
-      addToast('Failed to update order status.', 'error');
-      // Revert optimistic update on error would be ideal here if doing it properly
+  // A refund is recorded as a sale of its own under the original's order number, with negative
+  // amounts and quantities, so every total that sums sales comes out net and its stock goes back.
+  const handleRefundSale = async (sale: Sale, refund: RefundRequest): Promise<MutationResult<Sale>> => {
+    const denied = requirePermission('sales.refund');
+    if (denied) return denied;
+    const pending: PendingSale = {
+      client_id: crypto.randomUUID(),
+      sale: {
+        timestamp: new Date().toISOString(),
+        total: refund.total,
+        paymentMethod: refund.method,
+        payments: [{ method: refund.method, amount: refund.total }],
+        discount: refund.discount,
+        subtotal: refund.subtotal,
+        taxes: refund.taxes.length ? refund.taxes : null,
+        refund_of: sale.id,
+        refund_reason: refund.reason,
+        status: 'Completed',
+        order_number: sale.order_number,
+        order_prefix: sale.order_prefix ?? null,
+        order_scope: sale.order_scope ?? null,
+        created_by: session?.staffId ?? null,
+        completed_by: session?.staffId ?? null,
+      },
+      items: refund.items,
+    };
+    const amount = `₹${(-refund.total).toFixed(2)}`;
+
+    const result = await submitSale(dataStore, pending);
+    let refundSale: Sale;
+    if (isNetworkError(result.error)) {
+      setOfflineQueue(prev => [...prev, result.pending]);
+      addToast(`No connection. The ${amount} refund on order #${formatOrderNumber(sale)} was saved on this device and will sync automatically.`, 'warning');
+      refundSale = toUnsyncedSale(result.pending);
+    } else if (!result.sale) {
+      const error = result.error || { message: 'Unknown Error' };
+      console.error("Error recording refund:", error);
+      addToast(`Failed to record the refund: ${error.message}`, 'error');
+      return { ok: false, error };
     } else {
-        const completedOrder = sales.find(s => s.id === saleId);
-        if (completedOrder) {
-          addToast(`Order #${completedOrder.order_number} marked as complete.`, 'success');
-        }
+      if (result.error) {
+        console.error(`Error during refund step "${result.failedStep}":`, result.error);
+        addToast(result.failedStep === 'items'
+          ? `Error saving refund items: ${result.error.message}`
+          : `The refund was recorded, but the stock could not be put back: ${result.error.message}`, 'error');
+      } else {
+        addToast(`Refunded ${amount} on order #${formatOrderNumber(sale)}.`, 'success');
+      }
+      refundSale = { ...result.sale, items: refund.items };
+      setSales(prev => (prev.some(s => s.id === refundSale.id) ? prev : [refundSale, ...prev]));
     }
+
+    // A voided order has nothing left to make, so it leaves the kitchen queue on every till.
+    if (refund.clearsSale && sale.status === 'Pending') {
+      const patch = { status: 'Completed' as const, completed_by: session?.staffId ?? null };
+      if (!updateQueuedSale(sale.id, patch)) {
+        mutate({
+          run: () => dataStore.updateSale(toRemoteSaleId(sale.id), patch),
+          optimistic: () => {
+            setSales(prev => prev.map(s => s.id === sale.id ? { ...s, ...patch } : s));
+            return () => setSales(prev => prev.map(s => s.id === sale.id ? { ...s, status: sale.status, completed_by: sale.completed_by } : s));
+          },
+          errorMessage: `The refund was recorded, but order #${formatOrderNumber(sale)} could not be taken off the queue`,
+        });
+      }
+    }
+
+    applyStockChange(refund.items);
+    recordAudit('sale.refund', {
+      entity_id: sale.id,
+      summary: `Order #${formatOrderNumber(sale)}`,
+      before: null,
+      after: {
+        amount: -refund.total,
+        method: refund.method,
+        reason: refund.reason,
+        items: refund.items.map(item => `${item.name} x${-item.quantity}`).join(', '),
+      },
+    });
+    return { ok: true, data: refundSale };
   };
-  
-  const handleUpdateSaleNotes = async (saleId: string, notes: string) => {
-    // Optimistic update
-    setSales(prev => prev.map(s => s.id === saleId ? { ...s, admin_notes: notes } : s));
 
-    const { error } = await supabase.from('sales').update({ admin_notes: notes }).eq('id', saleId);
-    if (error) {
-      console.error('Error updating sale notes:', error);
-      addToast('Failed to save notes.', 'error');
-    } else {
-      addToast('Notes saved successfully!', 'success');
+  // Applies a change to a sale that has not reached the backend yet. Returns false when the sale
+  // already exists remotely and should be updated there instead.
+  const updateQueuedSale = (saleId: string, patch: Partial<PendingSale['sale']>): boolean => {
+    const queued = unsyncedSales.find(p => p.client_id === saleId);
+    if (!queued || queued.sale_id) return false;
+    const applyPatch = <T extends PendingSale>(list: T[]) => list.map(p => p.client_id === saleId ? { ...p, sale: { ...p.sale, ...patch } } : p);
+    setOfflineQueue(applyPatch);
+    setFailedSales(applyPatch);
+    return true;
+  };
+
+  // Sales that were partly synced are shown under their client id but live remotely under `sale_id`.
+  const toRemoteSaleId = (saleId: string) => unsyncedSales.find(p => p.client_id === saleId)?.sale_id || saleId;
+
+  const handleUpdateSaleStatus = async (saleId: string, status: 'Completed'): Promise<MutationResult<null>> => {
+    const denied = requirePermission('orders.complete');
+    if (denied) return denied;
+    const completedOrder = visibleSales.find(s => s.id === saleId);
+    const successMessage = completedOrder ? `Order #${formatOrderNumber(completedOrder)} marked as complete.` : undefined;
+    const patch = { status, completed_by: session?.staffId ?? null };
+    if (updateQueuedSale(saleId, patch)) {
+      if (successMessage) addToast(successMessage, 'success');
+      return { ok: true, data: null };
     }
+
+    return mutate({
+      run: () => dataStore.updateSale(toRemoteSaleId(saleId), patch),
+      optimistic: () => {
+        const previous = sales.find(s => s.id === saleId);
+        setSales(prev => prev.map(s => s.id === saleId ? { ...s, ...patch } : s));
+        return () => {
+          if (previous) setSales(prev => prev.map(s => s.id === saleId ? { ...s, status: previous.status, completed_by: previous.completed_by } : s));
+        };
+      },
+      errorMessage: 'Failed to update order status',
+      successMessage,
+    });
   };
   
-  const handleSaveProduct = async (product: Omit<Product, 'id'> & { id?: string }) => {
-    const { id, ...productData } = product;
+  const handleUpdateSaleNotes = async (saleId: string, notes: string): Promise<MutationResult<null>> => {
+    const denied = requirePermission('orders.notes');
+    if (denied) return denied;
+    const patch = { admin_notes: notes, notes_edited_by: session?.staffId ?? null };
+    const sale = visibleSales.find(s => s.id === saleId);
+    const auditNotes = () => recordAudit('sale.notes', {
+      entity_id: toRemoteSaleId(saleId),
+      summary: sale ? `Order #${formatOrderNumber(sale)}` : '',
+      before: { admin_notes: sale?.admin_notes ?? null },
+      after: { admin_notes: notes },
+    });
+    if (updateQueuedSale(saleId, patch)) {
+      addToast('Notes saved on this device.', 'success');
+      auditNotes();
+      return { ok: true, data: null };
+    }
+
+    return mutate({
+      run: () => dataStore.updateSale(toRemoteSaleId(saleId), patch),
+      optimistic: () => {
+        const previous = sales.find(s => s.id === saleId);
+        setSales(prev => prev.map(s => s.id === saleId ? { ...s, ...patch } : s));
+        return () => setSales(prev => prev.map(s => s.id === saleId ? { ...s, admin_notes: previous?.admin_notes, notes_edited_by: previous?.notes_edited_by } : s));
+      },
+      errorMessage: 'Failed to save notes',
+      successMessage: 'Notes saved successfully!',
+      onSuccess: auditNotes,
+    });
+  };
+
+  // Restores a row removed or changed optimistically, keeping the list in the sync engine's order.
+  const restoreById = <T extends { id: string; name: string }>(previous: T) => (list: T[]) =>
+    [...list.filter(item => item.id !== previous.id), previous].sort((a, b) => a.name.localeCompare(b.name));
+
+  // What the audit log records of a product; category names read better than ids after the fact.
+  const productSnapshot = (product: Pick<Product, 'name' | 'price' | 'sku' | 'barcode' | 'category_id' | 'tax_rate_id'>) => ({
+    name: product.name,
+    price: product.price,
+    sku: product.sku ?? null,
+    barcode: product.barcode ?? null,
+    category: categories.find(c => c.id === product.category_id)?.name ?? null,
+    tax_rate: product.tax_rate_id === TAX_EXEMPT ? 'No tax' : taxConfig.rates.find(r => r.id === product.tax_rate_id)?.name ?? null,
+  });
+
+  const handleSaveProduct = async (product: Omit<Product, 'id'> & { id?: string }): Promise<MutationResult<unknown>> => {
+    const denied = requirePermission('inventory.manage');
+    if (denied) return denied;
+    // Stock is never written as an absolute value; it only changes through stock movements.
+    const { id, stock, ...productData } = product;
     if (id) {
-      await supabase.from('products').update(productData).eq('id', id);
-    } else {
-      await supabase.from('products').insert(productData);
+      const previous = products.find(p => p.id === id);
+      return mutate({
+        run: () => dataStore.updateProduct(id, productData),
+        optimistic: () => {
+          const category = categories.find(c => c.id === productData.category_id);
+          setProducts(prev => prev.map(p => p.id === id ? { ...p, ...productData, categories: category ? { name: category.name } : null } : p));
+          return () => { if (previous) setProducts(restoreById(previous)); };
+        },
+        errorMessage: 'Failed to save product',
+        successMessage: 'Product saved.',
+        onSuccess: () => recordAudit('product.update', {
+          entity_id: id,
+          summary: productData.name,
+          before: previous ? productSnapshot(previous) : null,
+          after: productSnapshot(productData),
+        }),
+      });
     }
-    // UI will update via realtime subscription.
+
+    // Retrying after the stock step failed must not insert the product a second time.
+    let created: Product | null = null;
+    return mutate({
+      run: async () => {
+        if (!created) {
+          const { data, error } = await dataStore.insertProduct({ ...productData, stock: 0 });
+          if (error || !data) return { data: null, error: error || { message: 'Unknown Error' } };
+          created = data;
+        }
+        if (stock > 0) {
+          const { error } = await dataStore.adjustStock({
+            productId: created.id, delta: stock, reason: 'restock', note: 'Opening stock', clientRef: `opening:${created.id}`,
+          });
+          if (error) return { data: null, error: { ...error, message: `Product added, but its opening stock was not: ${error.message}` } };
+        }
+        return { data: created, error: null };
+      },
+      errorMessage: 'Failed to add product',
+      successMessage: 'Product added.',
+    });
+  };
+
+  const handleAdjustStock = async (productId: string, delta: number, reason: StockMovementReason, note?: string): Promise<MutationResult<number>> => {
+    const denied = requirePermission('inventory.manage');
+    if (denied) return denied;
+    const product = products.find(p => p.id === productId);
+    return mutate({
+      run: () => dataStore.adjustStock({ productId, delta, reason, note }),
+      errorMessage: 'Failed to adjust stock',
+      successMessage: 'Stock updated.',
+      onSuccess: (stockAfter) => {
+        setProducts(prev => prev.map(p => p.id === productId ? { ...p, stock: stockAfter ?? p.stock } : p));
+        recordAudit('stock.adjust', {
+          entity_id: productId,
+          summary: product?.name ?? '',
+          before: { stock: stockAfter === null ? null : stockAfter - delta },
+          after: { stock: stockAfter, delta, reason, note: note || null },
+        });
+      },
+    });
   };
 
-  const handleDeleteProduct = async (productId: string) => {
-    await supabase.from('products').delete().eq('id', productId);
-    // UI will update via realtime subscription.
+  const handleLoadStockMovements = React.useCallback(async (productId: string): Promise<StockMovement[]> => {
+    const { data, error } = await dataStore.listStockMovements(productId);
+    if (error) {
+      console.error('Error fetching stock movements:', error);
+      addToast(`Error fetching inventory history: ${error.message}`, 'error');
+    }
+    return data || [];
+  }, [addToast]);
+
+  const handleDeleteProduct = async (productId: string): Promise<MutationResult<null>> => {
+    const denied = requirePermission('inventory.manage');
+    if (denied) return denied;
+    const previous = products.find(p => p.id === productId);
+    return mutate({
+      run: () => dataStore.deleteProduct(productId),
+      optimistic: () => {
+        setProducts(prev => prev.filter(p => p.id !== productId));
+        return () => { if (previous) setProducts(restoreById(previous)); };
+      },
+      errorMessage: 'Failed to delete product',
+      successMessage: 'Product deleted.',
+      onSuccess: () => recordAudit('product.delete', {
+        entity_id: productId,
+        summary: previous?.name ?? '',
+        before: previous ? { ...productSnapshot(previous), stock: previous.stock } : null,
+      }),
+    });
   };
   
-  const handleSaveCategory = async (category: Omit<Category, 'id'> & { id?: string }) => {
-     const { id, ...categoryData } = category;
-     if (id) {
-        await supabase.from('categories').update(categoryData).eq('id', id);
-     } else {
-        await supabase.from('categories').insert(categoryData);
-     }
-     // UI will update via realtime subscription.
+  const handleSaveCategory = async (category: Omit<Category, 'id'> & { id?: string }): Promise<MutationResult<unknown>> => {
+    const denied = requirePermission('inventory.manage');
+    if (denied) return denied;
+    const { id, ...categoryData } = category;
+    if (!id) {
+      return mutate({
+        run: () => dataStore.insertCategory(categoryData),
+        errorMessage: 'Failed to add category',
+        successMessage: 'Category added.',
+      });
+    }
+    return mutate({
+      run: () => dataStore.updateCategory(id, categoryData),
+      optimistic: () => {
+        const previous = categories.find(c => c.id === id);
+        setCategories(prev => prev.map(c => c.id === id ? { ...c, ...categoryData } : c));
+        return () => { if (previous) setCategories(restoreById(previous)); };
+      },
+      errorMessage: 'Failed to save category',
+      successMessage: 'Category saved.',
+    });
   };
   
-  const handleDeleteCategory = async (categoryId: string) => {
-    await supabase.from('categories').delete().eq('id', categoryId);
-    // UI (both categories and products list) will update via realtime subscription.
+  const handleDeleteCategory = async (categoryId: string): Promise<MutationResult<null>> => {
+    const denied = requirePermission('inventory.manage');
+    if (denied) return denied;
+    const previous = categories.find(c => c.id === categoryId);
+    return mutate({
+      run: () => dataStore.deleteCategory(categoryId),
+      optimistic: () => {
+        setCategories(prev => prev.filter(c => c.id !== categoryId));
+        return () => { if (previous) setCategories(restoreById(previous)); };
+      },
+      errorMessage: 'Failed to delete category',
+      successMessage: 'Category deleted.',
+      onSuccess: () => recordAudit('category.delete', {
+        entity_id: categoryId,
+        summary: previous?.name ?? '',
+        before: previous ? { name: previous.name, products: products.filter(p => p.category_id === categoryId).length } : null,
+      }),
+    });
+  };
+
+  const handleResetHistory = async (): Promise<MutationResult<null>> => {
+    const denied = requirePermission('history.reset');
+    if (denied) return denied;
+    // Only the active window is loaded, so the log can describe what was on screen, not the full history.
+    const before = { loaded_sales: sales.length, loaded_total: sales.reduce((sum, s) => sum + s.total, 0), unsynced_sales: unsyncedSales.length };
+    return mutate({
+      run: () => dataStore.deleteAllSales(),
+      // Mass deletes don't broadcast a single event, so clear state manually for instant feedback.
+      optimistic: () => {
+        const previousSales = sales;
+        setSales([]);
+        return () => setSales(previousSales);
+      },
+      errorMessage: 'Failed to reset sales history',
+      onSuccess: () => {
+        setOfflineQueue([]);
+        setFailedSales([]);
+        syncEngineRef.current?.syncNow();
+        recordAudit('history.reset', { summary: 'All sales', before, after: { loaded_sales: 0, loaded_total: 0, unsynced_sales: 0 } });
+      },
+    });
   };
 
-  const handleResetHistory = async (): Promise<void> => {
-    // Mass deletes don't broadcast a single event, so we'll clear state manually for instant feedback.
-    await supabase.from('sale_items').delete().neq('sale_id', '00000000-0000-0000-0000-000000000000');
-    await supabase.from('sales').delete().neq('id', '00000000-0000-0000-0000-000000000000');
-    setSales([]);
+  // A failed sale goes back to the end of the queue with the progress it had made, and is replayed straight away.
+  const handleRetryFailedSale = async (clientId: string): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    const failed = failedSales.find(p => p.client_id === clientId);
+    if (!failed) return { ok: true, data: null };
+    setFailedSales(prev => prev.filter(p => p.client_id !== clientId));
+    setOfflineQueue(prev => [...prev, toPendingSale(failed)]);
+    offlineQueueRef.current = [...offlineQueueRef.current, toPendingSale(failed)];
+    replayOfflineQueue();
+    return { ok: true, data: null };
   };
 
+  // Drops a failed sale for good. Whatever it had already written to the backend stays there.
+  const handleDiscardFailedSale = async (clientId: string): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    const failed = failedSales.find(p => p.client_id === clientId);
+    if (!failed) return { ok: true, data: null };
+    setFailedSales(prev => prev.filter(p => p.client_id !== clientId));
+    addToast(`Order #${formatOrderNumber(failed.sale)} discarded.`, 'success');
+    recordAudit('sale.discard', {
+      entity_id: failed.sale_id ?? null,
+      summary: `Order #${formatOrderNumber(failed.sale)}`,
+      before: { total: failed.sale.total, error: failed.error, items: failed.items.map(item => `${item.name} x${item.quantity}`).join(', ') },
+      after: null,
+    });
+    return { ok: true, data: null };
+  };
+
+  const handleSaveOrderNumbering = async (config: OrderNumberingConfig): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.setConfigValue(ORDER_NUMBERING_CONFIG_KEY, JSON.stringify(config)),
+      errorMessage: 'Failed to save order numbering',
+      successMessage: 'Order numbering updated.',
+      onSuccess: () => setOrderNumbering(config),
+    });
+  };
+
+  const handleSaveTaxConfig = async (config: TaxConfig): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.setConfigValue(TAX_CONFIG_KEY, JSON.stringify(config)),
+      errorMessage: 'Failed to save tax settings',
+      successMessage: 'Tax settings updated.',
+      onSuccess: () => setTaxConfig(config),
+    });
+  };
+
+  const handleSaveUpiConfig = async (config: UpiConfig): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.setConfigValue(UPI_CONFIG_KEY, JSON.stringify(config)),
+      errorMessage: 'Failed to save UPI settings',
+      successMessage: 'UPI settings updated.',
+      onSuccess: () => setUpiConfig(config),
+    });
+  };
+
+  const handleSaveSessionPolicy = async (policy: SessionPolicy): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.setConfigValue(SESSION_POLICY_CONFIG_KEY, JSON.stringify(policy)),
+      errorMessage: 'Failed to save session settings',
+      successMessage: 'Session settings updated.',
+      onSuccess: () => setSessionPolicy(policy),
+    });
+  };
+
+  const handleSaveRoles = async (nextRoles: RoleDefinition[]): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.setConfigValue(ROLES_CONFIG_KEY, JSON.stringify(nextRoles)),
+      errorMessage: 'Failed to save roles',
+      successMessage: 'Roles updated.',
+      onSuccess: () => {
+        setRoles(parseRolesConfig(JSON.stringify(nextRoles)));
+        const byName = (list: RoleDefinition[]) => Object.fromEntries(list.map(r => [r.name, r.permissions.join(', ')]));
+        recordAudit('roles.save', { summary: 'Permission matrix', before: byName(roles), after: byName(nextRoles) });
+      },
+    });
+  };
+
+  const handleLoadDevices = React.useCallback(async (): Promise<Device[]> => {
+    const { data, error } = await dataStore.listDevices();
+    if (error) {
+      console.error('Error fetching devices:', error);
+      addToast(`Error fetching devices: ${error.message}`, 'error');
+    }
+    return data || [];
+  }, [addToast]);
+
+  const handleRenameDevice = async (device: Device, name: string | null): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.renameDevice(device.id, name),
+      errorMessage: 'Failed to rename device',
+      successMessage: 'Device renamed.',
+      onSuccess: () => recordAudit('device.rename', {
+        entity_id: device.id,
+        summary: deviceLabel({ id: device.id, name }),
+        before: { name: device.name ?? null },
+        after: { name },
+      }),
+    });
+  };
+
+  const handleSendDeviceCommand = async (device: Device, command: DeviceCommand): Promise<MutationResult<null>> => {
+    const denied = requirePermission('settings.manage');
+    if (denied) return denied;
+    return mutate({
+      run: () => dataStore.sendDeviceCommand(device.id, command),
+      errorMessage: command === 'logout' ? 'Failed to log out device' : 'Failed to lock device',
+      successMessage: `${deviceLabel(device)} will ${command === 'logout' ? 'log out' : 'lock'} within a few seconds.`,
+      onSuccess: () => recordAudit(command === 'logout' ? 'device.logout' : 'device.lock', {
+        entity_id: device.id,
+        summary: deviceLabel(device),
+        before: { user: device.current_staff_name ?? null },
+      }),
+    });
+  };
+
+  const handleSwitchBackendProfile = (profile: BackendProfile) => {
+    if (requirePermission('settings.manage')) return;
+    setBackendProfile(profile);
+    reloadWithNewBackend();
+  };
+
+  const handleSaveBackendConnection = (profile: RemoteBackendProfile, connection: SupabaseConnection | null) => {
+    if (requirePermission('settings.manage')) return;
+    setDeviceConnection(profile, connection);
+    if (profile === activeBackend.profile) {
+      reloadWithNewBackend();
+    } else {
+      addToast('Connection saved.', 'success');
+    }
+  };
+
+  // Falls back to the first view the role may open, e.g. Orders for kitchen staff.
+  useEffect(() => {
+    if (session && views.length > 0 && !views.includes(currentView)) setCurrentView(views[0]);
+  }, [session, views, currentView]);
+
+  // The overlays open from any screen; each screen adds its own shortcuts on top.
+  useHotkeys(hotkeys, {
+    showShortcuts: () => { setIsPaletteOpen(false); setIsShortcutsOpen(true); },
+    commandPalette: () => { setIsShortcutsOpen(false); setIsPaletteOpen(true); },
+  }, !!session && !session.lockedAt);
+
+  const paletteCommands = useMemo<Command[]>(() => [
+    ...navViews.filter(({ view }) => views.includes(view)).map(({ view, label, icon }) => ({
+      id: `view:${view}`,
+      label: `Go to ${label}`,
+      icon,
+      run: () => setCurrentView(view),
+    })),
+    { id: 'shortcuts', label: 'Keyboard shortcuts', icon: <KeyboardIcon />, hint: formatCombo(hotkeys.showShortcuts), run: () => setIsShortcutsOpen(true) },
+  ], [views, hotkeys.showShortcuts]);
+
   const renderView = () => {
-    const adminViews: View[] = ['dashboard', 'history', 'inventory'];
-    if (session?.role === 'user' && adminViews.includes(currentView)) {
-      setCurrentView('pos');
-      return <PosView products={products} categories={categories} onAddSale={handleAddSale} />;
+    if (views.length === 0) {
+      return <div className="text-center text-xl mt-20">Your role has no access to any screen. Ask an admin to update it.</div>;
     }
+    if (!views.includes(currentView)) return null;
 
     if (isLoading) {
       return <div className="text-center text-xl mt-20">Loading...</div>;
@@ -336,38 +1165,97 @@ const AppContent: React.FC = () => {
 
     switch (currentView) {
       case 'pos':
-        return <PosView products={products} categories={categories} onAddSale={handleAddSale} />;
+        return <PosView products={products} categories={categories} onAddSale={handleAddSale} onRedeemPromoCode={handleRedeemPromoCode} canDiscount={can('discounts.manual')} taxConfig={taxConfig} upiConfig={upiConfig} reservedOrder={reservedOrder} onReserveOrderNumber={handleReserveOrderNumber} heldCarts={heldCarts} onHoldCart={handleHoldCart} onClaimHeldCart={handleClaimHeldCart} hotkeys={hotkeys} hotkeysEnabled={!isShortcutsOpen && !isPaletteOpen} />;
       case 'orders':
-        return <OrdersView sales={sales} onUpdateSaleStatus={handleUpdateSaleStatus} onUpdateSaleNotes={handleUpdateSaleNotes} role={session!.role} />;
+        return <OrdersView sales={visibleSales} onUpdateSaleStatus={handleUpdateSaleStatus} onUpdateSaleNotes={handleUpdateSaleNotes} canCompleteOrders={can('orders.complete')} canEditNotes={can('orders.notes')} onRefundSale={can('sales.refund') ? handleRefundSale : undefined} staffNames={staffNames} />;
       case 'dashboard':
-        return <DashboardView sales={sales} products={products} />;
+        return <DashboardView sales={visibleSales} products={products} />;
       case 'history':
-        return <HistoryView sales={sales} onResetHistory={handleResetHistory} />;
+        return <HistoryView liveSales={visibleSales} onResetHistory={can('history.reset') ? handleResetHistory : undefined} onRefundSale={can('sales.refund') ? handleRefundSale : undefined} staffNames={staffNames} />;
       case 'inventory':
         return <SettingsView 
                   products={products} 
                   categories={categories}
                   onSaveProduct={handleSaveProduct} 
                   onDeleteProduct={handleDeleteProduct}
+                  onAdjustStock={handleAdjustStock}
+                  onLoadStockMovements={handleLoadStockMovements}
                   onSaveCategory={handleSaveCategory}
                   onDeleteCategory={handleDeleteCategory}
                   onGlobalLogout={handleGlobalLogout}
+                  onLoadDevices={handleLoadDevices}
+                  onRenameDevice={handleRenameDevice}
+                  onSendDeviceCommand={handleSendDeviceCommand}
+                  staff={staff}
+                  onSaveStaff={handleSaveStaff}
+                  staffApproverId={staffApproverId}
+                  promoCodes={promoCodes}
+                  onSavePromoCode={handleSavePromoCode}
+                  roles={roles}
+                  onSaveRoles={handleSaveRoles}
+                  sessionPolicy={sessionPolicy}
+                  onSaveSessionPolicy={handleSaveSessionPolicy}
+                  canManageInventory={can('inventory.manage')}
+                  canManageSettings={can('settings.manage')}
+                  orderNumbering={orderNumbering}
+                  onSaveOrderNumbering={handleSaveOrderNumbering}
+                  failedSales={failedSales}
+                  onRetryFailedSale={handleRetryFailedSale}
+                  onDiscardFailedSale={handleDiscardFailedSale}
+                  taxConfig={taxConfig}
+                  onSaveTaxConfig={handleSaveTaxConfig}
+                  upiConfig={upiConfig}
+                  onSaveUpiConfig={handleSaveUpiConfig}
+                  backendProfile={activeBackend.profile}
+                  onSwitchBackendProfile={handleSwitchBackendProfile}
+                  onSaveBackendConnection={handleSaveBackendConnection}
                 />;
+      case 'audit':
+        return <AuditView staff={staff} staffNames={staffNames} />;
       default:
-        return <PosView products={products} categories={categories} onAddSale={handleAddSale} />;
+        return <PosView products={products} categories={categories} onAddSale={handleAddSale} onRedeemPromoCode={handleRedeemPromoCode} canDiscount={can('discounts.manual')} taxConfig={taxConfig} upiConfig={upiConfig} reservedOrder={reservedOrder} onReserveOrderNumber={handleReserveOrderNumber} heldCarts={heldCarts} onHoldCart={handleHoldCart} onClaimHeldCart={handleClaimHeldCart} hotkeys={hotkeys} hotkeysEnabled={!isShortcutsOpen && !isPaletteOpen} />;
     }
   };
 
+  if (needsBackendSetup && activeBackend.profile !== 'local') {
+    return (
+      <BackendSetupView
+        profile={activeBackend.profile}
+        onSaveConnection={(connection) => handleSaveBackendConnection(activeBackend.profile as RemoteBackendProfile, connection)}
+        onUseLocal={() => handleSwitchBackendProfile('local')}
+      />
+    );
+  }
+
   if (!session) {
-    return <LoginView onLogin={handleLogin} />;
+    return <LoginView onLoadStaff={handleLoadStaff} onLogin={handleLogin} roles={roles} />;
+  }
+
+  if (session.lockedAt) {
+    return <LockView staffName={session.staffName} onUnlock={handleUnlock} onSwitchUser={handleLogout} />;
   }
 
   return (
     <div className="min-h-screen font-sans">
-      <Header currentView={currentView} setCurrentView={setCurrentView} role={session.role} onLogout={handleLogout} theme={theme} toggleTheme={toggleTheme} />
+      <Header currentView={currentView} setCurrentView={setCurrentView} allowedViews={views} staffName={session.staffName} onLogout={handleLogout} onLock={handleLock}
+        elevation={isElevated(session) ? session.elevation! : null}
+        onElevate={elevationCandidates.length > 0 ? () => setIsElevateModalOpen(true) : undefined}
+        onDropElevation={handleDropElevation} theme={theme} toggleTheme={toggleTheme} connectionStatus={connectionStatus} backendProfile={activeBackend.profile}
+        onShowShortcuts={() => setIsShortcutsOpen(true)} shortcutsHint={formatCombo(hotkeys.showShortcuts)} />
       <main className="p-2 sm:p-4 lg:p-6">
         {renderView()}
       </main>
+      {isElevateModalOpen && (
+        <ElevateModal
+          candidates={elevationCandidates}
+          roles={roles}
+          minutes={sessionPolicy.elevationMinutes}
+          onElevate={handleElevate}
+          onClose={() => setIsElevateModalOpen(false)}
+        />
+      )}
+      <ShortcutsModal isOpen={isShortcutsOpen} hotkeys={hotkeys} onChange={setStoredHotkeys} onClose={() => setIsShortcutsOpen(false)} />
+      <CommandPalette isOpen={isPaletteOpen} commands={paletteCommands} onClose={() => setIsPaletteOpen(false)} />
     </div>
   );
 };
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useRef } from 'react';
+import Modal from './Modal';
+
+// The Shape Detection API; not yet in TypeScript's DOM types.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+const SCAN_INTERVAL_MS = 250;
+// A code held in front of the camera is read many times a second; it counts once in this window.
+const REPEAT_COOLDOWN_MS = 2000;
+
+/** Whether this browser can read barcodes from the camera; mostly Chrome on Android tablets. */
+export const isCameraScanSupported = () => !!window.BarcodeDetector && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Reads barcodes with the device's back camera until closed, so several items can be scanned in a
+ * row. `onScan` returns a line to show under the preview, e.g. what was added.
+ */
+const CameraScanner: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (code: string) => string;
+}> = ({ isOpen, onClose, onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !window.BarcodeDetector) return;
+
+    let stream: MediaStream | null = null;
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    let isStopped = false;
+    const detector = new window.BarcodeDetector();
+    const lastSeen = new Map<string, number>();
+    setMessage('');
+    setError('');
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } }).then(media => {
+      if (isStopped) {
+        media.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = media;
+      const video = videoRef.current;
+      if (!video) return;
+      video.srcObject = media;
+      video.play();
+
+      intervalId = setInterval(async () => {
+        if (video.readyState < video.HAVE_ENOUGH_DATA) return;
+        try {
+          const codes = await detector.detect(video);
+          const now = Date.now();
+          codes.forEach(({ rawValue }) => {
+            if (now - (lastSeen.get(rawValue) || 0) < REPEAT_COOLDOWN_MS) return;
+            lastSeen.set(rawValue, now);
+            setMessage(onScanRef.current(rawValue));
+          });
+        } catch (e) {
+          console.error('Barcode detection failed', e);
+        }
+      }, SCAN_INTERVAL_MS);
+    }).catch(e => {
+      console.error('Could not open the camera', e);
+      setError('Could not open the camera. Check that this site is allowed to use it.');
+    });
+
+    return () => {
+      isStopped = true;
+      clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-4 text-center">Scan with Camera</h2>
+      {error ? (
+        <p className="text-center text-red-500 dark:text-red-400">{error}</p>
+      ) : (
+        <video ref={videoRef} muted playsInline className="w-full rounded-lg bg-black aspect-video object-cover" />
+      )}
+      <p className="mt-3 min-h-[1.5rem] text-center text-sm font-medium" aria-live="polite">{message || 'Hold a barcode up to the camera.'}</p>
+      <button onClick={onClose} className="w-full mt-4 bg-indigo-600 text-white font-bold py-2 rounded-lg hover:bg-indigo-500 transition-colors">Done</button>
+    </Modal>
+  );
+};
+
+export default CameraScanner;
@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import Modal from './Modal';
+
+export interface Command {
+  id: string;
+  label: string;
+  icon?: React.ReactNode;
+  hint?: string; // e.g. the command's own shortcut
+  run: () => void;
+}
+
+/** Type to filter, arrows to move, Enter to run. */
+const CommandPalette: React.FC<{
+  isOpen: boolean;
+  commands: Command[];
+  onClose: () => void;
+}> = ({ isOpen, commands, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (isOpen) setQuery('');
+  }, [isOpen]);
+
+  const matches = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    return term ? commands.filter(c => c.label.toLowerCase().includes(term)) : commands;
+  }, [commands, query]);
+
+  useEffect(() => { setActiveIndex(0); }, [matches]);
+
+  const runCommand = (command: Command | undefined) => {
+    if (!command) return;
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(i => Math.min(i + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      runCommand(matches[activeIndex]);
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Go to..."
+        aria-label="Command"
+        className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        autoFocus
+      />
+      <ul className="mt-3 space-y-1" role="listbox">
+        {matches.map((command, i) => (
+          <li key={command.id} role="option" aria-selected={i === activeIndex}>
+            <button
+              onClick={() => runCommand(command)}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`w-full flex items-center gap-3 px-3 py-2 rounded-md text-left ${i === activeIndex ? 'bg-indigo-600 text-white' : 'hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+            >
+              {command.icon}
+              <span className="flex-grow">{command.label}</span>
+              {command.hint && <span className={`text-xs font-mono ${i === activeIndex ? 'text-indigo-100' : 'text-slate-500 dark:text-slate-400'}`}>{command.hint}</span>}
+            </button>
+          </li>
+        ))}
+        {matches.length === 0 && <li className="px-3 py-2 text-sm text-slate-500 dark:text-slate-400">Nothing matches.</li>}
+      </ul>
+    </Modal>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import type { SupabaseConnection } from '../lib/backendConfig';
+import { validateConnection } from '../lib/backendConfig';
+
+const inputClasses = "w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const ConnectionForm: React.FC<{
+  initial: SupabaseConnection | null;
+  submitLabel: string;
+  onSubmit: (connection: SupabaseConnection) => void;
+  onCancel?: () => void;
+}> = ({ initial, submitLabel, onSubmit, onCancel }) => {
+  const [url, setUrl] = useState(initial?.url || '');
+  const [anonKey, setAnonKey] = useState(initial?.anonKey || '');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const connection = { url: url.trim().replace(/\/+$/, ''), anonKey: anonKey.trim() };
+    const validationError = validateConnection(connection);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onSubmit(connection);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div>
+        <label htmlFor="connection-url" className="block text-sm font-medium">Project URL</label>
+        <input id="connection-url" type="url" value={url} onChange={e => setUrl(e.target.value)} placeholder="https://your-project.supabase.co" required className={`mt-1 ${inputClasses}`} />
+      </div>
+      <div>
+        <label htmlFor="connection-key" className="block text-sm font-medium">Anon Key</label>
+        <input id="connection-key" type="text" value={anonKey} onChange={e => setAnonKey(e.target.value)} required autoComplete="off" spellCheck={false} className={`mt-1 font-mono text-xs ${inputClasses}`} />
+      </div>
+      {error && <p className="text-red-500 dark:text-red-400 text-sm">{error}</p>}
+      <div className="flex justify-end gap-3">
+        {onCancel && <button type="button" onClick={onCancel} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>}
+        <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500">{submitLabel}</button>
+      </div>
+    </form>
+  );
+};
+
+export default ConnectionForm;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import type { RoleDefinition, StaffMember } from '../types';
+import type { PinVerification } from '../lib/dataStore';
+import { roleName } from '../lib/permissions';
+import Modal from './Modal';
+import PinPad from './PinPad';
+
+const ElevateModal: React.FC<{
+  candidates: StaffMember[];
+  roles: RoleDefinition[];
+  minutes: number;
+  onElevate: (staffId: string, pin: string) => Promise<PinVerification | null>;
+  onClose: () => void;
+}> = ({ candidates, roles, minutes, onElevate, onClose }) => {
+  const [approver, setApprover] = useState<StaffMember | null>(null);
+
+  const handleSubmit = async (pin: string) => {
+    const result = await onElevate(approver!.id, pin);
+    if (result?.staff) onClose();
+    return result;
+  };
+
+  return (
+    <Modal isOpen={true} onClose={onClose}>
+      {approver ? (
+        <PinPad
+          title={approver.name}
+          lockedUntil={approver.locked_until}
+          onSubmit={handleSubmit}
+          onBack={() => setApprover(null)}
+          backLabel="Choose someone else"
+          submitLabel="Approve"
+        />
+      ) : (
+        <div>
+          <h2 className="text-2xl font-bold mb-1">Elevate Access</h2>
+          <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+            Someone with more access enters their PIN to lend it to this session for {minutes} minutes. Sales are still recorded under your name.
+          </p>
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {candidates.map(member => (
+              <li key={member.id}>
+                <button onClick={() => setApprover(member)} className="w-full flex justify-between items-center p-3 rounded-md bg-slate-100 dark:bg-slate-700/50 hover:bg-indigo-600 hover:text-white transition-colors">
+                  <span className="font-medium">{member.name}</span>
+                  <span className="text-xs uppercase opacity-70">{roleName(roles, member.role)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-4 flex justify-end">
+            <button onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default ElevateModal;
@@ -1,16 +1,75 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import type { View } from '../App';
-import { CashIcon, ChartBarIcon, ClipboardListIcon, ArchiveIcon, BellIcon, LogoutIcon, SunIcon, MoonIcon, MenuIcon, XIcon } from './icons/Icons';
+import type { SessionElevation } from '../types';
+import type { ConnectionStatus } from '../lib/syncEngine';
+import type { BackendProfile } from '../lib/backendConfig';
+import { formatRemaining } from './PinPad';
+import { CashIcon, ChartBarIcon, ClipboardListIcon, ArchiveIcon, ShieldCheckIcon, BellIcon, LogoutIcon, LockClosedIcon, KeyIcon, SunIcon, MoonIcon, MenuIcon, XIcon, KeyboardIcon } from './icons/Icons';
 
 interface HeaderProps {
   currentView: View;
   setCurrentView: (view: View) => void;
-  role: 'user' | 'admin';
+  // The views the logged-in role may open, from the permission matrix.
+  allowedViews: View[];
+  staffName: string;
   onLogout: () => void;
+  onLock: () => void;
+  // Set while another staff member's role is lent to this session.
+  elevation: SessionElevation | null;
+  // Only passed when someone on staff could grant more access than the current role has.
+  onElevate?: () => void;
+  onDropElevation: () => void;
   theme: 'light' | 'dark';
   toggleTheme: () => void;
+  connectionStatus: ConnectionStatus;
+  backendProfile: BackendProfile;
+  onShowShortcuts: () => void;
+  // The cheat-sheet shortcut, shown on the button.
+  shortcutsHint: string;
 }
 
+const connectionStyles: Record<ConnectionStatus, { label: string; title: string; dot: string }> = {
+  live: { label: 'Live', title: 'Receiving updates in real time', dot: 'bg-green-500' },
+  polling: { label: 'Polling', title: 'Real-time updates unavailable, checking for changes periodically', dot: 'bg-yellow-500' },
+  offline: { label: 'Offline', title: 'Cannot reach the server, showing the last known data', dot: 'bg-red-500' },
+};
+
+const ConnectionIndicator: React.FC<{ status: ConnectionStatus }> = ({ status }) => {
+  const { label, title, dot } = connectionStyles[status];
+  return (
+    <div className="flex items-center gap-2 px-2 py-1 rounded-full text-xs font-medium text-slate-600 dark:text-slate-300 bg-slate-100 dark:bg-slate-700" title={title}>
+      <span className={`h-2 w-2 rounded-full ${dot} ${status === 'live' ? 'animate-pulse' : ''}`}></span>
+      <span className="hidden sm:inline">{label}</span>
+    </div>
+  );
+};
+
+const ElevationBadge: React.FC<{ elevation: SessionElevation; onDrop: () => void }> = ({ elevation, onDrop }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-900 dark:bg-amber-900/50 dark:text-amber-200" title={`Approved by ${elevation.staffName}`}>
+      <KeyIcon />
+      <span>Elevated &middot; {formatRemaining(Math.max(0, new Date(elevation.until).getTime() - now))}</span>
+      <button onClick={onDrop} className="underline hover:no-underline">Drop</button>
+    </div>
+  );
+};
+
+export const navViews: { view: View; label: string; icon: React.ReactNode }[] = [
+  { view: 'pos', label: 'POS', icon: <CashIcon /> },
+  { view: 'orders', label: 'Orders', icon: <BellIcon /> },
+  { view: 'dashboard', label: 'Dashboard', icon: <ChartBarIcon /> },
+  { view: 'history', label: 'History', icon: <ClipboardListIcon /> },
+  { view: 'inventory', label: 'Inventory', icon: <ArchiveIcon /> },
+  { view: 'audit', label: 'Audit', icon: <ShieldCheckIcon /> },
+];
+
 const NavButton: React.FC<{
   label: string;
   icon: React.ReactNode;
@@ -34,8 +93,7 @@ const NavButton: React.FC<{
   );
 };
 
-const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLogout, theme, toggleTheme }) => {
-  const isAdmin = role === 'admin';
+const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, allowedViews, staffName, onLogout, onLock, elevation, onElevate, onDropElevation, theme, toggleTheme, connectionStatus, backendProfile, onShowShortcuts, shortcutsHint }) => {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   const handleNavClick = (view: View) => {
@@ -45,15 +103,9 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLo
 
   const navItems = (isMobile: boolean) => (
     <>
-      <NavButton label="POS" icon={<CashIcon />} isActive={currentView === 'pos'} onClick={() => handleNavClick('pos')} isMobile={isMobile} />
-      <NavButton label="Orders" icon={<BellIcon />} isActive={currentView === 'orders'} onClick={() => handleNavClick('orders')} isMobile={isMobile} />
-      {isAdmin && (
-        <>
-          <NavButton label="Dashboard" icon={<ChartBarIcon />} isActive={currentView === 'dashboard'} onClick={() => handleNavClick('dashboard')} isMobile={isMobile} />
-          <NavButton label="History" icon={<ClipboardListIcon />} isActive={currentView === 'history'} onClick={() => handleNavClick('history')} isMobile={isMobile} />
-          <NavButton label="Inventory" icon={<ArchiveIcon />} isActive={currentView === 'inventory'} onClick={() => handleNavClick('inventory')} isMobile={isMobile} />
-        </>
-      )}
+      {navViews.filter(({ view }) => allowedViews.includes(view)).map(({ view, label, icon }) => (
+        <NavButton key={view} label={label} icon={icon} isActive={currentView === view} onClick={() => handleNavClick(view)} isMobile={isMobile} />
+      ))}
     </>
   );
 
@@ -63,6 +115,9 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLo
         <div className="flex items-center justify-between h-16">
           <div className="flex items-center">
             <h1 className="text-xl font-bold">PYJ POS</h1>
+            {backendProfile === 'training' && (
+              <span className="ml-3 px-2 py-0.5 text-xs font-bold uppercase rounded-full bg-amber-400 text-amber-900" title="Sales made here do not count">Training</span>
+            )}
           </div>
           
           {/* Desktop Nav */}
@@ -71,6 +126,32 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLo
           </div>
           
           <div className="flex items-center gap-2">
+            <ConnectionIndicator status={connectionStatus} />
+
+            {elevation ? (
+              <ElevationBadge elevation={elevation} onDrop={onDropElevation} />
+            ) : onElevate && (
+              <button
+                onClick={onElevate}
+                className="hidden md:flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+                title="Borrow a manager's access for a few minutes"
+              >
+                <KeyIcon />
+                <span className="hidden lg:inline">Elevate</span>
+              </button>
+            )}
+
+            <span className="hidden lg:inline text-sm font-medium text-slate-600 dark:text-slate-300 max-w-[10rem] truncate" title={`Logged in as ${staffName}`}>{staffName}</span>
+
+            <button
+              onClick={onShowShortcuts}
+              className="hidden md:block p-2 rounded-full text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+              aria-label="Keyboard shortcuts"
+              title={`Keyboard shortcuts (${shortcutsHint})`}
+            >
+              <KeyboardIcon />
+            </button>
+
             <button
               onClick={toggleTheme}
               className="p-2 rounded-full text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
@@ -79,6 +160,15 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLo
               {theme === 'dark' ? <SunIcon /> : <MoonIcon />}
             </button>
 
+            <button
+              onClick={onLock}
+              className="p-2 rounded-full text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700"
+              aria-label="Lock"
+              title="Lock this till"
+            >
+              <LockClosedIcon />
+            </button>
+
             <button
               onClick={onLogout}
               className="hidden md:flex items-center gap-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 text-slate-600 dark:text-slate-300 hover:bg-red-500 hover:text-white"
@@ -102,7 +192,17 @@ const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView, role, onLo
       {isMobileMenuOpen && (
         <div className="md:hidden bg-white dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700">
           <div className="px-2 pt-2 pb-3 space-y-1 sm:px-3">
+            <p className="px-3 py-1 text-sm text-slate-500 dark:text-slate-400">Logged in as {staffName}</p>
             {navItems(true)}
+            {!elevation && onElevate && (
+              <button
+                onClick={() => { setIsMobileMenuOpen(false); onElevate(); }}
+                className="flex items-center gap-3 px-3 py-2 rounded-md text-base font-medium transition-colors duration-200 text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700 w-full"
+              >
+                <KeyIcon />
+                <span>Elevate access</span>
+              </button>
+            )}
             <button
               onClick={onLogout}
               className="flex items-center gap-3 px-3 py-2 rounded-md text-base font-medium transition-colors duration-200 text-red-500 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-900/50 w-full"
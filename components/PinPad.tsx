@@ -0,0 +1,133 @@
+import React, { useState, useEffect } from 'react';
+import type { PinVerification } from '../lib/dataStore';
+
+const MIN_PIN_LENGTH = 4;
+const MAX_PIN_LENGTH = 6;
+
+/** "4:05" for a countdown. */
+export const formatRemaining = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export const isLocked = (lockedUntil?: string | null) => !!lockedUntil && new Date(lockedUntil).getTime() > Date.now();
+
+/**
+ * Number pad for entering a staff PIN. `onSubmit` resolves to the backend's verdict, so the pad can
+ * show how many attempts are left or count down a lockout; null means the check itself failed.
+ */
+const PinPad: React.FC<{
+  title: string;
+  lockedUntil?: string | null;
+  onSubmit: (pin: string) => Promise<PinVerification | null>;
+  onBack: () => void;
+  backLabel: string;
+  submitLabel?: string;
+}> = ({ title, lockedUntil: initialLockedUntil, onSubmit, onBack, backLabel, submitLabel = 'Login' }) => {
+  const [pin, setPin] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [lockedUntil, setLockedUntil] = useState<string | null>(isLocked(initialLockedUntil) ? initialLockedUntil! : null);
+  const [now, setNow] = useState(Date.now());
+
+  // Ticks the countdown while locked, and clears the lock once it has run out.
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      if (!isLocked(lockedUntil)) {
+        setLockedUntil(null);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isDisabled = isLoading || !!lockedUntil;
+
+  const pressDigit = (digit: string) => {
+    if (isDisabled) return;
+    setError('');
+    setPin(prev => (prev.length < MAX_PIN_LENGTH ? prev + digit : prev));
+  };
+
+  const handleSubmit = async () => {
+    if (pin.length < MIN_PIN_LENGTH || isDisabled) return;
+    setIsLoading(true);
+    const result = await onSubmit(pin);
+    if (result?.staff) return;
+
+    setPin('');
+    setIsLoading(false);
+    if (!result) return;
+    if (result.lockedUntil) {
+      setLockedUntil(result.lockedUntil);
+      setNow(Date.now());
+      setError('');
+    } else {
+      setError(result.attemptsLeft
+        ? `Incorrect PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left before the account locks.`
+        : 'Incorrect PIN. Please try again.');
+    }
+  };
+
+  // Lets a keyboard or numeric keypad drive the pad as well.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (/^[0-9]$/.test(e.key)) pressDigit(e.key);
+      else if (e.key === 'Backspace') setPin(prev => prev.slice(0, -1));
+      else if (e.key === 'Enter') handleSubmit();
+      else if (e.key === 'Escape') onBack();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const keyClasses = "h-14 rounded-lg text-xl font-semibold bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 transition-colors duration-200 disabled:opacity-50";
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold text-center mb-1">{title}</h2>
+      <p className="text-center text-sm text-slate-500 dark:text-slate-400 mb-4">Enter your PIN</p>
+
+      <div className="flex justify-center gap-3 mb-4" aria-label={`${pin.length} digits entered`}>
+        {Array.from({ length: Math.max(MIN_PIN_LENGTH, pin.length) }, (_, i) => (
+          <span key={i} className={`h-3 w-3 rounded-full ${i < pin.length ? 'bg-indigo-600' : 'bg-slate-300 dark:bg-slate-600'}`}></span>
+        ))}
+      </div>
+      {error && <p className="text-red-500 dark:text-red-400 text-sm text-center mb-3">{error}</p>}
+      {lockedUntil && (
+        <p className="text-red-500 dark:text-red-400 text-sm text-center mb-3" role="alert">
+          Too many wrong PINs. Try again in {formatRemaining(new Date(lockedUntil).getTime() - now)}, or ask an admin to set a new PIN.
+        </p>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+          <button key={digit} type="button" onClick={() => pressDigit(digit)} disabled={isDisabled} className={keyClasses}>{digit}</button>
+        ))}
+        <button type="button" onClick={() => { setPin(''); setError(''); }} disabled={isDisabled} className={`${keyClasses} text-sm`}>Clear</button>
+        <button type="button" onClick={() => pressDigit('0')} disabled={isDisabled} className={keyClasses}>0</button>
+        <button type="button" onClick={() => setPin(prev => prev.slice(0, -1))} disabled={isDisabled} className={keyClasses} aria-label="Delete last digit">&larr;</button>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSubmit}
+        disabled={isDisabled || pin.length < MIN_PIN_LENGTH}
+        className="w-full mt-4 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg shadow-lg hover:bg-indigo-500 transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-not-allowed"
+      >
+        {isLoading ? 'Verifying...' : submitLabel}
+      </button>
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-full text-center text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 text-sm mt-4"
+      >
+        &larr; {backLabel}
+      </button>
+    </div>
+  );
+};
+
+export default PinPad;
@@ -0,0 +1,40 @@
+import React, { useMemo } from 'react';
+import qrcode from 'qrcode-generator';
+
+// Blank modules kept around the code so scanners can find its edges.
+const QUIET_ZONE = 4;
+
+/**
+ * Draws `value` as a QR code in the browser, so nothing about the payment leaves the till and it
+ * works offline. Renders `fallback` instead when `value` does not fit in a QR code.
+ */
+const QrCode: React.FC<{ value: string; size?: number; fallback?: React.ReactNode }> = ({ value, size = 224, fallback = null }) => {
+  const path = useMemo(() => {
+    try {
+      const qr = qrcode(0, 'M');
+      qr.addData(value);
+      qr.make();
+      const count = qr.getModuleCount();
+      let d = '';
+      for (let row = 0; row < count; row++) {
+        for (let col = 0; col < count; col++) {
+          if (qr.isDark(row, col)) d += `M${col + QUIET_ZONE},${row + QUIET_ZONE}h1v1h-1z`;
+        }
+      }
+      return { d, extent: count + QUIET_ZONE * 2 };
+    } catch (e) {
+      console.error('Could not draw QR code', e);
+      return null;
+    }
+  }, [value]);
+
+  if (!path) return <>{fallback}</>;
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${path.extent} ${path.extent}`} shapeRendering="crispEdges" role="img" aria-label="QR code" className="bg-white rounded-lg">
+      <path d={path.d} fill="#000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PaymentMethod } from '../types';
+import type { Sale } from '../types';
+import Modal from './Modal';
+import { dataStore } from '../lib/backend';
+import { fetchAllSales, mergeLiveSales } from '../lib/salesHistory';
+import { formatOrderNumber } from '../lib/orderNumber';
+import { formatItemName } from '../lib/modifiers';
+import { TENDER_METHODS } from '../lib/payments';
+import type { TenderMethod } from '../lib/payments';
+import { buildRefund, remainingQuantities } from '../lib/refunds';
+import type { RefundRequest } from '../lib/refunds';
+import type { MutationResult } from '../hooks/useMutation';
+
+/**
+ * Voids a sale or refunds some of its lines. Earlier refunds are loaded first, so nothing can be
+ * refunded twice; everything still left starts selected, which makes a void one tap plus a reason.
+ */
+const RefundModal: React.FC<{
+  sale: Sale;
+  // Sales held in memory, which may include refunds that have not synced yet.
+  liveSales: Sale[];
+  onRefund: (sale: Sale, refund: RefundRequest) => Promise<MutationResult<Sale>>;
+  onClose: () => void;
+}> = ({ sale, liveSales, onRefund, onClose }) => {
+  const [fetchedRefunds, setFetchedRefunds] = useState<Sale[] | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [quantities, setQuantities] = useState<number[]>([]);
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<TenderMethod>(sale.paymentMethod === PaymentMethod.UPI ? PaymentMethod.UPI : PaymentMethod.CASH);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let isCurrent = true;
+    fetchAllSales(dataStore, { refundOf: sale.id }).then(({ data, error }) => {
+      if (!isCurrent) return;
+      if (error || !data) {
+        console.error('Error loading earlier refunds:', error);
+        setLoadError(error?.message || 'Unknown Error');
+        return;
+      }
+      setFetchedRefunds(data);
+    });
+    return () => { isCurrent = false; };
+  }, [sale.id]);
+
+  // Merged on every change, so a refund made at another till while this is open still counts.
+  const refunds = useMemo(
+    () => (fetchedRefunds ? mergeLiveSales(fetchedRefunds, liveSales, { refundOf: sale.id }) : null),
+    [fetchedRefunds, liveSales, sale.id],
+  );
+  const remaining = useMemo(() => (refunds ? remainingQuantities(sale, refunds) : []), [sale, refunds]);
+
+  // Everything left starts selected; later, a selection is only ever cut back to what is still left.
+  useEffect(() => {
+    setQuantities(prev => remaining.map((left, i) => (prev.length === remaining.length ? Math.min(prev[i], left) : left)));
+  }, [remaining]);
+  const draft = useMemo(() => (refunds ? buildRefund(sale, refunds, quantities) : null), [sale, refunds, quantities]);
+  const isVoid = !!refunds && refunds.length === 0 && sale.items.every((item, i) => quantities[i] === item.quantity);
+  const nothingLeft = remaining.length > 0 && remaining.every(q => q === 0);
+
+  const setQuantity = (index: number, quantity: number) =>
+    setQuantities(prev => prev.map((q, i) => (i === index ? Math.max(0, Math.min(quantity, remaining[i])) : q)));
+
+  const handleConfirm = async () => {
+    if (!draft || draft.items.length === 0) return;
+    if (!reason.trim()) {
+      setError('Enter a reason for the refund.');
+      return;
+    }
+    setIsSaving(true);
+    const result = await onRefund(sale, { ...draft, reason: reason.trim(), method });
+    setIsSaving(false);
+    if (result.ok) onClose();
+    else setError(result.error.message);
+  };
+
+  return (
+    <Modal isOpen={true} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-1">Refund Order #{formatOrderNumber(sale)}</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        {new Date(sale.timestamp).toLocaleString()} &middot; ₹{sale.total.toFixed(2)} by {sale.paymentMethod}
+      </p>
+
+      {loadError ? (
+        <p className="text-red-500 dark:text-red-400">Failed to load earlier refunds: {loadError}</p>
+      ) : !refunds ? (
+        <p className="text-slate-500 dark:text-slate-400">Loading...</p>
+      ) : nothingLeft ? (
+        <p className="text-slate-500 dark:text-slate-400">Everything on this order has already been refunded.</p>
+      ) : (
+        <>
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-slate-500 dark:text-slate-300">Items to refund</span>
+            <span className="flex gap-3 text-sm">
+              <button onClick={() => setQuantities(remaining)} className="text-indigo-500 dark:text-indigo-400 hover:underline">All</button>
+              <button onClick={() => setQuantities(remaining.map(() => 0))} className="text-indigo-500 dark:text-indigo-400 hover:underline">None</button>
+            </span>
+          </div>
+          <ul className="divide-y divide-slate-200 dark:divide-slate-700 max-h-60 overflow-y-auto">
+            {sale.items.map((item, i) => (
+              <li key={`${item.id}-${i}`} className="flex justify-between items-center gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="truncate">{formatItemName(item)}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {item.quantity} sold{remaining[i] < item.quantity ? `, ${item.quantity - remaining[i]} already refunded` : ''}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={() => setQuantity(i, quantities[i] - 1)} disabled={quantities[i] <= 0} className="w-8 h-8 rounded-full bg-slate-200 dark:bg-slate-700 font-bold disabled:opacity-40" aria-label={`Refund one fewer ${item.name}`}>-</button>
+                  <span className="w-12 text-center font-semibold">{quantities[i]}/{remaining[i]}</span>
+                  <button onClick={() => setQuantity(i, quantities[i] + 1)} disabled={quantities[i] >= remaining[i]} className="w-8 h-8 rounded-full bg-slate-200 dark:bg-slate-700 font-bold disabled:opacity-40" aria-label={`Refund one more ${item.name}`}>+</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <label htmlFor="refund-reason" className="block mt-4 text-sm font-medium text-slate-500 dark:text-slate-300">Reason</label>
+          <input
+            id="refund-reason"
+            type="text"
+            value={reason}
+            onChange={(e) => { setReason(e.target.value); setError(''); }}
+            placeholder="e.g. Customer changed their mind"
+            className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+            autoFocus
+          />
+
+          <p className="mt-4 text-sm font-medium text-slate-500 dark:text-slate-300">Refund by</p>
+          <div className="mt-1 flex gap-2">
+            {TENDER_METHODS.map(m => (
+              <button key={m} onClick={() => setMethod(m)} className={`flex-1 py-2 rounded-lg font-semibold ${method === m ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'}`}>
+                {m}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-6 flex justify-end gap-3">
+        <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+        {draft && !nothingLeft && (
+          <button onClick={handleConfirm} disabled={isSaving || draft.items.length === 0} className="bg-red-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-red-500 disabled:bg-slate-500">
+            {isSaving ? 'Saving...' : `${isVoid ? 'Void Sale' : 'Refund'} ₹${(-draft.total).toFixed(2)}`}
+          </button>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default RefundModal;
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './Modal';
+import { DEFAULT_HOTKEYS, eventToCombo, formatCombo, hotkeyLabels } from '../lib/hotkeys';
+import type { HotkeyAction, HotkeyConfig } from '../lib/hotkeys';
+
+/** The cheat-sheet, where each shortcut can also be changed by pressing the new combination. */
+const ShortcutsModal: React.FC<{
+  isOpen: boolean;
+  hotkeys: HotkeyConfig;
+  onChange: (hotkeys: HotkeyConfig) => void;
+  onClose: () => void;
+}> = ({ isOpen, hotkeys, onChange, onClose }) => {
+  const [recording, setRecording] = useState<HotkeyAction | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) setRecording(null);
+    setError('');
+  }, [isOpen]);
+
+  // Listens ahead of every other shortcut, so the combination being recorded does not also run.
+  useEffect(() => {
+    if (!recording) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = eventToCombo(e);
+      if (!combo) return;
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (combo === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const owner = (Object.keys(hotkeys) as HotkeyAction[]).find(a => a !== recording && hotkeys[a] === combo);
+      if (owner) {
+        setError(`${formatCombo(combo)} is already used to ${hotkeyLabels[owner].toLowerCase()}.`);
+        return;
+      }
+      setError('');
+      setRecording(null);
+      onChange({ ...hotkeys, [recording]: combo });
+    };
+    window.addEventListener('keydown', handleKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [recording, hotkeys, onChange]);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-1">Keyboard Shortcuts</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Click a shortcut to change it on this device, then press the new keys.</p>
+      <ul className="divide-y divide-slate-200 dark:divide-slate-700">
+        {(Object.keys(hotkeyLabels) as HotkeyAction[]).map(action => (
+          <li key={action} className="flex justify-between items-center gap-4 py-2">
+            <span className="text-sm">{hotkeyLabels[action]}</span>
+            <button
+              onClick={() => { setError(''); setRecording(recording === action ? null : action); }}
+              className={`flex-shrink-0 px-2 py-1 rounded-md font-mono text-sm border ${recording === action
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-300 animate-pulse'
+                : 'border-slate-300 dark:border-slate-600 bg-slate-100 dark:bg-slate-700 hover:border-indigo-500'}`}
+            >
+              {recording === action ? 'Press keys...' : formatCombo(hotkeys[action])}
+            </button>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="mt-3 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-6 flex justify-between gap-3">
+        <button onClick={() => { setRecording(null); onChange(DEFAULT_HOTKEYS); }} className="text-sm text-slate-500 dark:text-slate-400 hover:underline">Reset to defaults</button>
+        <button onClick={onClose} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500">Done</button>
+      </div>
+    </Modal>
+  );
+};
+
+export default ShortcutsModal;
@@ -1,16 +1,22 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react';
 import ReactDOM from 'react-dom';
 
 type ToastType = 'success' | 'error' | 'warning';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface Toast {
   id: number;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  addToast: (message: string, type: ToastType) => void;
+  addToast: (message: string, type: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -25,15 +31,19 @@ export const useToasts = () => {
 
 export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextIdRef = useRef(0);
 
-  const addToast = useCallback((message: string, type: ToastType) => {
-    const id = Date.now();
-    setToasts(prevToasts => [...prevToasts, { id, message, type }]);
-    setTimeout(() => {
-      setToasts(prevToasts => prevToasts.filter(toast => toast.id !== id));
-    }, 4000); // Remove toast after 4 seconds
+  const removeToast = useCallback((id: number) => {
+    setToasts(prevToasts => prevToasts.filter(toast => toast.id !== id));
   }, []);
 
+  const addToast = useCallback((message: string, type: ToastType, action?: ToastAction) => {
+    const id = nextIdRef.current++;
+    setToasts(prevToasts => [...prevToasts, { id, message, type, action }]);
+    // Toasts with an action stay longer, so there is time to use it.
+    setTimeout(() => removeToast(id), action ? 8000 : 4000);
+  }, [removeToast]);
+
   return (
     <ToastContext.Provider value={{ addToast }}>
       {children}
@@ -42,6 +52,11 @@ export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) =
           {toasts.map(toast => (
             <div key={toast.id} className={`toast ${toast.type}`}>
               {toast.message}
+              {toast.action && (
+                <button className="toast-action" onClick={() => { removeToast(toast.id); toast.action!.onClick(); }}>
+                  {toast.action.label}
+                </button>
+              )}
             </div>
           ))}
         </div>,
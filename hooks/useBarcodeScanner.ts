@@ -0,0 +1,44 @@
+import { useEffect, useRef } from 'react';
+import { isEditableTarget } from '../lib/hotkeys';
+
+// A keyboard-wedge scanner types a whole code in a few milliseconds per key, then presses Enter;
+// nobody types that fast, so a slower key starts the code over.
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 3;
+
+/**
+ * Calls `onScan` with each code read by a USB or Bluetooth scanner that acts as a keyboard. Keys
+ * aimed at a text field are left alone; a field that should accept scans handles its own Enter.
+ */
+const useBarcodeScanner = (onScan: (code: string) => void, enabled: boolean) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.ctrlKey || e.metaKey || e.altKey) return;
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (e.key.length === 1) {
+        buffer += e.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
+
+export default useBarcodeScanner;
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { eventToCombo, isEditableTarget, isTypingCombo } from '../lib/hotkeys';
+import type { HotkeyAction, HotkeyConfig } from '../lib/hotkeys';
+
+/**
+ * Runs the handler bound to each pressed combination. Only actions with a handler are claimed, so
+ * a screen passes the ones that make sense in its current state and leaves the rest to the browser.
+ * In a text field, combinations that would type something are left to the field.
+ */
+const useHotkeys = (config: HotkeyConfig, handlers: Partial<Record<HotkeyAction, () => void>>, enabled = true) => {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const combo = eventToCombo(e);
+      if (!combo || (isEditableTarget(e.target) && isTypingCombo(combo))) return;
+      const action = (Object.keys(config) as HotkeyAction[]).find(a => config[a] === combo && handlersRef.current[a]);
+      if (!action) return;
+      e.preventDefault();
+      handlersRef.current[action]!();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [config, enabled]);
+};
+
+export default useHotkeys;
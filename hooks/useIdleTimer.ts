@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+const CHECK_INTERVAL_MS = 5000;
+
+/**
+ * Calls `onIdle` once nobody has touched the page for `timeoutMs`. A timeout of 0 disables it.
+ * Activity is checked on an interval rather than with a resettable timer, so a tablet that slept
+ * past the timeout locks as soon as it wakes up.
+ */
+const useIdleTimer = (timeoutMs: number, onIdle: () => void, enabled: boolean) => {
+  const lastActivityRef = useRef(Date.now());
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    lastActivityRef.current = Date.now();
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= timeoutMs) onIdleRef.current();
+    }, CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(interval);
+    };
+  }, [timeoutMs, enabled]);
+};
+
+export default useIdleTimer;
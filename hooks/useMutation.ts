@@ -0,0 +1,56 @@
+import { useCallback } from 'react';
+import type { DataStoreError, DataStoreResult } from '../lib/dataStore';
+import { useToasts } from '../components/ToastProvider';
+
+export type MutationResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: DataStoreError };
+
+export interface MutationOptions<T> {
+  run: () => Promise<DataStoreResult<T>>;
+  // Applies the expected outcome to local state right away and returns a function that undoes it.
+  optimistic?: () => () => void;
+  // Prefix of the error toast, e.g. "Failed to save product"; the backend's message is appended.
+  errorMessage: string;
+  successMessage?: string;
+  // Called once the change has been accepted, with the data the backend returned.
+  onSuccess?: (data: T) => void;
+}
+
+/**
+ * Runs backend writes the same way everywhere: optimistic state is applied first and rolled back
+ * if the write fails, failures are logged and toasted with a Retry action, and the caller gets a
+ * result it can use to keep a form open.
+ */
+const useMutation = () => {
+  const { addToast } = useToasts();
+
+  const mutate = useCallback(async <T,>(options: MutationOptions<T>): Promise<MutationResult<T>> => {
+    const rollback = options.optimistic?.();
+    let result: DataStoreResult<T>;
+    try {
+      result = await options.run();
+    } catch (e) {
+      result = { data: null, error: { message: e instanceof Error ? e.message : String(e) } };
+    }
+
+    if (result.error) {
+      rollback?.();
+      console.error(`${options.errorMessage}:`, result.error);
+      addToast(`${options.errorMessage}: ${result.error.message}`, 'error', {
+        label: 'Retry',
+        onClick: () => { mutate(options); },
+      });
+      return { ok: false, error: result.error };
+    }
+
+    const data = result.data as T;
+    options.onSuccess?.(data);
+    if (options.successMessage) addToast(options.successMessage, 'success');
+    return { ok: true, data };
+  }, [addToast]);
+
+  return mutate;
+};
+
+export default useMutation;
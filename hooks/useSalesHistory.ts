@@ -0,0 +1,63 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Sale } from '../types';
+import type { SalesCursor } from '../lib/dataStore';
+import { dataStore } from '../lib/backend';
+import { fetchSalesPage, mergeLiveSales } from '../lib/salesHistory';
+import type { SalesFilter } from '../lib/salesHistory';
+
+/**
+ * Pages through the sales matching `filter`, newest first. `liveSales` (today's and pending orders
+ * from AppContent) are overlaid on the fetched pages, so they stay current without a refetch.
+ */
+const useSalesHistory = (filter: SalesFilter, liveSales: Sale[]) => {
+  const [fetched, setFetched] = useState<Sale[]>([]);
+  const [cursor, setCursor] = useState<SalesCursor | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Responses for a filter that has since changed are dropped.
+  const requestIdRef = useRef(0);
+
+  const filterKey = JSON.stringify(filter);
+  const stableFilter = useMemo<SalesFilter>(() => JSON.parse(filterKey), [filterKey]);
+
+  const loadPage = useCallback(async (before: SalesCursor | null) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    const { data, error } = await fetchSalesPage(dataStore, stableFilter, before);
+    if (requestId !== requestIdRef.current) return;
+
+    setIsLoading(false);
+    if (error || !data) {
+      console.error('Error fetching sales history:', error);
+      setError(error?.message || 'Unknown Error');
+      return;
+    }
+    setError(null);
+    setFetched(prev => (before ? [...prev, ...data.sales] : data.sales));
+    setCursor(data.nextCursor);
+    setHasMore(!!data.nextCursor);
+  }, [stableFilter]);
+
+  const reload = useCallback(() => loadPage(null), [loadPage]);
+
+  useEffect(() => {
+    setFetched([]);
+    loadPage(null);
+  }, [loadPage]);
+
+  const loadMore = useCallback(() => {
+    if (cursor && !isLoading) loadPage(cursor);
+  }, [cursor, isLoading, loadPage]);
+
+  // For edits to sales outside the live window, which would otherwise only show after a reload.
+  const patchSale = useCallback((saleId: string, patch: Partial<Sale>) => {
+    setFetched(prev => prev.map(s => (s.id === saleId ? { ...s, ...patch } : s)));
+  }, []);
+
+  const sales = useMemo(() => mergeLiveSales(fetched, liveSales, stableFilter), [fetched, liveSales, stableFilter]);
+
+  return { sales, hasMore, isLoading, error, loadMore, reload, patchSale };
+};
+
+export default useSalesHistory;
@@ -54,6 +54,14 @@ style.textContent = `
   .toast.success { background-color: #22c55e; } /* green-500 */
   .toast.error { background-color: #ef4444; } /* red-500 */
   .toast.warning { background-color: #f59e0b; } /* amber-500 */
+  .toast-action {
+    margin-left: 1rem;
+    padding: 0.25rem 0.75rem;
+    border-radius: 0.375rem;
+    background-color: rgb(255 255 255 / 0.2);
+    font-weight: 700;
+  }
+  .toast-action:hover { background-color: rgb(255 255 255 / 0.35); }
 `;
 document.head.appendChild(style);
 
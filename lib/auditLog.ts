@@ -0,0 +1,40 @@
+import type { AuditAction, AuditEntry } from '../types';
+
+export const AUDIT_PAGE_SIZE = 50;
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  'product.update': 'Product edited',
+  'product.delete': 'Product deleted',
+  'category.delete': 'Category deleted',
+  'stock.adjust': 'Stock adjusted',
+  'sale.notes': 'Order notes edited',
+  'history.reset': 'Sales history reset',
+  'staff.save': 'Staff account saved',
+  'roles.save': 'Roles changed',
+  'logout.global': 'Logged out all devices',
+  'device.rename': 'Device renamed',
+  'device.logout': 'Device logged out',
+  'device.lock': 'Device locked',
+  'promo.save': 'Promo code saved',
+  'sale.refund': 'Sale refunded',
+  'sale.discard': 'Unsynced sale discarded',
+};
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** Fields whose value differs between `before` and `after`; a missing side counts as undefined. */
+export const getAuditChanges = ({ before, after }: Pick<AuditEntry, 'before' | 'after'>): AuditChange[] => {
+  const fields = [...new Set([...Object.keys(before || {}), ...Object.keys(after || {})])];
+  return fields
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
@@ -0,0 +1,21 @@
+import type { DataStore } from './dataStore';
+import { resolveBackend } from './backendConfig';
+import { createSupabaseClient } from './supabaseClient';
+import { createSupabaseDataStore } from './supabaseDataStore';
+import { createLocalDataStore } from './localDataStore';
+
+/** The profile and connection chosen for this page load. Changing either requires a reload. */
+export const activeBackend = resolveBackend();
+
+// A remote profile without a connection has to be set up before anyone can log in.
+export const needsBackendSetup = activeBackend.profile !== 'local' && !activeBackend.connection;
+
+const createDataStore = (): DataStore => {
+  // Until setup is done the local store stands in, so the app can render the setup screen.
+  if (!activeBackend.connection) {
+    return createLocalDataStore();
+  }
+  return createSupabaseDataStore(createSupabaseClient(activeBackend.connection));
+};
+
+export const dataStore: DataStore = createDataStore();
@@ -0,0 +1,97 @@
+export type BackendProfile = 'production' | 'training' | 'local';
+
+// Profiles backed by a Supabase project; 'local' keeps everything in this browser.
+export type RemoteBackendProfile = Exclude<BackendProfile, 'local'>;
+
+export interface SupabaseConnection {
+  url: string;
+  anonKey: string;
+}
+
+interface StoredBackendSettings {
+  profile?: BackendProfile;
+  // Entered on the device; takes precedence over the connection baked into the build.
+  connections?: Partial<Record<RemoteBackendProfile, SupabaseConnection>>;
+}
+
+export interface ResolvedBackend {
+  profile: BackendProfile;
+  // Null for the local profile, and for a remote profile that has not been set up yet.
+  connection: SupabaseConnection | null;
+}
+
+export const BACKEND_PROFILES: BackendProfile[] = ['production', 'training', 'local'];
+
+export const backendProfileLabels: Record<BackendProfile, string> = {
+  production: 'Production',
+  training: 'Training',
+  local: 'This device only',
+};
+
+const BACKEND_SETTINGS_KEY = 'pyj-pos-backend';
+
+const isBackendProfile = (value: unknown): value is BackendProfile => BACKEND_PROFILES.includes(value as BackendProfile);
+
+const toConnection = (url?: string, anonKey?: string): SupabaseConnection | null =>
+  url && anonKey ? { url, anonKey } : null;
+
+const buildConnections: Record<RemoteBackendProfile, SupabaseConnection | null> = {
+  production: toConnection(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_ANON_KEY),
+  training: toConnection(import.meta.env.VITE_TRAINING_SUPABASE_URL, import.meta.env.VITE_TRAINING_SUPABASE_ANON_KEY),
+};
+
+const readSettings = (): StoredBackendSettings => {
+  try {
+    const stored = localStorage.getItem(BACKEND_SETTINGS_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to read backend settings', e);
+  }
+  return {};
+};
+
+const writeSettings = (settings: StoredBackendSettings) => {
+  localStorage.setItem(BACKEND_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getBuildConnection = (profile: RemoteBackendProfile): SupabaseConnection | null => buildConnections[profile];
+
+/** The connection entered on this device, if any, without falling back to the build's. */
+export const getDeviceConnection = (profile: RemoteBackendProfile): SupabaseConnection | null =>
+  readSettings().connections?.[profile] ?? null;
+
+export const getConnection = (profile: BackendProfile): SupabaseConnection | null =>
+  profile === 'local' ? null : getDeviceConnection(profile) ?? getBuildConnection(profile);
+
+export const resolveBackend = (): ResolvedBackend => {
+  const stored = readSettings().profile;
+  const envProfile = import.meta.env.VITE_BACKEND_PROFILE;
+  const profile = isBackendProfile(stored) ? stored : isBackendProfile(envProfile) ? envProfile : 'production';
+  return { profile, connection: getConnection(profile) };
+};
+
+// Both setters take effect on the next page load, so callers should reload afterwards.
+export const setBackendProfile = (profile: BackendProfile) => {
+  writeSettings({ ...readSettings(), profile });
+};
+
+/** Saves a device connection for `profile`; `null` removes it, falling back to the build's. */
+export const setDeviceConnection = (profile: RemoteBackendProfile, connection: SupabaseConnection | null) => {
+  const settings = readSettings();
+  const connections = { ...settings.connections };
+  if (connection) connections[profile] = connection;
+  else delete connections[profile];
+  writeSettings({ ...settings, connections });
+};
+
+/** Returns an error message, or null when the connection looks usable. */
+export const validateConnection = ({ url, anonKey }: SupabaseConnection): string | null => {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return 'The URL must start with https://';
+  } catch {
+    return 'Enter a valid project URL, e.g. https://your-project.supabase.co';
+  }
+  if (!anonKey.trim()) return 'Enter the anon (public) key of the project.';
+  return null;
+};
@@ -0,0 +1,278 @@
+import type { Product, Category, Sale, SaleTax, Payment, PaymentMethod, SelectedModifier, StaffMember, StockMovement, StockMovementReason, AuditAction, AuditEntry, Device, DeviceCommand, HeldCart, PromoCode } from '../types';
+
+// Rows as they are stored in the `sales` and `sale_items` tables.
+export interface SaleRecord {
+  id: string;
+  timestamp: string;
+  total: number;
+  paymentMethod: PaymentMethod;
+  payments?: Payment[] | null;
+  cash_tendered?: number | null;
+  change_given?: number | null;
+  upi_ref?: string | null;
+  refund_of?: string | null;
+  refund_reason?: string | null;
+  discount?: number | null;
+  promo_code?: string | null;
+  subtotal?: number | null;
+  taxes?: SaleTax[] | null;
+  order_number: number;
+  order_prefix?: string | null;
+  order_scope?: string | null;
+  status: Sale['status'];
+  admin_notes?: string | null;
+  user_notes?: string | null;
+  // Client-generated idempotency key; unique, so a replayed sale can never be inserted twice.
+  client_id?: string | null;
+  created_by?: string | null;
+  completed_by?: string | null;
+  notes_edited_by?: string | null;
+  updated_at?: string;
+}
+
+export interface SaleItemRecord {
+  id: string;
+  sale_id: string;
+  product_id: string;
+  name: string;
+  price: number;
+  quantity: number;
+  modifiers?: SelectedModifier[] | null;
+  discount?: number | null;
+  updated_at?: string;
+}
+
+// Tables kept in sync incrementally, keyed to the row type each one returns.
+export interface SyncRows {
+  products: Product;
+  categories: Category;
+  sales: SaleRecord;
+  sale_items: SaleItemRecord;
+  held_carts: HeldCart;
+}
+
+export type SyncTable = keyof SyncRows;
+
+export interface ChangeSet<T> {
+  rows: T[];
+  deletedIds: string[];
+  // Highest `updated_at`/`deleted_at` seen, in the backend's clock; null when nothing changed.
+  cursor: string | null;
+}
+
+export interface ChangeOptions {
+  // A full load of `sales` and `sale_items` only covers sales recorded at or after this instant,
+  // plus every pending one. Older sales are paged in through `listSales` when needed.
+  salesSince?: string;
+}
+
+export interface SalesCursor {
+  timestamp: string;
+  id: string;
+}
+
+export interface SalesQuery {
+  from?: string; // Inclusive
+  to?: string; // Exclusive
+  status?: Sale['status'];
+  orderNumber?: number;
+  // Only the refunds of this sale.
+  refundOf?: string;
+  // Continues after the last sale of the previous page.
+  before?: SalesCursor | null;
+  limit: number;
+}
+
+export interface SalesPage {
+  sales: SaleRecord[];
+  items: SaleItemRecord[];
+  nextCursor: SalesCursor | null;
+}
+
+export type RealtimeEvent =
+  | { [K in SyncTable]: { table: K; type: 'upsert'; row: SyncRows[K] } }[SyncTable]
+  | { table: SyncTable; type: 'delete'; id: string }
+  // The backend only knows that something in the table changed; the table must be pulled.
+  | { table: SyncTable; type: 'invalidate' };
+
+export type RealtimeStatus = 'connecting' | 'connected' | 'disconnected';
+
+export interface OrderNumberAllocation {
+  order_number: number;
+  order_prefix: string | null;
+  order_scope: string;
+}
+
+export interface StockAdjustment {
+  productId: string;
+  delta: number;
+  reason: StockMovementReason;
+  saleId?: string | null;
+  note?: string | null;
+  // Unique key for the movement; repeating an adjustment with the same ref is a no-op.
+  clientRef?: string | null;
+}
+
+export type NewSaleRecord = Omit<SaleRecord, 'id' | 'timestamp'> & { timestamp?: string };
+export type NewSaleItemRecord = Omit<SaleItemRecord, 'id'>;
+export type ProductInput = Omit<Product, 'id' | 'categories' | 'updated_at'>;
+export type CategoryInput = Omit<Category, 'id' | 'updated_at'>;
+// The PIN is write-only: it is hashed by the store and never returned once saved.
+export type StaffInput = Omit<StaffMember, 'id' | 'locked_until' | 'updated_at'> & { pin: string };
+export type PromoCodeInput = Omit<PromoCode, 'id' | 'updated_at'>;
+export type HeldCartInput = Omit<HeldCart, 'id' | 'created_at' | 'updated_at'>;
+
+// Entries can share a `created_at`, so pages are keyed on the id as well.
+export interface AuditCursor {
+  created_at: string;
+  id: string;
+}
+
+export interface AuditQuery {
+  from?: string; // Inclusive
+  to?: string; // Exclusive
+  action?: AuditAction;
+  actorId?: string;
+  // Continues after the oldest entry of the previous page.
+  before?: AuditCursor | null;
+  limit: number;
+}
+
+// The backend stamps `created_at`, so a device with a wrong clock cannot backdate an entry.
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'created_at'>;
+
+// What a device says about itself each time it reports in.
+export interface DeviceReport {
+  deviceId: string;
+  userAgent: string;
+  staffId: string | null;
+  staffName: string | null;
+  isLocked: boolean;
+}
+
+export interface PinVerification {
+  // Only set when the PIN was correct.
+  staff: StaffMember | null;
+  // Set while the account is locked after too many wrong PINs; the PIN is not checked until then.
+  lockedUntil: string | null;
+  // Wrong PINs left before the account locks, after a failed attempt.
+  attemptsLeft: number | null;
+}
+
+// Staff changes carry the PIN of whoever approves them; the backend checks it, and that they are an
+// Admin, before writing anything.
+export interface StaffApproval {
+  staffId: string;
+  pin: string;
+}
+
+export interface DataStoreError {
+  message: string;
+  code?: string;
+}
+
+// Set by the stores when a request never reached the backend, as opposed to being rejected by it.
+export const NETWORK_ERROR_CODE = 'NETWORK';
+
+export const isNetworkError = (error: DataStoreError | null) => error?.code === NETWORK_ERROR_CODE;
+
+/** Why a staff change was refused: the approver's PIN was wrong or locked out, or they are not an Admin. */
+export const staffApprovalError = (verification: Omit<PinVerification, 'staff'> | null): DataStoreError => {
+  if (!verification) return { message: 'Only an Admin can approve changes to staff.' };
+  if (verification.lockedUntil) {
+    return { message: `Too many wrong PINs. Try again after ${new Date(verification.lockedUntil).toLocaleTimeString()}.` };
+  }
+  return {
+    message: verification.attemptsLeft
+      ? `Incorrect PIN. ${verification.attemptsLeft} ${verification.attemptsLeft === 1 ? 'attempt' : 'attempts'} left before the account locks.`
+      : 'Incorrect PIN.',
+  };
+};
+
+// Mirrors the `{ data, error }` shape of supabase-js so callers handle every backend the same way.
+export interface DataStoreResult<T> {
+  data: T | null;
+  error: DataStoreError | null;
+}
+
+export type DataStoreKind = 'supabase' | 'local';
+
+export interface DataStore {
+  readonly kind: DataStoreKind;
+
+  /**
+   * Rows of `table` changed at or after `since`, plus ids deleted since then. With a null `since`
+   * every row is returned (narrowed by `options`) and deletions are omitted.
+   */
+  fetchChanges<K extends SyncTable>(table: K, since: string | null, options?: ChangeOptions): Promise<DataStoreResult<ChangeSet<SyncRows[K]>>>;
+  /** Pushes row changes as they happen. Returns a function that closes the subscription. */
+  subscribe(onEvent: (event: RealtimeEvent) => void, onStatus: (status: RealtimeStatus) => void): () => void;
+
+  insertProduct(product: ProductInput): Promise<DataStoreResult<Product>>;
+  updateProduct(id: string, product: Partial<ProductInput>): Promise<DataStoreResult<null>>;
+  deleteProduct(id: string): Promise<DataStoreResult<null>>;
+  /**
+   * Changes stock by `delta` relative to the stored value (never the client's cached value) and
+   * records a stock movement in the same transaction. Returns the stock after the change.
+   */
+  adjustStock(adjustment: StockAdjustment): Promise<DataStoreResult<number>>;
+  /** Movements for one product, newest first. */
+  listStockMovements(productId: string): Promise<DataStoreResult<StockMovement[]>>;
+
+  insertCategory(category: CategoryInput): Promise<DataStoreResult<Category>>;
+  updateCategory(id: string, category: Partial<CategoryInput>): Promise<DataStoreResult<null>>;
+  deleteCategory(id: string): Promise<DataStoreResult<null>>;
+
+  /** One page of sales with their items, newest first. Drafts are left out, so a page may come back short. */
+  listSales(query: SalesQuery): Promise<DataStoreResult<SalesPage>>;
+  listSaleItems(saleIds: string[]): Promise<DataStoreResult<SaleItemRecord[]>>;
+  /** Atomically draws the next number from the sequence selected by the order numbering config. */
+  allocateOrderNumber(): Promise<DataStoreResult<OrderNumberAllocation>>;
+  /** Moves a sequence past a number handed out offline, so it is never allocated again. */
+  reserveOrderNumber(scope: string, orderNumber: number): Promise<DataStoreResult<null>>;
+  findSaleByClientId(clientId: string): Promise<DataStoreResult<SaleRecord | null>>;
+  insertSale(sale: NewSaleRecord): Promise<DataStoreResult<SaleRecord>>;
+  insertSaleItems(items: NewSaleItemRecord[]): Promise<DataStoreResult<null>>;
+  updateSale(id: string, patch: Partial<Pick<SaleRecord, 'status' | 'admin_notes' | 'completed_by' | 'notes_edited_by'>>): Promise<DataStoreResult<null>>;
+  /** Removes every sale and sale item. */
+  deleteAllSales(): Promise<DataStoreResult<null>>;
+
+  /** Every staff member, active or not, without their PINs. */
+  listStaff(): Promise<DataStoreResult<StaffMember[]>>;
+  /** Checks a PIN against its stored hash, counting wrong attempts towards a temporary lockout. */
+  verifyStaffPin(staffId: string, pin: string): Promise<DataStoreResult<PinVerification>>;
+  insertStaff(staff: StaffInput, approval: StaffApproval): Promise<DataStoreResult<StaffMember>>;
+  updateStaff(id: string, staff: Partial<StaffInput>, approval: StaffApproval): Promise<DataStoreResult<null>>;
+
+  /** Every promo code, live or not, in code order. */
+  listPromoCodes(): Promise<DataStoreResult<PromoCode[]>>;
+  /** Fails when another promo code already uses the same code. */
+  insertPromoCode(promo: PromoCodeInput): Promise<DataStoreResult<PromoCode>>;
+  updatePromoCode(id: string, promo: Partial<PromoCodeInput>): Promise<DataStoreResult<null>>;
+
+  // Held carts are listed through `fetchChanges`, so every terminal sees them as they are parked.
+  insertHeldCart(cart: HeldCartInput): Promise<DataStoreResult<HeldCart>>;
+  /** Removes a held cart and hands it back; null when another terminal already took it. */
+  claimHeldCart(id: string): Promise<DataStoreResult<HeldCart | null>>;
+
+  /** Appends to the audit trail, which has no way to edit or remove an entry. */
+  insertAuditEntry(entry: NewAuditEntry): Promise<DataStoreResult<null>>;
+  /** One page of audit entries, newest first. */
+  listAuditEntries(query: AuditQuery): Promise<DataStoreResult<AuditEntry[]>>;
+
+  /**
+   * Registers this device on its first call and refreshes its last-seen time and current user after
+   * that. Resolves to the command an admin queued for it, which is cleared as it is handed over.
+   */
+  reportDevice(report: DeviceReport): Promise<DataStoreResult<DeviceCommand | null>>;
+  /** Every device that has ever reported in, most recently seen first. */
+  listDevices(): Promise<DataStoreResult<Device[]>>;
+  renameDevice(id: string, name: string | null): Promise<DataStoreResult<null>>;
+  /** Queues a command for one device, replacing any it has not picked up yet. */
+  sendDeviceCommand(id: string, command: DeviceCommand): Promise<DataStoreResult<null>>;
+
+  /** Returns `null` data (not an error) when the key has never been set. */
+  getConfigValue(key: string): Promise<DataStoreResult<string | null>>;
+  setConfigValue(key: string, value: string): Promise<DataStoreResult<null>>;
+  triggerGlobalLogout(): Promise<DataStoreResult<null>>;
+}
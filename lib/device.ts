@@ -0,0 +1,37 @@
+import type { Device } from '../types';
+
+const DEVICE_ID_KEY = 'pyj-pos-device-id';
+
+// How often a device reports in, which is also how quickly it picks up a remote logout or lock.
+export const DEVICE_REPORT_INTERVAL_MS = 5000;
+
+// A device that has not reported for this long is shown as offline.
+const ONLINE_WINDOW_MS = 30 * 1000;
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * A random id for this browser, created on first use and kept across reloads and backend switches.
+ * Clearing site data gives the device a new one.
+ */
+export const getDeviceId = (): string => {
+  if (cachedDeviceId) return cachedDeviceId;
+  try {
+    cachedDeviceId = localStorage.getItem(DEVICE_ID_KEY);
+    if (!cachedDeviceId) {
+      cachedDeviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_KEY, cachedDeviceId);
+    }
+  } catch (e) {
+    console.error('Failed to read the device id', e);
+    cachedDeviceId = cachedDeviceId || crypto.randomUUID();
+  }
+  return cachedDeviceId;
+};
+
+export const shortDeviceId = (id: string) => id.slice(0, 8);
+
+export const deviceLabel = (device: Pick<Device, 'id' | 'name'>) => device.name || `Device ${shortDeviceId(device.id)}`;
+
+/** Measured against this browser's clock, so a badly set clock here can misreport it. */
+export const isDeviceOnline = (device: Device) => Date.now() - new Date(device.last_seen_at).getTime() < ONLINE_WINDOW_MS;
@@ -0,0 +1,66 @@
+import type { CartItem, Discount, PromoCode, Sale } from '../types';
+
+export const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+/** What `discount` takes off `base`; never more than the base itself. */
+export const discountAmount = (discount: Discount | null | undefined, base: number): number => {
+  if (!discount || discount.value <= 0 || base <= 0) return 0;
+  const amount = discount.kind === 'percent' ? (base * Math.min(discount.value, 100)) / 100 : discount.value;
+  return roundMoney(Math.min(amount, base));
+};
+
+/** "10%" or "₹20.00" */
+export const formatDiscount = (discount: Pick<Discount, 'kind' | 'value'>) =>
+  discount.kind === 'percent' ? `${discount.value}%` : `₹${discount.value.toFixed(2)}`;
+
+export interface CartTotals {
+  gross: number; // Before any discount
+  lineDiscounts: number;
+  orderDiscount: number;
+  net: number;
+}
+
+export const lineDiscount = (item: CartItem) => discountAmount(item.discount, item.price * item.quantity);
+
+/** The order discount is taken from what is left after line discounts. */
+export const getCartTotals = (items: CartItem[], orderDiscount: Discount | null): CartTotals => {
+  const gross = roundMoney(items.reduce((sum, item) => sum + item.price * item.quantity, 0));
+  const lineDiscounts = roundMoney(items.reduce((sum, item) => sum + lineDiscount(item), 0));
+  const order = discountAmount(orderDiscount, gross - lineDiscounts);
+  return { gross, lineDiscounts, orderDiscount: order, net: roundMoney(gross - lineDiscounts - order) };
+};
+
+/** Each line's amount after its own discount and its share of the order discount, split by value. */
+export const discountedLineAmounts = (items: CartItem[], totals: CartTotals): number[] => {
+  const afterLineDiscounts = totals.gross - totals.lineDiscounts;
+  return items.map(item => {
+    const amount = item.price * item.quantity - lineDiscount(item);
+    return afterLineDiscounts > 0 ? amount - (totals.orderDiscount * amount) / afterLineDiscounts : 0;
+  });
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+export const isPromoCodeLive = (promo: PromoCode, at = new Date()) =>
+  promo.active
+  && (!promo.starts_at || new Date(promo.starts_at) <= at)
+  && (!promo.ends_at || at < new Date(promo.ends_at));
+
+/** Resolves a typed code to a discount, or explains why it cannot be used. */
+export const redeemPromoCode = (promoCodes: PromoCode[], code: string): { discount: Discount } | { error: string } => {
+  const normalized = normalizePromoCode(code);
+  const promo = promoCodes.find(p => p.code === normalized);
+  if (!promo) return { error: `"${normalized}" is not a promo code.` };
+  if (!isPromoCodeLive(promo)) return { error: `${promo.code} is not valid right now.` };
+  return { discount: { kind: promo.kind, value: promo.value, code: promo.code } };
+};
+
+/** Sales made before discounts existed have none, so their gross is their total. */
+export const saleDiscount = (sale: Sale) =>
+  roundMoney(sale.items.reduce((sum, item) => sum + (item.discount || 0), 0) + (sale.discount || 0));
+
+/** What the sale came to as priced, before discounts; tax added on top of the prices is left out. */
+export const saleGross = (sale: Sale) => {
+  const addedTax = (sale.taxes || []).filter(t => !t.inclusive).reduce((sum, t) => sum + t.tax, 0);
+  return roundMoney(sale.total - addedTax + saleDiscount(sale));
+};
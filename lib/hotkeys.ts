@@ -0,0 +1,83 @@
+export type HotkeyAction =
+  | 'focusSearch'
+  | 'addHighlighted'
+  | 'increaseQuantity'
+  | 'decreaseQuantity'
+  | 'checkout'
+  | 'payCash'
+  | 'payUpi'
+  | 'newOrder'
+  | 'showShortcuts'
+  | 'commandPalette';
+
+// Each action's key combination, written the way `eventToCombo` reports it, e.g. "Ctrl+K".
+export type HotkeyConfig = Record<HotkeyAction, string>;
+
+// Kept per device in localStorage, since it depends on the keyboard at that till.
+export const HOTKEYS_STORAGE_KEY = 'pyj-pos-hotkeys';
+
+// Function keys and modifier combinations, so none of them gets in the way of typing in a field.
+export const DEFAULT_HOTKEYS: HotkeyConfig = {
+  focusSearch: 'F2',
+  addHighlighted: 'Enter',
+  increaseQuantity: 'Alt+ArrowUp',
+  decreaseQuantity: 'Alt+ArrowDown',
+  checkout: 'F4',
+  payCash: 'Alt+C',
+  payUpi: 'Alt+U',
+  newOrder: 'Alt+N',
+  showShortcuts: 'Ctrl+/',
+  commandPalette: 'Ctrl+K',
+};
+
+export const hotkeyLabels: Record<HotkeyAction, string> = {
+  focusSearch: 'Search products',
+  addHighlighted: 'Add the highlighted product (from search)',
+  increaseQuantity: 'Add one more of the last item',
+  decreaseQuantity: 'Take one off the last item',
+  checkout: 'Proceed to payment',
+  payCash: 'Pay by cash',
+  payUpi: 'Pay by UPI',
+  newOrder: 'Start a new order',
+  showShortcuts: 'Show keyboard shortcuts',
+  commandPalette: 'Go to a screen',
+};
+
+/** Saved configs may predate an action, which then keeps its default. */
+export const withDefaultHotkeys = (config: Partial<HotkeyConfig> | null): HotkeyConfig => ({ ...DEFAULT_HOTKEYS, ...config });
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+/**
+ * "Ctrl+Shift+K", "Alt+ArrowUp", "F2" or "?" for a key press; null for a lone modifier. Letters
+ * and digits come from the physical key, since Alt changes the character on some layouts. Shift
+ * is left out for other characters, whose key already reflects it.
+ */
+export const eventToCombo = (e: Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  let key = e.key;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit[0-9]$/.test(e.code)) key = e.code.slice(5);
+  else if (key === ' ') key = 'Space';
+  const isCharacter = key.length === 1 && !/[A-Z0-9]/.test(key);
+
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && !isCharacter) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+/** Whether a combination would type into a field instead of acting as a shortcut there. */
+export const isTypingCombo = (combo: string) => !/^(Ctrl|Alt)\+/.test(combo) && !/^(Shift\+)?(F\d{1,2}|Escape)$/.test(combo);
+
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/** "Ctrl+ArrowUp" as "Ctrl + ↑" for display. */
+export const formatCombo = (combo: string) =>
+  combo
+    .replace('ArrowUp', '↑').replace('ArrowDown', '↓').replace('ArrowLeft', '←').replace('ArrowRight', '→')
+    .split(/\+(?=.)/)
+    .join(' + ');
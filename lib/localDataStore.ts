@@ -0,0 +1,437 @@
+import type { Product, Category, StaffMember, StockMovement, AuditEntry, Device, HeldCart, PromoCode } from '../types';
+import type { AuditCursor, ChangeOptions, DataStore, DataStoreResult, PinVerification, SaleRecord, SaleItemRecord, SalesCursor, StaffApproval, SyncRows, SyncTable } from './dataStore';
+import { staffApprovalError } from './dataStore';
+import { initialProducts } from '../constants';
+import { ORDER_NUMBERING_CONFIG_KEY, getOrderScope, parseOrderNumberingConfig } from './orderNumber';
+import { findCodeConflict } from './productCodes';
+import { ADMIN_ROLE_ID } from './permissions';
+
+const KEY_PREFIX = 'pyj-pos-local';
+
+interface ConfigRow {
+  key: string;
+  value: string;
+}
+
+interface OrderCounterRow {
+  scope: string;
+  last_value: number;
+}
+
+interface DeletedRow {
+  table_name: SyncTable;
+  row_id: string;
+  deleted_at: string;
+}
+
+// Rows written before PINs were hashed, including the seeds below, still carry a plain `pin`;
+// it is swapped for a hash the first time someone logs in.
+type StaffRow = StaffMember & { pin?: string; pin_hash?: string; pin_salt?: string; failed_attempts?: number };
+
+interface LocalTables {
+  products: Omit<Product, 'categories'>[];
+  categories: Category[];
+  sales: SaleRecord[];
+  sale_items: SaleItemRecord[];
+  app_config: ConfigRow[];
+  order_counters: OrderCounterRow[];
+  stock_movements: (StockMovement & { client_ref?: string | null })[];
+  deleted_rows: DeletedRow[];
+  staff: StaffRow[];
+  audit_log: AuditEntry[];
+  devices: Device[];
+  promo_codes: PromoCode[];
+  held_carts: HeldCart[];
+}
+
+// Seed data for a fresh device, so a booth can start selling without any setup.
+const defaultTables: LocalTables = {
+  products: initialProducts,
+  categories: [],
+  sales: [],
+  sale_items: [],
+  app_config: [],
+  order_counters: [],
+  stock_movements: [],
+  deleted_rows: [],
+  staff: [
+    { id: 'local-admin', name: 'Admin', role: 'admin', pin: '0000', active: true },
+    { id: 'local-cashier', name: 'Cashier', role: 'cashier', pin: '1111', active: true },
+  ],
+  audit_log: [],
+  devices: [],
+  promo_codes: [],
+  held_carts: [],
+};
+
+const ok = <T,>(data: T): DataStoreResult<T> => ({ data, error: null });
+
+const now = () => new Date().toISOString();
+
+const withoutPin = ({ pin, pin_hash, pin_salt, failed_attempts, ...staff }: StaffRow): StaffMember => staff;
+
+// The same limits verify_staff_pin applies on the remote side.
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+const PIN_PATTERN = /^[0-9]{4,6}$/;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations: 100_000 }, key, 256);
+  return toHex(bits);
+};
+
+/** Replaces a plain `pin` with a fresh salt and hash; a new PIN also lifts any lockout. */
+const withPinHash = async <T extends { pin?: string }>(row: T) => {
+  if (!row.pin) return row;
+  const { pin, ...rest } = row;
+  const pin_salt = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  return { ...rest, pin_salt, pin_hash: await hashPin(pin, pin_salt), failed_attempts: 0, locked_until: null };
+};
+
+const invalidPinError = (pin?: string): DataStoreResult<null> | null =>
+  pin !== undefined && !PIN_PATTERN.test(pin) ? { data: null, error: { message: 'The PIN must be 4 to 6 digits.' } } : null;
+
+const isActiveSale = (sale: SaleRecord, since: string) => sale.status === 'Pending' || sale.timestamp >= since;
+
+// Orders sales by timestamp, then id, the same keyset the remote query pages by.
+const compareSales = (a: SalesCursor, b: SalesCursor) =>
+  a.timestamp === b.timestamp ? a.id.localeCompare(b.id) : a.timestamp < b.timestamp ? -1 : 1;
+
+// Orders audit entries by `created_at`, then id, as the remote query does.
+const compareAuditEntries = (a: AuditCursor, b: AuditCursor) =>
+  a.created_at === b.created_at ? a.id.localeCompare(b.id) : a.created_at < b.created_at ? -1 : 1;
+
+/**
+ * A DataStore kept entirely in the browser's localStorage. Every table lives under its own key,
+ * so other tabs on the same device are told about changes through the `storage` event. Writes stamp `updated_at` and
+ * deletes leave tombstones, mirroring the triggers on the remote tables.
+ */
+export const createLocalDataStore = (storage: Storage = window.localStorage): DataStore => {
+  const read = <K extends keyof LocalTables>(table: K): LocalTables[K] => {
+    try {
+      const stored = storage.getItem(`${KEY_PREFIX}:${table}`);
+      return stored ? JSON.parse(stored) : defaultTables[table];
+    } catch (e) {
+      console.error(`Failed to read local table ${table}`, e);
+      return defaultTables[table];
+    }
+  };
+
+  // The `storage` event only fires in other tabs, so writes from this one are announced directly.
+  const listeners = new Set<(table: keyof LocalTables) => void>();
+
+  const write = <K extends keyof LocalTables>(table: K, rows: LocalTables[K]) => {
+    storage.setItem(`${KEY_PREFIX}:${table}`, JSON.stringify(rows));
+    listeners.forEach(listener => listener(table));
+  };
+
+  const tombstone = (table: SyncTable, ids: string[]) => {
+    const deletedAt = now();
+    write('deleted_rows', [...read('deleted_rows'), ...ids.map(row_id => ({ table_name: table, row_id, deleted_at: deletedAt }))]);
+  };
+
+  const withCategoryNames = (): Product[] => {
+    const categories = read('categories');
+    return read('products').map(p => {
+      const category = categories.find(c => c.id === p.category_id);
+      return { ...p, categories: category ? { name: category.name } : null };
+    });
+  };
+
+  // Wraps a mutation so a full storage quota surfaces as an error instead of a thrown exception.
+  const guard = async <T,>(fn: () => T): Promise<DataStoreResult<T>> => {
+    try {
+      return ok(fn());
+    } catch (e) {
+      return { data: null, error: { message: e instanceof Error ? e.message : String(e) } };
+    }
+  };
+
+  const verifyPin = async (staffId: string, pin: string): Promise<DataStoreResult<PinVerification>> => {
+    const stored = read('staff').find(s => s.id === staffId && s.active);
+    if (!stored) return ok({ staff: null, lockedUntil: null, attemptsLeft: null });
+    if (stored.locked_until && stored.locked_until > now()) {
+      return ok({ staff: null, lockedUntil: stored.locked_until, attemptsLeft: 0 });
+    }
+
+    const member: StaffRow = await withPinHash(stored);
+    const isMatch = !!member.pin_salt && member.pin_hash === await hashPin(pin, member.pin_salt);
+    const attempts = isMatch ? 0 : (member.failed_attempts || 0) + 1;
+    const lockedUntil = attempts >= MAX_PIN_ATTEMPTS ? new Date(Date.now() + PIN_LOCKOUT_MS).toISOString() : null;
+    const updated = { ...member, failed_attempts: lockedUntil ? 0 : attempts, locked_until: lockedUntil, updated_at: now() };
+    const saved = await guard(() => write('staff', read('staff').map(s => (s.id === staffId ? updated : s))));
+    if (saved.error) return { data: null, error: saved.error };
+
+    return ok({
+      staff: isMatch ? withoutPin(updated) : null,
+      lockedUntil,
+      attemptsLeft: isMatch ? null : lockedUntil ? 0 : MAX_PIN_ATTEMPTS - attempts,
+    });
+  };
+
+  // The same check save_staff() makes: the approver's PIN, then whether they are an Admin.
+  const checkApproval = async ({ staffId, pin }: StaffApproval): Promise<DataStoreResult<null> | null> => {
+    const { data: verification, error } = await verifyPin(staffId, pin);
+    if (error || !verification) return { data: null, error: error || { message: 'Unknown Error' } };
+    if (!verification.staff) return { data: null, error: staffApprovalError(verification) };
+    return verification.staff.role === ADMIN_ROLE_ID ? null : { data: null, error: staffApprovalError(null) };
+  };
+
+  return {
+    kind: 'local',
+
+    fetchChanges: async <K extends SyncTable>(table: K, since: string | null, { salesSince }: ChangeOptions = {}) => {
+      const rows = (table === 'products' ? withCategoryNames() : read(table)) as SyncRows[K][];
+      let changed = since ? rows.filter(r => r.updated_at && r.updated_at >= since) : rows;
+      if (!since && salesSince && (table === 'sales' || table === 'sale_items')) {
+        const activeSaleIds = new Set(read('sales').filter(s => isActiveSale(s, salesSince)).map(s => s.id));
+        changed = changed.filter(r => activeSaleIds.has(table === 'sales' ? r.id : (r as SaleItemRecord).sale_id));
+      }
+      const deleted = since ? read('deleted_rows').filter(d => d.table_name === table && d.deleted_at >= since) : [];
+      const cursor = [...changed.map(r => r.updated_at), ...deleted.map(d => d.deleted_at)]
+        .reduce<string | null>((max, t) => (t && (!max || t > max) ? t : max), null);
+      return ok({ rows: changed, deletedIds: deleted.map(d => d.row_id), cursor });
+    },
+
+    subscribe: (onEvent, onStatus) => {
+      const notify = (table: string) => {
+        if (table === 'products' || table === 'categories' || table === 'sales' || table === 'sale_items' || table === 'held_carts') {
+          onEvent({ table, type: 'invalidate' });
+        }
+      };
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key?.startsWith(`${KEY_PREFIX}:`)) notify(e.key.slice(KEY_PREFIX.length + 1));
+      };
+      window.addEventListener('storage', handleStorage);
+      listeners.add(notify);
+      onStatus('connected');
+      return () => {
+        window.removeEventListener('storage', handleStorage);
+        listeners.delete(notify);
+      };
+    },
+
+    insertProduct: (product) => guard(() => {
+      const conflict = findCodeConflict(withCategoryNames(), product);
+      if (conflict) throw new Error(conflict);
+      const created = { ...product, id: crypto.randomUUID(), updated_at: now() };
+      write('products', [...read('products'), created]);
+      return created;
+    }),
+    updateProduct: (id, product) => guard(() => {
+      const conflict = findCodeConflict(withCategoryNames(), { ...product, id });
+      if (conflict) throw new Error(conflict);
+      write('products', read('products').map(p => (p.id === id ? { ...p, ...product, updated_at: now() } : p)));
+      return null;
+    }),
+    deleteProduct: (id) => guard(() => {
+      write('stock_movements', read('stock_movements').filter(m => m.product_id !== id));
+      write('products', read('products').filter(p => p.id !== id));
+      tombstone('products', [id]);
+      return null;
+    }),
+    adjustStock: ({ productId, delta, reason, saleId, note, clientRef }) => guard(() => {
+      const products = read('products');
+      const product = products.find(p => p.id === productId);
+      const movements = read('stock_movements');
+      if (!product) return null;
+      if (clientRef && movements.some(m => m.client_ref === clientRef)) return product.stock;
+
+      const stockAfter = product.stock + delta;
+      write('products', products.map(p => (p.id === productId ? { ...p, stock: stockAfter, updated_at: now() } : p)));
+      write('stock_movements', [...movements, {
+        id: crypto.randomUUID(), product_id: productId, delta, reason, stock_after: stockAfter,
+        sale_id: saleId ?? null, note: note ?? null, client_ref: clientRef ?? null, created_at: now(),
+      }]);
+      return stockAfter;
+    }),
+    listStockMovements: async (productId) => ok(
+      read('stock_movements')
+        .filter(m => m.product_id === productId)
+        .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    ),
+
+    insertCategory: (category) => guard(() => {
+      const created = { ...category, id: crypto.randomUUID(), updated_at: now() };
+      write('categories', [...read('categories'), created]);
+      return created;
+    }),
+    updateCategory: (id, category) => guard(() => {
+      write('categories', read('categories').map(c => (c.id === id ? { ...c, ...category, updated_at: now() } : c)));
+      return null;
+    }),
+    deleteCategory: (id) => guard(() => {
+      // Matches the `on delete set null` foreign key on the remote products table.
+      write('products', read('products').map(p => (p.category_id === id ? { ...p, category_id: null, updated_at: now() } : p)));
+      write('categories', read('categories').filter(c => c.id !== id));
+      tombstone('categories', [id]);
+      return null;
+    }),
+
+    listSales: async ({ from, to, status, orderNumber, refundOf, before, limit }) => {
+      const matching = read('sales')
+        .filter(s => (!from || s.timestamp >= from) && (!to || s.timestamp < to))
+        .filter(s => (!status || s.status === status) && (orderNumber === undefined || s.order_number === orderNumber))
+        .filter(s => !refundOf || s.refund_of === refundOf)
+        .filter(s => !before || compareSales(s, before) < 0)
+        .sort((a, b) => compareSales(b, a));
+      const rows = matching.slice(0, limit);
+      const sales = rows.filter(s => (s.status as string) !== 'Draft');
+      const saleIds = new Set(sales.map(s => s.id));
+      const last = rows[rows.length - 1];
+      return ok({
+        sales,
+        items: read('sale_items').filter(item => saleIds.has(item.sale_id)),
+        nextCursor: matching.length > limit ? { timestamp: last.timestamp, id: last.id } : null,
+      });
+    },
+    listSaleItems: async (saleIds) => ok(read('sale_items').filter(item => saleIds.includes(item.sale_id))),
+    allocateOrderNumber: () => guard(() => {
+      const configValue = read('app_config').find(row => row.key === ORDER_NUMBERING_CONFIG_KEY)?.value ?? null;
+      const config = parseOrderNumberingConfig(configValue);
+      const scope = getOrderScope(config);
+      const counters = read('order_counters');
+      const counter = counters.find(c => c.scope === scope);
+      // Like the database function, the global sequence continues from sales recorded before counters existed.
+      const lastValue = counter
+        ? counter.last_value
+        : scope === 'all' ? read('sales').reduce((max, s) => Math.max(max, s.order_number || 0), 0) : 0;
+      write('order_counters', [...counters.filter(c => c.scope !== scope), { scope, last_value: lastValue + 1 }]);
+      return { order_number: lastValue + 1, order_prefix: config.prefix || null, order_scope: scope };
+    }),
+    reserveOrderNumber: (scope, orderNumber) => guard(() => {
+      const counters = read('order_counters');
+      // Like the database function, a new counter starts after every number already used in its scope.
+      const lastValue = counters.find(c => c.scope === scope)?.last_value
+        ?? read('sales').filter(s => (s.order_scope || 'all') === scope).reduce((max, s) => Math.max(max, s.order_number || 0), 0);
+      write('order_counters', [...counters.filter(c => c.scope !== scope), { scope, last_value: Math.max(lastValue, orderNumber) }]);
+      return null;
+    }),
+    findSaleByClientId: async (clientId) => ok(read('sales').find(s => s.client_id === clientId) ?? null),
+    insertSale: (sale) => guard(() => {
+      const created: SaleRecord = { timestamp: now(), ...sale, id: crypto.randomUUID(), updated_at: now() };
+      write('sales', [...read('sales'), created]);
+      return created;
+    }),
+    insertSaleItems: (items) => guard(() => {
+      write('sale_items', [...read('sale_items'), ...items.map(item => ({ ...item, id: crypto.randomUUID(), updated_at: now() }))]);
+      return null;
+    }),
+    updateSale: (id, patch) => guard(() => {
+      write('sales', read('sales').map(s => (s.id === id ? { ...s, ...patch, updated_at: now() } : s)));
+      return null;
+    }),
+    deleteAllSales: () => guard(() => {
+      tombstone('sale_items', read('sale_items').map(item => item.id));
+      tombstone('sales', read('sales').map(s => s.id));
+      write('sale_items', []);
+      write('sales', []);
+      return null;
+    }),
+
+    listStaff: async () => ok(read('staff').map(withoutPin).sort((a, b) => a.name.localeCompare(b.name))),
+    verifyStaffPin: verifyPin,
+    insertStaff: async (staff, approval) => {
+      const refused = await checkApproval(approval);
+      if (refused) return refused;
+      const invalid = invalidPinError(staff.pin);
+      if (invalid) return invalid;
+      const hashed = await withPinHash(staff);
+      return guard(() => {
+        const created = { ...hashed, id: crypto.randomUUID(), updated_at: now() };
+        write('staff', [...read('staff'), created]);
+        return withoutPin(created);
+      });
+    },
+    updateStaff: async (id, staff, approval) => {
+      const refused = await checkApproval(approval);
+      if (refused) return refused;
+      const invalid = invalidPinError(staff.pin);
+      if (invalid) return invalid;
+      const hashed = await withPinHash(staff);
+      return guard(() => {
+        write('staff', read('staff').map(s => (s.id === id ? { ...s, ...hashed, updated_at: now() } : s)));
+        return null;
+      });
+    },
+
+    listPromoCodes: async () => ok([...read('promo_codes')].sort((a, b) => a.code.localeCompare(b.code))),
+    insertPromoCode: (promo) => guard(() => {
+      const promos = read('promo_codes');
+      if (promos.some(p => p.code === promo.code)) throw new Error(`Promo code ${promo.code} already exists.`);
+      const created = { ...promo, id: crypto.randomUUID(), updated_at: now() };
+      write('promo_codes', [...promos, created]);
+      return created;
+    }),
+    updatePromoCode: (id, promo) => guard(() => {
+      const promos = read('promo_codes');
+      if (promo.code && promos.some(p => p.id !== id && p.code === promo.code)) throw new Error(`Promo code ${promo.code} already exists.`);
+      write('promo_codes', promos.map(p => (p.id === id ? { ...p, ...promo, updated_at: now() } : p)));
+      return null;
+    }),
+
+    insertHeldCart: (cart) => guard(() => {
+      const created = { ...cart, id: crypto.randomUUID(), created_at: now(), updated_at: now() };
+      write('held_carts', [...read('held_carts'), created]);
+      return created;
+    }),
+    claimHeldCart: (id) => guard(() => {
+      const carts = read('held_carts');
+      const cart = carts.find(c => c.id === id) || null;
+      if (!cart) return null;
+      write('held_carts', carts.filter(c => c.id !== id));
+      tombstone('held_carts', [id]);
+      return cart;
+    }),
+
+    insertAuditEntry: (entry) => guard(() => {
+      write('audit_log', [...read('audit_log'), { ...entry, id: crypto.randomUUID(), created_at: now() }]);
+      return null;
+    }),
+    listAuditEntries: async ({ from, to, action, actorId, before, limit }) => ok(
+      read('audit_log')
+        .filter(e => (!from || e.created_at >= from) && (!to || e.created_at < to) && (!before || compareAuditEntries(e, before) < 0))
+        .filter(e => (!action || e.action === action) && (!actorId || e.actor_id === actorId))
+        .sort((a, b) => compareAuditEntries(b, a))
+        .slice(0, limit)
+    ),
+
+    // Only tabs of this browser ever report here, so the list holds this device alone.
+    reportDevice: ({ deviceId, userAgent, staffId, staffName, isLocked }) => guard(() => {
+      const devices = read('devices');
+      const existing = devices.find(d => d.id === deviceId);
+      const reported: Device = {
+        first_seen_at: now(), name: null, ...existing,
+        id: deviceId, user_agent: userAgent, current_staff_id: staffId, current_staff_name: staffName,
+        is_locked: isLocked, pending_command: null, last_seen_at: now(),
+      };
+      write('devices', [...devices.filter(d => d.id !== deviceId), reported]);
+      return existing?.pending_command ?? null;
+    }),
+    listDevices: async () => ok([...read('devices')].sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at))),
+    renameDevice: (id, name) => guard(() => {
+      write('devices', read('devices').map(d => (d.id === id ? { ...d, name } : d)));
+      return null;
+    }),
+    sendDeviceCommand: (id, command) => guard(() => {
+      write('devices', read('devices').map(d => (d.id === id ? { ...d, pending_command: command } : d)));
+      return null;
+    }),
+
+    getConfigValue: async (key) => ok(read('app_config').find(row => row.key === key)?.value ?? null),
+    setConfigValue: (key, value) => guard(() => {
+      write('app_config', [...read('app_config').filter(row => row.key !== key), { key, value }]);
+      return null;
+    }),
+    triggerGlobalLogout: () => guard(() => {
+      const rows = read('app_config').filter(row => row.key !== 'last_global_logout_timestamp');
+      write('app_config', [...rows, { key: 'last_global_logout_timestamp', value: new Date().toISOString() }]);
+      return null;
+    }),
+  };
+};
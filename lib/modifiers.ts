@@ -0,0 +1,34 @@
+import type { CartItem, ModifierGroup, SelectedModifier } from '../types';
+
+export const hasModifiers = (product: { modifier_groups?: ModifierGroup[] | null }) =>
+  !!product.modifier_groups?.some(group => group.options.length > 0);
+
+export const modifiersTotal = (modifiers: SelectedModifier[] = []) =>
+  modifiers.reduce((sum, m) => sum + m.price_delta, 0);
+
+/** "Large, Less sugar" */
+export const formatModifiers = (modifiers: SelectedModifier[] = []) => modifiers.map(m => m.option).join(', ');
+
+/** "Iced Tea (Large, Less sugar)", or just the name when nothing was picked. */
+export const formatItemName = (item: { name: string; modifiers?: SelectedModifier[] }) =>
+  item.modifiers?.length ? `${item.name} (${formatModifiers(item.modifiers)})` : item.name;
+
+/**
+ * Identifies a cart line: the same product with different options is a separate line, while
+ * adding it again with the same options increases the quantity.
+ */
+export const cartLineKey = (item: Pick<CartItem, 'id' | 'modifiers'>) =>
+  [item.id, ...(item.modifiers || []).map(m => `${m.group}:${m.option}`)].join('|');
+
+// Option ids picked in each group, keyed by group id, while the picker is open.
+export type ModifierSelection = Record<string, string[]>;
+
+/** The first required group with nothing picked, or null when the selection can go in the cart. */
+export const findMissingGroup = (groups: ModifierGroup[], selection: ModifierSelection): ModifierGroup | null =>
+  groups.find(group => group.required && group.options.length > 0 && !selection[group.id]?.length) ?? null;
+
+/** Picked options in the order the product lists them. */
+export const toSelectedModifiers = (groups: ModifierGroup[], selection: ModifierSelection): SelectedModifier[] =>
+  groups.flatMap(group => group.options
+    .filter(option => selection[group.id]?.includes(option.id))
+    .map(option => ({ group: group.name, option: option.name, price_delta: option.price_delta })));
@@ -0,0 +1,118 @@
+import type { Sale, SaleItem } from '../types';
+import type { DataStore, DataStoreError, NewSaleRecord, SaleRecord } from './dataStore';
+import type { BackendProfile } from './backendConfig';
+
+const OFFLINE_QUEUE_KEY = 'pyj-pos-offline-queue';
+const FAILED_SALES_KEY = 'pyj-pos-failed-sales';
+
+// Each profile queues separately, so a sale made in training can never be replayed into production.
+// Production keeps the original key, so sales queued before profiles existed are not lost.
+export const getOfflineQueueKey = (profile: BackendProfile) =>
+  profile === 'production' ? OFFLINE_QUEUE_KEY : `${OFFLINE_QUEUE_KEY}:${profile}`;
+
+export const getFailedSalesKey = (profile: BackendProfile) => `${FAILED_SALES_KEY}:${profile}`;
+
+export interface PendingSale {
+  // Idempotency key, also used as the sale's id in the UI until it has been synced.
+  client_id: string;
+  sale: Omit<NewSaleRecord, 'client_id'> & { timestamp: string };
+  items: SaleItem[];
+  // Set when the order number was guessed offline and the sequence still has to be moved past it.
+  provisional_order_number?: boolean;
+  // Progress markers, so a replay that was cut off resumes without repeating finished steps.
+  sale_id?: string;
+  items_saved?: boolean;
+  stock_applied_ids?: string[];
+}
+
+// A queued sale the backend rejected for a reason other than the connection. It is set aside until
+// an admin retries or discards it, so one bad sale cannot hold up the rest of the queue.
+export interface FailedSale extends PendingSale {
+  error: string;
+  failed_at: string;
+}
+
+export const toFailedSale = (pending: PendingSale, error: DataStoreError): FailedSale => ({
+  ...pending,
+  error: error.message,
+  failed_at: new Date().toISOString(),
+});
+
+export const toPendingSale = ({ error: _error, failed_at: _failedAt, ...pending }: FailedSale): PendingSale => pending;
+
+export type SubmitStep = 'sale' | 'items' | 'stock';
+
+export interface SubmitResult {
+  pending: PendingSale;
+  sale: SaleRecord | null;
+  error: DataStoreError | null;
+  failedStep?: SubmitStep;
+}
+
+export const toUnsyncedSale = (pending: PendingSale): Sale => ({
+  ...pending.sale,
+  id: pending.client_id,
+  client_id: pending.client_id,
+  items: pending.items,
+  is_unsynced: true,
+});
+
+/**
+ * Writes a sale, its items and the stock changes, in that order. A refund goes through the same
+ * steps; its negative quantities put the stock back. Every step is safe to repeat:
+ * the sale is looked up by its client id before inserting, stock movements carry a unique client
+ * ref, and steps already marked as done on `pending` are skipped. Stops at the first failing step and returns the progress made so far.
+ */
+export const submitSale = async (store: DataStore, pending: PendingSale): Promise<SubmitResult> => {
+  let progress = { ...pending };
+
+  const { data: existing, error: lookupError } = await store.findSaleByClientId(progress.client_id);
+  if (lookupError) return { pending: progress, sale: null, error: lookupError, failedStep: 'sale' };
+
+  let sale = existing;
+  if (!sale) {
+    if (progress.provisional_order_number && progress.sale.order_scope) {
+      const { error } = await store.reserveOrderNumber(progress.sale.order_scope, progress.sale.order_number);
+      if (error) return { pending: progress, sale: null, error, failedStep: 'sale' };
+    }
+    const { data: inserted, error: insertError } = await store.insertSale({ ...progress.sale, client_id: progress.client_id });
+    if (insertError || !inserted) {
+      return { pending: progress, sale: null, error: insertError || { message: 'Unknown Error' }, failedStep: 'sale' };
+    }
+    sale = inserted;
+  }
+  progress = { ...progress, sale_id: sale.id };
+
+  if (!progress.items_saved) {
+    const { data: savedItems, error: itemsLookupError } = await store.listSaleItems([sale.id]);
+    if (itemsLookupError) return { pending: progress, sale, error: itemsLookupError, failedStep: 'items' };
+
+    if (!savedItems || savedItems.length === 0) {
+      const { error } = await store.insertSaleItems(progress.items.map(item => ({
+        sale_id: sale.id, product_id: item.id, name: item.name, price: item.price, quantity: item.quantity,
+        modifiers: item.modifiers?.length ? item.modifiers : null,
+        discount: item.discount || 0,
+      })));
+      if (error) return { pending: progress, sale, error, failedStep: 'items' };
+    }
+    progress = { ...progress, items_saved: true };
+  }
+
+  // One movement per product, since the same product can be on several lines with different modifiers.
+  const quantities = new Map<string, number>();
+  progress.items.forEach(item => quantities.set(item.id, (quantities.get(item.id) || 0) + item.quantity));
+  for (const [productId, quantity] of quantities) {
+    if (productId.startsWith('manual-') || progress.stock_applied_ids?.includes(productId)) continue;
+    const { error } = await store.adjustStock({
+      productId,
+      delta: -quantity,
+      reason: progress.sale.refund_of ? 'refund' : 'sale',
+      saleId: sale.id,
+      clientRef: `${progress.client_id}:${productId}`,
+    });
+    if (error) return { pending: progress, sale, error, failedStep: 'stock' };
+    progress = { ...progress, stock_applied_ids: [...(progress.stock_applied_ids || []), productId] };
+  }
+
+  return { pending: progress, sale, error: null };
+};
@@ -0,0 +1,79 @@
+import type { Sale } from '../types';
+import type { BackendProfile } from './backendConfig';
+
+export type OrderNumberReset = 'never' | 'daily' | 'event';
+
+export interface OrderNumberingConfig {
+  reset: OrderNumberReset;
+  prefix: string;
+  event: string; // Name of the current event; a new name starts a new sequence when `reset` is 'event'.
+  timezone: string; // IANA zone whose midnight starts a new sequence when `reset` is 'daily'
+}
+
+// Stored as JSON under this `app_config` key; read by the `next_order_number` database function too.
+export const ORDER_NUMBERING_CONFIG_KEY = 'order_numbering';
+
+const RESERVED_ORDER_KEY = 'pyj-pos-reserved-order';
+
+// The number drawn ahead of a sale for the UPI note is kept on the till until a sale uses it. Like the
+// offline queue it is per profile, so a number drawn in training is never used in production.
+export const getReservedOrderKey = (profile: BackendProfile) => `${RESERVED_ORDER_KEY}:${profile}`;
+
+export const DEFAULT_ORDER_NUMBERING: OrderNumberingConfig = { reset: 'never', prefix: '', event: '', timezone: 'Asia/Kolkata' };
+
+export const parseOrderNumberingConfig = (value: string | null): OrderNumberingConfig => {
+  if (!value) return DEFAULT_ORDER_NUMBERING;
+  try {
+    return { ...DEFAULT_ORDER_NUMBERING, ...JSON.parse(value) };
+  } catch (e) {
+    console.error('Invalid order numbering config', e);
+    return DEFAULT_ORDER_NUMBERING;
+  }
+};
+
+export const toLocalDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-CA', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The calendar date in `timeZone` as YYYY-MM-DD, whatever zone this browser is set to. */
+export const toZonedDateString = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+/** The sequence an order number belongs to. Must match `current_order_scope()` in the database. */
+export const getOrderScope = (config: OrderNumberingConfig, date = new Date()): string => {
+  switch (config.reset) {
+    case 'daily':
+      // The day is the shop's, not the till's, so every till and the database agree on when it turns over.
+      return `day:${toZonedDateString(date, isValidTimeZone(config.timezone) ? config.timezone : DEFAULT_ORDER_NUMBERING.timezone)}`;
+    case 'event':
+      return `event:${config.event.trim() || 'default'}`;
+    default:
+      return 'all';
+  }
+};
+
+/** "12" without a prefix, "A-012" with one. */
+export const formatOrderNumber = (sale: Pick<Sale, 'order_number' | 'order_prefix'>): string =>
+  sale.order_prefix
+    ? `${sale.order_prefix}${String(sale.order_number || 0).padStart(3, '0')}`
+    : String(sale.order_number || 0);
+
+/** Matches "#A-012", "a-012", "A-12" and "12" against order A-012. */
+export const matchesOrderNumber = (sale: Pick<Sale, 'order_number' | 'order_prefix'>, term: string): boolean => {
+  const normalized = term.trim().replace(/^#/, '').toLowerCase();
+  if (!normalized) return true;
+  const formatted = formatOrderNumber(sale).toLowerCase();
+  const plain = `${(sale.order_prefix || '').toLowerCase()}${sale.order_number || 0}`;
+  return formatted.includes(normalized) || plain.includes(normalized);
+};
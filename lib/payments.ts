@@ -0,0 +1,40 @@
+import { PaymentMethod } from '../types';
+import type { Payment, Sale } from '../types';
+import { roundMoney } from './discounts';
+
+export type TenderMethod = Payment['method'];
+
+export const TENDER_METHODS: TenderMethod[] = [PaymentMethod.CASH, PaymentMethod.UPI];
+
+/** A sale's tenders; older sales were paid in full by their single payment method. */
+export const salePayments = (sale: Pick<Sale, 'payments' | 'paymentMethod' | 'total'>): Payment[] =>
+  sale.payments?.length
+    ? sale.payments
+    : sale.paymentMethod === PaymentMethod.SPLIT ? [] : [{ method: sale.paymentMethod, amount: sale.total }];
+
+/** How much of `sales` was paid by `method`, counting each part of a split sale separately. */
+export const paidBy = (sales: Sale[], method: TenderMethod) =>
+  roundMoney(sales.reduce((sum, sale) => sum + salePayments(sale).filter(p => p.method === method).reduce((s, p) => s + p.amount, 0), 0));
+
+// Notes and coins offered as quick buttons when taking cash.
+export const CASH_DENOMINATIONS = [10, 20, 50, 100, 500];
+
+export interface CashReceived {
+  tendered: number;
+  change: number;
+}
+
+export const paymentsTotal = (payments: Payment[]) => roundMoney(payments.reduce((sum, p) => sum + p.amount, 0));
+
+/** The method recorded on the sale itself: the only one used, or Split. */
+export const summarizePaymentMethod = (payments: Payment[]): PaymentMethod => {
+  const methods = new Set(payments.map(p => p.method));
+  return methods.size === 1 ? payments[0].method : PaymentMethod.SPLIT;
+};
+
+/** "UPI ₹50.00 + Cash ₹30.00" for a split sale, or just the method when it was paid one way. */
+export const formatPayments = (sale: Pick<Sale, 'payments' | 'paymentMethod' | 'total'>) => {
+  const payments = salePayments(sale);
+  if (payments.length <= 1) return sale.paymentMethod;
+  return payments.map(p => `${p.method} ₹${p.amount.toFixed(2)}`).join(' + ');
+};
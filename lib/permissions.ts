@@ -0,0 +1,77 @@
+import type { Permission, RoleDefinition, StaffRole } from '../types';
+import type { View } from '../App';
+
+// Stored as JSON under this `app_config` key; the built-in roles below apply until an admin saves their own.
+export const ROLES_CONFIG_KEY = 'roles';
+
+// Always holds every permission and cannot be removed, so there is always someone who can fix the matrix.
+export const ADMIN_ROLE_ID = 'admin';
+
+export const PERMISSIONS: { id: Permission; label: string; description: string }[] = [
+  { id: 'sell', label: 'Sell', description: 'Use the POS screen to ring up sales.' },
+  { id: 'orders.view', label: 'View orders', description: 'See pending and completed orders.' },
+  { id: 'orders.complete', label: 'Complete orders', description: 'Mark pending orders as done.' },
+  { id: 'orders.notes', label: 'Admin notes', description: 'Add and edit admin notes on orders.' },
+  { id: 'dashboard.view', label: 'Dashboard', description: "See today's sales figures." },
+  { id: 'history.view', label: 'Sales history', description: 'Browse, export and report on past sales.' },
+  { id: 'history.reset', label: 'Reset history', description: 'Delete all sales.' },
+  { id: 'inventory.manage', label: 'Inventory', description: 'Edit products, categories and stock.' },
+  { id: 'settings.manage', label: 'Settings', description: 'Manage staff, roles, promo codes, order numbering, the backend and global logout.' },
+  { id: 'audit.view', label: 'Audit log', description: 'See who deleted, edited or reset what, and the values before and after.' },
+  { id: 'discounts.manual', label: 'Manual discounts', description: 'Take a percentage or amount off a line or a whole order. Anyone who can sell may use promo codes.' },
+  { id: 'sales.refund', label: 'Refunds', description: 'Void sales or refund some of their items, which puts the stock back.' },
+];
+
+const ALL_PERMISSIONS = PERMISSIONS.map(p => p.id);
+
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  { id: ADMIN_ROLE_ID, name: 'Admin', permissions: ALL_PERMISSIONS },
+  {
+    id: 'manager',
+    name: 'Manager',
+    permissions: ['sell', 'orders.view', 'orders.complete', 'orders.notes', 'dashboard.view', 'history.view', 'inventory.manage', 'discounts.manual'],
+  },
+  { id: 'cashier', name: 'Cashier', permissions: ['sell', 'orders.view', 'orders.complete'] },
+  { id: 'kitchen', name: 'Kitchen', permissions: ['orders.view', 'orders.complete'] },
+];
+
+// A view opens when the role holds any of its permissions; Inventory also hosts the settings cards.
+export const VIEW_PERMISSIONS: Record<View, Permission[]> = {
+  pos: ['sell'],
+  orders: ['orders.view'],
+  dashboard: ['dashboard.view'],
+  history: ['history.view'],
+  inventory: ['inventory.manage', 'settings.manage'],
+  audit: ['audit.view'],
+};
+
+const withAdmin = (roles: RoleDefinition[]): RoleDefinition[] => [
+  DEFAULT_ROLES[0],
+  ...roles.filter(r => r.id !== ADMIN_ROLE_ID).map(r => ({ ...r, permissions: r.permissions.filter(p => ALL_PERMISSIONS.includes(p)) })),
+];
+
+export const parseRolesConfig = (value: string | null): RoleDefinition[] => {
+  if (!value) return DEFAULT_ROLES;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? withAdmin(parsed) : DEFAULT_ROLES;
+  } catch (e) {
+    console.error('Invalid roles config', e);
+    return DEFAULT_ROLES;
+  }
+};
+
+/** Unknown roles, e.g. one deleted while someone was logged in with it, have no permissions. */
+export const hasPermission = (roles: RoleDefinition[], role: StaffRole | undefined, permission: Permission): boolean =>
+  !!roles.find(r => r.id === role)?.permissions.includes(permission);
+
+/** Views any of `roleIds` may open, in navigation order. */
+export const allowedViews = (roles: RoleDefinition[], ...roleIds: (StaffRole | undefined)[]): View[] =>
+  (Object.keys(VIEW_PERMISSIONS) as View[]).filter(view =>
+    VIEW_PERMISSIONS[view].some(p => roleIds.some(role => hasPermission(roles, role, p))));
+
+export const roleName = (roles: RoleDefinition[], role: StaffRole): string => roles.find(r => r.id === role)?.name || role;
+
+/** Whether `role` holds any permission `than` lacks, i.e. whether elevating to it changes anything. */
+export const grantsMoreThan = (roles: RoleDefinition[], role: StaffRole, than: StaffRole | undefined): boolean =>
+  !!roles.find(r => r.id === role)?.permissions.some(p => !hasPermission(roles, than, p));
@@ -0,0 +1,28 @@
+import type { Product } from '../types';
+
+// SKUs are typed by people and matched without regard to case; barcodes are read by machines and
+// matched exactly. Both are trimmed, and an empty code is stored as null.
+export const normalizeCode = (code?: string | null): string | null => code?.trim() || null;
+
+/** The product a scanned or typed code belongs to, by barcode first, then by SKU. */
+export const findProductByCode = (products: Product[], code: string): Product | null => {
+  const normalized = normalizeCode(code);
+  if (!normalized) return null;
+  const upper = normalized.toUpperCase();
+  return products.find(p => p.barcode === normalized)
+    || products.find(p => p.sku?.toUpperCase() === upper)
+    || null;
+};
+
+/** Says which other product already uses the SKU or barcode, if any. */
+export const findCodeConflict = (
+  products: Product[],
+  { id, sku, barcode }: Pick<Product, 'sku' | 'barcode'> & { id?: string },
+): string | null => {
+  const others = products.filter(p => p.id !== id);
+  const skuOwner = sku && others.find(p => p.sku?.toUpperCase() === sku.toUpperCase());
+  if (skuOwner) return `SKU ${sku} is already used by ${skuOwner.name}.`;
+  const barcodeOwner = barcode && others.find(p => p.barcode === barcode);
+  if (barcodeOwner) return `Barcode ${barcode} is already used by ${barcodeOwner.name}.`;
+  return null;
+};
@@ -0,0 +1,81 @@
+import type { Sale, SaleItem, SaleTax } from '../types';
+import { cartLineKey } from './modifiers';
+import { roundMoney } from './discounts';
+import type { TenderMethod } from './payments';
+
+// A refund as it will be recorded: every amount and quantity is negative.
+export interface RefundDraft {
+  items: SaleItem[];
+  total: number;
+  subtotal: number;
+  discount: number;
+  taxes: SaleTax[];
+  clearsSale: boolean; // Whether nothing of the sale is left to refund afterwards, i.e. it is now voided
+}
+
+export interface RefundRequest extends RefundDraft {
+  reason: string;
+  method: TenderMethod; // How the money goes back to the customer
+}
+
+const lineNet = (item: SaleItem) => item.price * item.quantity - (item.discount || 0);
+
+/** Refunds among `sales`, keyed by the id of the sale each one refunds. */
+export const groupRefunds = (sales: Sale[]): Map<string, Sale[]> => {
+  const refunds = new Map<string, Sale[]>();
+  sales.forEach(s => {
+    if (s.refund_of) refunds.set(s.refund_of, [...(refunds.get(s.refund_of) || []), s]);
+  });
+  return refunds;
+};
+
+/** How many of each line of `sale` are left to refund. Lines are matched by product and modifiers. */
+export const remainingQuantities = (sale: Sale, refunds: Sale[]): number[] => {
+  const refunded = new Map<string, number>();
+  refunds.flatMap(r => r.items).forEach(item => {
+    const key = cartLineKey(item);
+    refunded.set(key, (refunded.get(key) || 0) - item.quantity);
+  });
+  return sale.items.map(item => {
+    const key = cartLineKey(item);
+    const taken = Math.min(item.quantity, refunded.get(key) || 0);
+    refunded.set(key, (refunded.get(key) || 0) - taken);
+    return item.quantity - taken;
+  });
+};
+
+export const isFullyRefunded = (sale: Sale, refunds: Sale[]) =>
+  refunds.length > 0 && remainingQuantities(sale, refunds).every(q => q === 0);
+
+/**
+ * Refunds `quantities[i]` of each line of `sale`. The amount is the lines' share of what was charged,
+ * so order discounts and tax come back pro rata; the refund that clears the sale returns exactly
+ * what is left, so rounding never adds up to more than was paid.
+ */
+export const buildRefund = (sale: Sale, refunds: Sale[], quantities: number[]): RefundDraft => {
+  const remaining = remainingQuantities(sale, refunds);
+  const taken = remaining.map((left, i) => Math.max(0, Math.min(quantities[i] || 0, left)));
+  const items = sale.items.flatMap((item, i): SaleItem[] => {
+    if (taken[i] === 0) return [];
+    const { discount, ...line } = item;
+    const discountShare = roundMoney((discount || 0) * taken[i] / item.quantity);
+    return [{ ...line, quantity: -taken[i], ...(discountShare > 0 ? { discount: -discountShare } : {}) }];
+  });
+
+  const saleNet = sale.items.reduce((sum, item) => sum + lineNet(item), 0);
+  const refundNet = -items.reduce((sum, item) => sum + lineNet(item), 0);
+  const leftToRefund = roundMoney(sale.total + refunds.reduce((sum, r) => sum + r.total, 0));
+  const clearsSale = remaining.every((left, i) => left === taken[i]);
+  const share = saleNet > 0 ? refundNet / saleNet : 0;
+  const total = items.length === 0 ? 0 : clearsSale ? leftToRefund : Math.min(roundMoney(sale.total * share), leftToRefund);
+  const ratio = sale.total > 0 ? total / sale.total : share;
+
+  return {
+    items,
+    total: -total,
+    subtotal: -roundMoney((sale.subtotal ?? sale.total) * ratio),
+    discount: -roundMoney((sale.discount || 0) * ratio),
+    taxes: (sale.taxes || []).map(t => ({ ...t, taxable: -roundMoney(t.taxable * ratio), tax: -roundMoney(t.tax * ratio) })),
+    clearsSale: items.length > 0 && clearsSale,
+  };
+};
@@ -0,0 +1,86 @@
+import type { Sale } from '../types';
+import type { DataStore, DataStoreResult, SaleItemRecord, SaleRecord, SalesCursor, SalesQuery } from './dataStore';
+
+export const SALES_PAGE_SIZE = 50;
+// Exports and reports read a whole window, in larger pages so fewer round trips are needed.
+const EXPORT_PAGE_SIZE = 500;
+
+export type SalesFilter = Omit<SalesQuery, 'before' | 'limit'>;
+
+export const toSale = (record: SaleRecord, items: SaleItemRecord[]): Sale => ({
+  ...record,
+  items: items.map(item => ({
+    id: item.product_id, name: item.name, price: item.price, quantity: item.quantity,
+    modifiers: item.modifiers || undefined, discount: item.discount || undefined,
+  })),
+  status: record.status || 'Completed',
+  order_number: record.order_number || 0,
+});
+
+const byNewest = (a: Sale, b: Sale) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime();
+
+/** Local midnight at the start of `date`, as an ISO timestamp. */
+export const startOfDay = (date = new Date()): string => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start.toISOString();
+};
+
+/** The [from, to) window covering the local dates `fromDate` through `toDate` (YYYY-MM-DD), inclusive. */
+export const dateRangeWindow = (fromDate: string, toDate: string): Pick<SalesFilter, 'from' | 'to'> => {
+  const end = new Date(`${toDate}T00:00:00`);
+  end.setDate(end.getDate() + 1);
+  return { from: new Date(`${fromDate}T00:00:00`).toISOString(), to: end.toISOString() };
+};
+
+export const fetchSalesPage = async (
+  store: DataStore,
+  filter: SalesFilter,
+  before: SalesCursor | null = null,
+  limit = SALES_PAGE_SIZE,
+): Promise<DataStoreResult<{ sales: Sale[]; nextCursor: SalesCursor | null }>> => {
+  const { data, error } = await store.listSales({ ...filter, before, limit });
+  if (error || !data) return { data: null, error: error || { message: 'Unknown Error' } };
+
+  const itemsBySale = new Map<string, SaleItemRecord[]>();
+  data.items.forEach(item => itemsBySale.set(item.sale_id, [...(itemsBySale.get(item.sale_id) || []), item]));
+  return {
+    data: { sales: data.sales.map(s => toSale(s, itemsBySale.get(s.id) || [])), nextCursor: data.nextCursor },
+    error: null,
+  };
+};
+
+/** Every sale matching `filter`, read page by page. Meant for exports and reports over a bounded window. */
+export const fetchAllSales = async (store: DataStore, filter: SalesFilter): Promise<DataStoreResult<Sale[]>> => {
+  const sales: Sale[] = [];
+  let cursor: SalesCursor | null = null;
+  do {
+    const { data, error } = await fetchSalesPage(store, filter, cursor, EXPORT_PAGE_SIZE);
+    if (error || !data) return { data: null, error };
+    sales.push(...data.sales);
+    cursor = data.nextCursor;
+  } while (cursor);
+  return { data: sales, error: null };
+};
+
+const matchesFilter = (sale: Sale, { from, to, status, orderNumber, refundOf }: SalesFilter) => {
+  const time = new Date(sale.timestamp).getTime();
+  return (!from || time >= new Date(from).getTime())
+    && (!to || time < new Date(to).getTime())
+    && (!status || sale.status === status)
+    && (orderNumber === undefined || sale.order_number === orderNumber)
+    && (!refundOf || sale.refund_of === refundOf);
+};
+
+/**
+ * Overlays the sales held in memory (kept current by the sync engine, plus unsynced ones) on a
+ * fetched list, so recent changes show without refetching. Matched by id and by client id.
+ */
+export const mergeLiveSales = (fetched: Sale[], live: Sale[], filter: SalesFilter): Sale[] => {
+  // Every live sale replaces its fetched copy, even one that no longer matches and is dropped.
+  const liveIds = new Set(live.flatMap(s => (s.client_id ? [s.id, s.client_id] : [s.id])));
+  return [
+    ...live.filter(s => matchesFilter(s, filter)),
+    ...fetched.filter(s => !liveIds.has(s.id) && !(s.client_id && liveIds.has(s.client_id))),
+  ].sort(byNewest);
+};
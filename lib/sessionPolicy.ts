@@ -0,0 +1,33 @@
+import type { Session } from '../types';
+
+export interface SessionPolicy {
+  idleLockMinutes: number; // 0 never locks
+  maxSessionHours: number; // Logged out after this long, however active
+  elevationMinutes: number; // How long another staff member's PIN grants their role
+}
+
+// Stored as JSON under this `app_config` key.
+export const SESSION_POLICY_CONFIG_KEY = 'session_policy';
+
+export const DEFAULT_SESSION_POLICY: SessionPolicy = { idleLockMinutes: 5, maxSessionHours: 12, elevationMinutes: 5 };
+
+export const parseSessionPolicy = (value: string | null): SessionPolicy => {
+  if (!value) return DEFAULT_SESSION_POLICY;
+  try {
+    return { ...DEFAULT_SESSION_POLICY, ...JSON.parse(value) };
+  } catch (e) {
+    console.error('Invalid session policy', e);
+    return DEFAULT_SESSION_POLICY;
+  }
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export const minutesFromNow = (minutes: number) => new Date(Date.now() + minutes * MINUTE_MS).toISOString();
+
+/** Sessions saved before expiry existed are measured from their login. */
+export const getSessionExpiry = (session: Session, policy: SessionPolicy): number =>
+  session.expiresAt ? new Date(session.expiresAt).getTime() : new Date(session.loginTimestamp).getTime() + policy.maxSessionHours * 60 * MINUTE_MS;
+
+export const isElevated = (session: Session | null): boolean =>
+  !!session?.elevation && new Date(session.elevation.until).getTime() > Date.now();
@@ -0,0 +1,22 @@
+let audioContext: AudioContext | null = null;
+
+/**
+ * A short low buzz, so a cashier looking at the customer rather than the screen still notices a
+ * failed scan. Browsers only allow sound after the page has been interacted with, which a till
+ * always has been by the time anything is scanned.
+ */
+export const playErrorBeep = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = 'square';
+    oscillator.frequency.value = 220;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + 0.3);
+  } catch (e) {
+    console.error('Could not play error beep', e);
+  }
+};
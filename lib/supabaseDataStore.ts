@@ -0,0 +1,277 @@
+import type { StaffMember } from '../types';
+import type { ChangeOptions, DataStore, DataStoreError, DataStoreResult, RealtimeEvent, SaleItemRecord, StaffApproval, StaffInput, SyncRows, SyncTable } from './dataStore';
+import { NETWORK_ERROR_CODE, staffApprovalError } from './dataStore';
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+
+const REALTIME_TABLES: SyncTable[] = ['products', 'categories', 'sales', 'sale_items', 'held_carts'];
+
+// Everything clients may read; the PIN hash and attempt counter are not granted.
+const STAFF_COLUMNS = 'id, name, role, active, locked_until, updated_at';
+
+// Sentinel used to match every row in a mass delete, since PostgREST refuses unfiltered deletes.
+const NIL_UUID = '00000000-0000-0000-0000-000000000000';
+
+// supabase-js reports a failed fetch as a regular error whose message carries the browser's TypeError.
+const FETCH_FAILURE_PATTERN = /Failed to fetch|NetworkError|Load failed|fetch failed/i;
+
+const toError = (error: { message: string; code?: string } | null): DataStoreError | null => {
+  if (!error) return null;
+  if (!navigator.onLine || FETCH_FAILURE_PATTERN.test(error.message)) {
+    return { message: error.message, code: NETWORK_ERROR_CODE };
+  }
+  return { message: error.message, code: error.code };
+};
+
+const toResult = <T,>({ data, error }: { data: T | null; error: { message: string; code?: string } | null }): DataStoreResult<T> => ({
+  data: error ? null : data,
+  error: toError(error),
+});
+
+const latest = (timestamps: (string | undefined)[]): string | null =>
+  timestamps.reduce<string | null>((max, t) => (t && (!max || new Date(t) > new Date(max)) ? t : max), null);
+
+const toEmptyResult = ({ error }: { error: { message: string; code?: string } | null }): DataStoreResult<null> => ({
+  data: null,
+  error: toError(error),
+});
+
+// PostgREST caps every response at the project's max rows (1000 by default), so longer reads are
+// made page by page until a short page comes back. Must not exceed that cap.
+const PAGE_SIZE = 1000;
+
+type RowsResult<T> = { data: T[] | null; error: { message: string; code?: string } | null };
+
+// `fetchPage` builds a fresh query for the given inclusive range; it must order rows stably.
+const fetchAllPages = async <T,>(fetchPage: (from: number, to: number) => PromiseLike<RowsResult<T>>): Promise<RowsResult<T>> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error || !data) return { data: null, error };
+    rows.push(...data);
+    if (data.length < PAGE_SIZE) return { data: rows, error: null };
+  }
+};
+
+const selectColumns = (table: SyncTable) => (table === 'products' ? '*, categories(name)' : '*');
+
+// A full load of sales and their items would grow without bound, so it is limited to the active window.
+// Items are read with their sale embedded so the query can filter on it; the embed is dropped afterwards.
+type EmbeddedSaleItem = SaleItemRecord & { sales: unknown };
+
+const fetchAllRows = async <K extends SyncTable>(
+  client: SupabaseClient, table: K, { salesSince }: ChangeOptions,
+): Promise<RowsResult<SyncRows[K]>> => {
+  if (!salesSince || (table !== 'sales' && table !== 'sale_items')) {
+    return fetchAllPages((from, to) => client.from(table).select(selectColumns(table)).order('id').range(from, to)
+      .overrideTypes<SyncRows[K][], { merge: false }>());
+  }
+  if (table === 'sales') {
+    return fetchAllPages((from, to) =>
+      client.from('sales').select('*').or(`status.eq.Pending,timestamp.gte."${salesSince}"`).order('id').range(from, to)
+        .overrideTypes<SyncRows[K][], { merge: false }>());
+  }
+
+  // Filtering through the embedded sale avoids sending a list of sale ids.
+  const [recent, pending] = await Promise.all([
+    fetchAllPages((from, to) =>
+      client.from('sale_items').select('*, sales!inner(timestamp)').gte('sales.timestamp', salesSince).order('id').range(from, to)
+        .overrideTypes<EmbeddedSaleItem[], { merge: false }>()),
+    fetchAllPages((from, to) =>
+      client.from('sale_items').select('*, sales!inner(status)').eq('sales.status', 'Pending').order('id').range(from, to)
+        .overrideTypes<EmbeddedSaleItem[], { merge: false }>()),
+  ]);
+  if (recent.error || pending.error) return { data: null, error: recent.error ?? pending.error };
+  const items = new Map<string, SaleItemRecord>();
+  [...recent.data!, ...pending.data!].forEach(({ sales, ...item }) => items.set(item.id, item));
+  // Only 'sale_items' gets here, but checking `table` does not narrow K.
+  return { data: [...items.values()] as SyncRows[K][], error: null };
+};
+
+// Staff are written only through save_staff(), which checks the approver's PIN and role first.
+const saveStaff = async (client: SupabaseClient, id: string | null, staff: Partial<StaffInput>, approval: StaffApproval): Promise<DataStoreResult<StaffMember>> => {
+  const { data, error } = await client.rpc('save_staff', {
+    p_approver_id: approval.staffId,
+    p_approver_pin: approval.pin,
+    p_staff_id: id,
+    p_name: staff.name ?? null,
+    p_role: staff.role ?? null,
+    p_active: staff.active ?? null,
+    p_pin: staff.pin ?? null,
+  });
+  if (error) return { data: null, error: toError(error) };
+  if (data.saved) return { data: data.saved, error: null };
+  return {
+    data: null,
+    error: staffApprovalError(data.denied ? null : { lockedUntil: data.locked_until, attemptsLeft: data.attempts_left }),
+  };
+};
+
+export const createSupabaseDataStore = (client: SupabaseClient): DataStore => ({
+  kind: 'supabase',
+
+  fetchChanges: async (table, since, options = {}) => {
+    // Changes are never narrowed to the window: a sale from an earlier day may still be completed today.
+    const rowsResult = since
+      ? await fetchAllPages((from, to) => client.from(table).select(selectColumns(table)).gte('updated_at', since).order('id').range(from, to)
+        .overrideTypes<SyncRows[typeof table][], { merge: false }>())
+      : await fetchAllRows(client, table, options);
+    if (rowsResult.error || !rowsResult.data) return { data: null, error: toError(rowsResult.error) };
+
+    // Tombstones are written by a delete trigger; a full load has nothing to remove yet.
+    let deleted: { row_id: string; deleted_at: string }[] = [];
+    if (since) {
+      const deletedResult = await fetchAllPages((from, to) => client
+        .from('deleted_rows').select('row_id, deleted_at').eq('table_name', table).gte('deleted_at', since).order('row_id').range(from, to));
+      if (deletedResult.error || !deletedResult.data) return { data: null, error: toError(deletedResult.error) };
+      deleted = deletedResult.data;
+    }
+
+    return {
+      data: {
+        rows: rowsResult.data,
+        deletedIds: deleted.map(d => d.row_id),
+        cursor: latest([...rowsResult.data.map((r: { updated_at?: string }) => r.updated_at), ...deleted.map(d => d.deleted_at)]),
+      },
+      error: null,
+    };
+  },
+
+  subscribe: (onEvent, onStatus) => {
+    onStatus('connecting');
+    const channel = REALTIME_TABLES.reduce(
+      (ch, table) => ch.on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<Record<string, unknown>>) => {
+        // Pushed rows have the table's own shape, as pulled ones do.
+        const event = (payload.eventType === 'DELETE'
+          ? { table, type: 'delete', id: String(payload.old.id) }
+          : { table, type: 'upsert', row: payload.new }) as RealtimeEvent;
+        onEvent(event);
+      }),
+      client.channel('pos-changes'),
+    );
+    channel.subscribe((status: string) => {
+      if (status === 'SUBSCRIBED') onStatus('connected');
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') onStatus('disconnected');
+    });
+    return () => {
+      client.removeChannel(channel);
+    };
+  },
+
+  insertProduct: async (product) => toResult(await client.from('products').insert(product).select().single()),
+  updateProduct: async (id, product) => toEmptyResult(await client.from('products').update(product).eq('id', id)),
+  deleteProduct: async (id) => toEmptyResult(await client.from('products').delete().eq('id', id)),
+  adjustStock: async ({ productId, delta, reason, saleId, note, clientRef }) =>
+    toResult(await client.rpc('adjust_stock', {
+      p_product_id: productId,
+      p_delta: delta,
+      p_reason: reason,
+      p_sale_id: saleId ?? null,
+      p_note: note ?? null,
+      p_client_ref: clientRef ?? null,
+    })),
+  listStockMovements: async (productId) =>
+    toResult(await client.from('stock_movements').select('*').eq('product_id', productId).order('created_at', { ascending: false })),
+
+  insertCategory: async (category) => toResult(await client.from('categories').insert(category).select().single()),
+  updateCategory: async (id, category) => toEmptyResult(await client.from('categories').update(category).eq('id', id)),
+  deleteCategory: async (id) => toEmptyResult(await client.from('categories').delete().eq('id', id)),
+
+  listSales: async ({ from, to, status, orderNumber, refundOf, before, limit }) => {
+    // Items are embedded rather than fetched by a list of sale ids, which would not fit in a URL for a full page.
+    let query = client.from('sales').select('*, sale_items(*)');
+    if (from) query = query.gte('timestamp', from);
+    if (to) query = query.lt('timestamp', to);
+    if (status) query = query.eq('status', status);
+    if (orderNumber !== undefined) query = query.eq('order_number', orderNumber);
+    if (refundOf) query = query.eq('refund_of', refundOf);
+    if (before) {
+      query = query.or(`timestamp.lt."${before.timestamp}",and(timestamp.eq."${before.timestamp}",id.lt.${before.id})`);
+    }
+    // One extra row tells whether another page follows.
+    const salesResult = await query.order('timestamp', { ascending: false }).order('id', { ascending: false }).limit(limit + 1);
+    if (salesResult.error) return { data: null, error: toError(salesResult.error) };
+
+    const rows = salesResult.data.slice(0, limit);
+    const saleRows = rows.filter((s: { status: string }) => s.status !== 'Draft');
+    const last = rows[rows.length - 1];
+
+    return {
+      data: {
+        sales: saleRows.map(({ sale_items, ...sale }) => sale),
+        items: saleRows.flatMap(s => s.sale_items),
+        nextCursor: salesResult.data.length > limit ? { timestamp: last.timestamp, id: last.id } : null,
+      },
+      error: null,
+    };
+  },
+  listSaleItems: async (saleIds) => {
+    if (saleIds.length === 0) return { data: [], error: null };
+    return toResult(await client.from('sale_items').select('*').in('sale_id', saleIds));
+  },
+  allocateOrderNumber: async () => toResult(await client.rpc('next_order_number').single()),
+  reserveOrderNumber: async (scope, orderNumber) =>
+    toEmptyResult(await client.rpc('reserve_order_number', { p_scope: scope, p_number: orderNumber })),
+  findSaleByClientId: async (clientId) =>
+    toResult(await client.from('sales').select('*').eq('client_id', clientId).maybeSingle()),
+  insertSale: async (sale) => toResult(await client.from('sales').insert(sale).select().single()),
+  insertSaleItems: async (items) => toEmptyResult(await client.from('sale_items').insert(items)),
+  updateSale: async (id, patch) => toEmptyResult(await client.from('sales').update(patch).eq('id', id)),
+  deleteAllSales: async () => {
+    const itemsResult = await client.from('sale_items').delete().neq('sale_id', NIL_UUID);
+    if (itemsResult.error) return toEmptyResult(itemsResult);
+    return toEmptyResult(await client.from('sales').delete().neq('id', NIL_UUID));
+  },
+
+  listStaff: async () => toResult(await client.from('staff').select(STAFF_COLUMNS).order('name')),
+  verifyStaffPin: async (staffId, pin) => {
+    const { data, error } = await client.rpc('verify_staff_pin', { p_staff_id: staffId, p_pin: pin });
+    if (error) return { data: null, error: toError(error) };
+    return { data: { staff: data.staff, lockedUntil: data.locked_until, attemptsLeft: data.attempts_left }, error: null };
+  },
+  insertStaff: (staff, approval) => saveStaff(client, null, staff, approval),
+  updateStaff: async (id, staff, approval) => {
+    const { error } = await saveStaff(client, id, staff, approval);
+    return { data: null, error };
+  },
+
+  listPromoCodes: async () => toResult(await client.from('promo_codes').select('*').order('code')),
+  insertPromoCode: async (promo) => toResult(await client.from('promo_codes').insert(promo).select().single()),
+  updatePromoCode: async (id, promo) => toEmptyResult(await client.from('promo_codes').update(promo).eq('id', id)),
+
+  insertHeldCart: async (cart) => toResult(await client.from('held_carts').insert(cart).select().single()),
+  // Deleting and returning in one statement means only one terminal gets the cart back.
+  claimHeldCart: async (id) => toResult(await client.from('held_carts').delete().eq('id', id).select().maybeSingle()),
+
+  insertAuditEntry: async (entry) => toEmptyResult(await client.from('audit_log').insert(entry)),
+  listAuditEntries: async ({ from, to, action, actorId, before, limit }) => {
+    let query = client.from('audit_log').select('*');
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lt('created_at', to);
+    if (action) query = query.eq('action', action);
+    if (actorId) query = query.eq('actor_id', actorId);
+    if (before) {
+      query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+    }
+    return toResult(await query.order('created_at', { ascending: false }).order('id', { ascending: false }).limit(limit));
+  },
+
+  reportDevice: async ({ deviceId, userAgent, staffId, staffName, isLocked }) =>
+    toResult(await client.rpc('report_device', {
+      p_device_id: deviceId,
+      p_user_agent: userAgent,
+      p_staff_id: staffId,
+      p_staff_name: staffName,
+      p_is_locked: isLocked,
+    })),
+  listDevices: async () => toResult(await client.from('devices').select('*').order('last_seen_at', { ascending: false })),
+  renameDevice: async (id, name) => toEmptyResult(await client.from('devices').update({ name }).eq('id', id)),
+  sendDeviceCommand: async (id, command) => toEmptyResult(await client.from('devices').update({ pending_command: command }).eq('id', id)),
+
+  getConfigValue: async (key) => {
+    const { data, error } = await client.from('app_config').select('value').eq('key', key).maybeSingle();
+    return { data: error ? null : data?.value ?? null, error: toError(error) };
+  },
+  setConfigValue: async (key, value) =>
+    toEmptyResult(await client.from('app_config').upsert({ key, value }, { onConflict: 'key' })),
+  triggerGlobalLogout: async () => toEmptyResult(await client.rpc('update_global_logout_timestamp')),
+});
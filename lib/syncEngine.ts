@@ -0,0 +1,228 @@
+import type { Category, HeldCart, Product, Sale } from '../types';
+import type { DataStore, DataStoreError, RealtimeEvent, RealtimeStatus, SaleItemRecord, SyncRows, SyncTable } from './dataStore';
+import { startOfDay, toSale } from './salesHistory';
+
+const SYNC_TABLES: SyncTable[] = ['products', 'categories', 'sales', 'sale_items', 'held_carts'];
+
+const VISIBLE_INTERVAL_MS = 2000;
+const HIDDEN_INTERVAL_MS = 30000;
+const MAX_BACKOFF_MS = 60000;
+// Rows are stamped when their transaction starts but only become visible when it commits, so
+// each pull reaches a little behind the cursor. Merging is idempotent, so overlap is harmless.
+const CURSOR_OVERLAP_MS = 10000;
+// A sale and its items arrive as separate events; a short pause lets them land in one snapshot.
+const EVENT_BATCH_MS = 100;
+
+/** 'live' while pushed changes arrive, 'polling' while falling back to pulls, 'offline' while pulls fail. */
+export type ConnectionStatus = 'live' | 'polling' | 'offline';
+
+export interface SyncSnapshot {
+  products: Product[];
+  categories: Category[];
+  sales: Sale[];
+  heldCarts: HeldCart[]; // Oldest first, the order customers are usually served in
+}
+
+interface SyncEngineOptions {
+  onChange: (snapshot: SyncSnapshot) => void;
+  onError: (table: SyncTable, error: DataStoreError, isInitialLoad: boolean) => void;
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+export interface SyncEngine {
+  /** Loads every table once, then follows pushed changes, pulling only while the push channel is down. */
+  start(): Promise<void>;
+  stop(): void;
+  /** Pulls changes immediately; concurrent calls share the same pull. */
+  syncNow(): Promise<void>;
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// Only today's and pending orders are kept live; older ones are paged in by the views that need them.
+const isLiveSale = (sale: SyncRows['sales'], windowStart: number) =>
+  (sale.status as string) !== 'Draft' && (sale.status === 'Pending' || new Date(sale.timestamp).getTime() >= windowStart);
+
+export const createSyncEngine = (store: DataStore, { onChange, onError, onStatusChange }: SyncEngineOptions): SyncEngine => {
+  const rows: { [K in SyncTable]: Map<string, SyncRows[K]> } = {
+    products: new Map(),
+    categories: new Map(),
+    sales: new Map(),
+    sale_items: new Map(),
+    held_carts: new Map(),
+  };
+  const cursors: Partial<Record<SyncTable, string>> = {};
+  let isRunning = false;
+  let hasLoaded = false;
+  let consecutiveFailures = 0;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> | null = null;
+  let realtimeStatus: RealtimeStatus = 'connecting';
+  let connectionStatus: ConnectionStatus | null = null;
+  let unsubscribe: (() => void) | null = null;
+  let batchTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const updateConnectionStatus = () => {
+    const next: ConnectionStatus = realtimeStatus === 'connected' ? 'live' : consecutiveFailures > 0 ? 'offline' : 'polling';
+    if (next !== connectionStatus) {
+      connectionStatus = next;
+      onStatusChange?.(next);
+    }
+  };
+
+  const snapshot = (): SyncSnapshot => {
+    const categories = [...rows.categories.values()].sort(byName);
+    const categoryNames = new Map(categories.map(c => [c.id, c.name]));
+    // Rebuild the joined category name, since a renamed category does not touch its products.
+    const products = [...rows.products.values()]
+      .map(p => ({ ...p, categories: p.category_id && categoryNames.has(p.category_id) ? { name: categoryNames.get(p.category_id)! } : null }))
+      .sort(byName);
+
+    const itemsBySale = new Map<string, SaleItemRecord[]>();
+    rows.sale_items.forEach(item => {
+      itemsBySale.set(item.sale_id, [...(itemsBySale.get(item.sale_id) || []), item]);
+    });
+    const windowStart = new Date(startOfDay()).getTime();
+    const sales = [...rows.sales.values()]
+      .filter(s => isLiveSale(s, windowStart))
+      .map(s => toSale(s, itemsBySale.get(s.id) || []))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const heldCarts = [...rows.held_carts.values()].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    return { products, categories, sales, heldCarts };
+  };
+
+  const mergeRow = <K extends SyncTable>(table: K, row: SyncRows[K]): boolean => {
+    const tableRows = rows[table] as Map<string, SyncRows[K]>;
+    const existing = tableRows.get(row.id);
+    if (existing && row.updated_at && existing.updated_at === row.updated_at) return false;
+    tableRows.set(row.id, row);
+    return true;
+  };
+
+  // Deltas also bring in older sales that were edited, and the window moves on at midnight, so sales
+  // that have left it are dropped along with their items. Items are written after their sale, so an
+  // item whose sale is not held belongs to one outside the window.
+  const pruneSales = () => {
+    const windowStart = new Date(startOfDay()).getTime();
+    rows.sales.forEach((sale, id) => {
+      if (!isLiveSale(sale, windowStart)) rows.sales.delete(id);
+    });
+    rows.sale_items.forEach((item, id) => {
+      if (!rows.sales.has(item.sale_id)) rows.sale_items.delete(id);
+    });
+  };
+
+  const pullTable = async <K extends SyncTable>(table: K): Promise<{ changed: boolean; failed: boolean }> => {
+    const cursor = cursors[table];
+    const since = cursor ? new Date(new Date(cursor).getTime() - CURSOR_OVERLAP_MS).toISOString() : null;
+    const { data, error } = await store.fetchChanges(table, since, { salesSince: startOfDay() });
+    if (error || !data) {
+      onError(table, error || { message: 'Unknown Error' }, !hasLoaded);
+      return { changed: false, failed: true };
+    }
+
+    let changed = !cursor; // The first load always produces a snapshot, even for empty tables.
+    data.rows.forEach(row => {
+      if (mergeRow(table, row)) changed = true;
+    });
+    data.deletedIds.forEach(id => {
+      if (rows[table].delete(id)) changed = true;
+    });
+    if (data.cursor && (!cursor || data.cursor > cursor)) cursors[table] = data.cursor;
+
+    return { changed, failed: false };
+  };
+
+  const sync = async () => {
+    const results = await Promise.all(SYNC_TABLES.map(pullTable));
+    consecutiveFailures = results.some(r => r.failed) ? consecutiveFailures + 1 : 0;
+    pruneSales();
+    if (results.some(r => r.changed)) onChange(snapshot());
+    hasLoaded = true;
+    updateConnectionStatus();
+  };
+
+  const syncNow = () => {
+    if (!inFlight) {
+      inFlight = sync().finally(() => { inFlight = null; });
+    }
+    return inFlight;
+  };
+
+  // Unlike `syncNow`, never joins a pull that started before the caller's reason to pull.
+  const resync = () => (inFlight || Promise.resolve()).then(syncNow);
+
+  // Slow down while the tab is hidden and back off exponentially while the backend keeps failing.
+  const nextDelay = () => {
+    if (document.hidden) return HIDDEN_INTERVAL_MS;
+    return Math.min(VISIBLE_INTERVAL_MS * 2 ** consecutiveFailures, MAX_BACKOFF_MS);
+  };
+
+  const schedule = () => {
+    clearTimeout(timeoutId);
+    if (!isRunning || realtimeStatus === 'connected') return;
+    timeoutId = setTimeout(async () => {
+      await syncNow();
+      schedule();
+    }, nextDelay());
+  };
+
+  const handleEvent = (event: RealtimeEvent) => {
+    if (event.type === 'invalidate') {
+      resync();
+      return;
+    }
+    const changed = event.type === 'delete'
+      ? rows[event.table].delete(event.id)
+      : mergeRow(event.table, event.row);
+    if (!changed || !hasLoaded) return;
+    clearTimeout(batchTimeoutId);
+    batchTimeoutId = setTimeout(() => {
+      pruneSales();
+      onChange(snapshot());
+    }, EVENT_BATCH_MS);
+  };
+
+  const handleRealtimeStatus = (status: RealtimeStatus) => {
+    const wasConnected = realtimeStatus === 'connected';
+    realtimeStatus = status;
+    updateConnectionStatus();
+    if (!isRunning) return;
+    if (status === 'connected' && !wasConnected) {
+      // Anything written while the channel was down was never pushed, so pull it once.
+      clearTimeout(timeoutId);
+      resync();
+    } else if (status !== 'connected' && wasConnected) {
+      schedule();
+    }
+  };
+
+  const handleVisibilityChange = () => {
+    if (document.hidden || !isRunning) return;
+    // Catch up straight away when the cashier comes back to the tab.
+    syncNow().then(schedule);
+  };
+
+  return {
+    start: async () => {
+      isRunning = true;
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+      // Subscribe before the first load, so nothing written in between is missed.
+      unsubscribe = store.subscribe(handleEvent, handleRealtimeStatus);
+      await syncNow();
+      schedule();
+    },
+    stop: () => {
+      isRunning = false;
+      clearTimeout(timeoutId);
+      clearTimeout(batchTimeoutId);
+      unsubscribe?.();
+      unsubscribe = null;
+      realtimeStatus = 'connecting';
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    },
+    syncNow,
+  };
+};
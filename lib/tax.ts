@@ -0,0 +1,106 @@
+import type { Category, Product, Sale, SaleTax, TaxRate } from '../types';
+import { roundMoney } from './discounts';
+
+export interface TaxConfig {
+  pricesIncludeTax: boolean; // Inclusive prices keep the total as priced; exclusive ones add tax on top
+  rates: TaxRate[];
+  defaultRateId: string | null; // Applies to products and categories without a rate of their own
+}
+
+// Stored as JSON under this `app_config` key.
+export const TAX_CONFIG_KEY = 'tax';
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = { pricesIncludeTax: true, rates: [], defaultRateId: null };
+
+// Set on a product or category that is not taxed, as opposed to null, which follows the level above.
+export const TAX_EXEMPT = 'exempt';
+
+export const parseTaxConfig = (value: string | null): TaxConfig => {
+  if (!value) return DEFAULT_TAX_CONFIG;
+  try {
+    return { ...DEFAULT_TAX_CONFIG, ...JSON.parse(value) };
+  } catch (e) {
+    console.error('Invalid tax config', e);
+    return DEFAULT_TAX_CONFIG;
+  }
+};
+
+/**
+ * The product's own rate, else its category's, else the default; null when none applies. A rate
+ * that has since been removed counts as unset, so the product falls back instead of going untaxed.
+ */
+export const resolveTaxRate = (
+  config: TaxConfig,
+  categories: Category[],
+  product: Pick<Product, 'tax_rate_id' | 'category_id'>,
+): TaxRate | null => {
+  const known = (id?: string | null) => (id === TAX_EXEMPT || config.rates.some(r => r.id === id) ? id : null);
+  const categoryRateId = categories.find(c => c.id === product.category_id)?.tax_rate_id;
+  const rateId = known(product.tax_rate_id) || known(categoryRateId) || config.defaultRateId;
+  return config.rates.find(r => r.id === rateId) || null;
+};
+
+export interface TaxLine {
+  amount: number; // What the line comes to as priced, after discounts
+  rate: TaxRate | null;
+}
+
+export interface TaxBreakdown {
+  subtotal: number;
+  taxes: SaleTax[];
+  total: number;
+}
+
+/** Tax is worked out once per rate on the lines' combined amount, so rounding happens once per rate. */
+export const calculateTaxes = (lines: TaxLine[], inclusive: boolean): TaxBreakdown => {
+  const byRate = new Map<string, { rate: TaxRate; amount: number }>();
+  lines.forEach(({ amount, rate }) => {
+    if (!rate || rate.rate <= 0) return;
+    const entry = byRate.get(rate.id) || { rate, amount: 0 };
+    byRate.set(rate.id, { ...entry, amount: entry.amount + amount });
+  });
+
+  const taxes: SaleTax[] = [...byRate.values()].map(({ rate, amount }) => {
+    const tax = roundMoney(inclusive ? amount - amount / (1 + rate.rate / 100) : (amount * rate.rate) / 100);
+    return { rate_id: rate.id, name: rate.name, rate: rate.rate, inclusive, taxable: roundMoney(inclusive ? amount - tax : amount), tax };
+  });
+
+  const asPriced = roundMoney(lines.reduce((sum, line) => sum + line.amount, 0));
+  const taxTotal = roundMoney(taxes.reduce((sum, t) => sum + t.tax, 0));
+  const subtotal = roundMoney(inclusive ? asPriced - taxTotal : asPriced);
+  return { subtotal, taxes, total: roundMoney(subtotal + taxTotal) };
+};
+
+export const saleTaxTotal = (sale: Pick<Sale, 'taxes'>) => roundMoney((sale.taxes || []).reduce((sum, t) => sum + t.tax, 0));
+
+export interface TaxSummaryRow {
+  name: string;
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
+export const NO_TAX_LABEL = 'No tax';
+
+/**
+ * Taxable value and tax per rate across `sales`, for the accountant. Whatever was not taxed,
+ * including sales made before tax was configured, is totalled under "No tax".
+ */
+export const summarizeTaxes = (sales: Sale[]): TaxSummaryRow[] => {
+  const rows = new Map<string, TaxSummaryRow>();
+  let untaxed = 0;
+  sales.forEach(sale => {
+    const taxes = sale.taxes || [];
+    taxes.forEach(t => {
+      const key = `${t.name}|${t.rate}`;
+      const row = rows.get(key) || { name: t.name, rate: t.rate, taxable: 0, tax: 0 };
+      rows.set(key, { ...row, taxable: row.taxable + t.taxable, tax: row.tax + t.tax });
+    });
+    untaxed += (sale.subtotal ?? sale.total) - taxes.reduce((sum, t) => sum + t.taxable, 0);
+  });
+
+  const summary = [...rows.values()]
+    .map(row => ({ ...row, taxable: roundMoney(row.taxable), tax: roundMoney(row.tax) }))
+    .sort((a, b) => a.rate - b.rate || a.name.localeCompare(b.name));
+  return roundMoney(untaxed) > 0 ? [...summary, { name: NO_TAX_LABEL, rate: 0, taxable: roundMoney(untaxed), tax: 0 }] : summary;
+};
@@ -0,0 +1,43 @@
+export interface UpiConfig {
+  vpa: string; // The payee's UPI ID, e.g. "pyjcafe@okaxis"; empty until set up
+  payeeName: string;
+}
+
+// Stored as JSON under this `app_config` key.
+export const UPI_CONFIG_KEY = 'upi';
+
+export const DEFAULT_UPI_CONFIG: UpiConfig = { vpa: '', payeeName: '' };
+
+export const parseUpiConfig = (value: string | null): UpiConfig => {
+  if (!value) return DEFAULT_UPI_CONFIG;
+  try {
+    return { ...DEFAULT_UPI_CONFIG, ...JSON.parse(value) };
+  } catch (e) {
+    console.error('Invalid UPI config', e);
+    return DEFAULT_UPI_CONFIG;
+  }
+};
+
+/** "name@bank": a handle of letters, digits, dots, dashes or underscores, then the bank's. */
+export const isValidVpa = (vpa: string) => /^[\w.-]{2,256}@[a-zA-Z][\w.-]{1,63}$/.test(vpa.trim());
+
+/**
+ * The `upi://pay` link a UPI app opens from a QR, with the amount filled in so the customer only
+ * has to confirm. `note` shows up in both parties' statements.
+ */
+export const buildUpiUri = (config: UpiConfig, amount: number, note: string): string => {
+  const params = [
+    ['pa', config.vpa.trim()],
+    ['pn', config.payeeName.trim()],
+    ['am', amount.toFixed(2)],
+    ['cu', 'INR'],
+    ['tn', note],
+  ].filter(([, value]) => value);
+  return `upi://pay?${params.map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&')}`;
+};
+
+/** Several references, one per UPI payment of a split sale, are kept as "ref1, ref2". */
+export const joinUpiRefs = (refs: (string | undefined)[]): string | null => {
+  const kept = refs.map(ref => ref?.trim()).filter(Boolean);
+  return kept.length > 0 ? kept.join(', ') : null;
+};
@@ -0,0 +1,4 @@
+-- Idempotency key for sales captured offline. The unique constraint is what guarantees a
+-- replayed sale is never inserted twice, even if two tabs replay the same queue.
+alter table public.sales add column if not exists client_id uuid;
+create unique index if not exists sales_client_id_key on public.sales (client_id);
@@ -0,0 +1,72 @@
+-- Order numbers are allocated by the database so concurrent terminals can never draw the same one.
+-- Numbering is configured by the JSON `order_numbering` key in app_config:
+--   { "reset": "never" | "daily" | "event", "prefix": "A-", "event": "Youth Fest", "timezone": "Asia/Kolkata" }
+
+alter table public.sales add column if not exists order_prefix text;
+alter table public.sales add column if not exists order_scope text;
+
+create table if not exists public.order_counters (
+  scope text primary key,
+  last_value integer not null default 0
+);
+
+create or replace function public.order_numbering_config()
+returns jsonb
+language sql stable
+set search_path = public
+as $$
+  select coalesce((select value::jsonb from app_config where key = 'order_numbering'), '{}'::jsonb);
+$$;
+
+-- Must stay in sync with getOrderScope() in lib/orderNumber.ts.
+create or replace function public.current_order_scope()
+returns text
+language sql stable
+set search_path = public
+as $$
+  select case c->>'reset'
+    when 'daily' then 'day:' || to_char(now() at time zone coalesce(c->>'timezone', 'Asia/Kolkata'), 'YYYY-MM-DD')
+    when 'event' then 'event:' || coalesce(nullif(btrim(c->>'event'), ''), 'default')
+    else 'all'
+  end
+  from order_numbering_config() as c;
+$$;
+
+create or replace function public.next_order_number()
+returns table (order_number integer, order_prefix text, order_scope text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_scope text := current_order_scope();
+  v_next integer;
+begin
+  -- The upsert takes a row lock, so concurrent callers are serialised on the counter.
+  -- The global sequence starts after the highest number recorded before counters existed.
+  insert into order_counters as oc (scope, last_value)
+  values (
+    v_scope,
+    case when v_scope = 'all' then coalesce((select max(s.order_number) from sales s), 0) + 1 else 1 end
+  )
+  on conflict (scope) do update set last_value = oc.last_value + 1
+  returning oc.last_value into v_next;
+
+  return query select v_next, nullif(order_numbering_config()->>'prefix', ''), v_scope;
+end;
+$$;
+
+-- Called when an offline sale is replayed, so its provisional number is never handed out again.
+create or replace function public.reserve_order_number(p_scope text, p_number integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into order_counters as oc (scope, last_value)
+  values (p_scope, p_number)
+  on conflict (scope) do update set last_value = greatest(oc.last_value, excluded.last_value);
+$$;
+
+grant execute on function public.next_order_number() to anon, authenticated;
+grant execute on function public.reserve_order_number(text, integer) to anon, authenticated;
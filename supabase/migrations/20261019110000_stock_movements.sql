@@ -0,0 +1,55 @@
+-- Stock only changes through adjust_stock(), which applies a relative delta to the stored value
+-- and records the movement in the same transaction, so concurrent terminals cannot overwrite
+-- each other.
+
+create table if not exists public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  delta integer not null,
+  reason text not null check (reason in ('sale', 'refund', 'adjustment', 'restock')),
+  stock_after integer not null,
+  sale_id uuid references public.sales (id) on delete set null,
+  note text,
+  -- Idempotency key for replayed offline sales: "<sale client_id>:<product id>".
+  client_ref text unique,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_created_at_idx
+  on public.stock_movements (product_id, created_at desc);
+
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_delta integer,
+  p_reason text,
+  p_sale_id uuid default null,
+  p_note text default null,
+  p_client_ref text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_stock integer;
+begin
+  if p_client_ref is not null and exists (select 1 from stock_movements where client_ref = p_client_ref) then
+    select stock into v_stock from products where id = p_product_id;
+    return v_stock;
+  end if;
+
+  update products set stock = stock + p_delta where id = p_product_id returning stock into v_stock;
+  -- The product was deleted in the meantime; there is nothing left to adjust.
+  if not found then
+    return null;
+  end if;
+
+  insert into stock_movements (product_id, delta, reason, stock_after, sale_id, note, client_ref)
+  values (p_product_id, p_delta, p_reason, v_stock, p_sale_id, p_note, p_client_ref);
+
+  return v_stock;
+end;
+$$;
+
+grant execute on function public.adjust_stock(uuid, integer, text, uuid, text, text) to anon, authenticated;
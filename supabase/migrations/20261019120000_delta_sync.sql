@@ -0,0 +1,51 @@
+-- Incremental sync: every synced table carries an `updated_at` stamp, and deletes leave a
+-- tombstone in `deleted_rows`, so clients can ask for "everything changed since <cursor>".
+
+create or replace function public.touch_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+create table if not exists public.deleted_rows (
+  table_name text not null,
+  row_id text not null,
+  deleted_at timestamptz not null default clock_timestamp(),
+  primary key (table_name, row_id)
+);
+
+create index if not exists deleted_rows_table_name_deleted_at_idx on public.deleted_rows (table_name, deleted_at);
+
+create or replace function public.record_deleted_row()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into deleted_rows (table_name, row_id) values (tg_table_name, old.id::text)
+  on conflict (table_name, row_id) do update set deleted_at = excluded.deleted_at;
+  return old;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['products', 'categories', 'sales', 'sale_items'] loop
+    execute format('alter table public.%I add column if not exists updated_at timestamptz not null default clock_timestamp()', t);
+    execute format('create index if not exists %I on public.%I (updated_at)', t || '_updated_at_idx', t);
+    execute format('drop trigger if exists touch_updated_at on public.%I', t);
+    execute format('create trigger touch_updated_at before update on public.%I for each row execute function public.touch_updated_at()', t);
+    execute format('drop trigger if exists record_deleted_row on public.%I', t);
+    execute format('create trigger record_deleted_row after delete on public.%I for each row execute function public.record_deleted_row()', t);
+  end loop;
+end;
+$$;
+
+grant select on public.deleted_rows to anon, authenticated;
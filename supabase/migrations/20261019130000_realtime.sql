@@ -0,0 +1,6 @@
+-- Push row changes to connected terminals over Supabase Realtime.
+-- Deletes only need the primary key, which the default replica identity already carries.
+alter publication supabase_realtime add table public.products;
+alter publication supabase_realtime add table public.categories;
+alter publication supabase_realtime add table public.sales;
+alter publication supabase_realtime add table public.sale_items;
@@ -0,0 +1,5 @@
+-- Sales history is paged newest first by (timestamp, id), and the live window loads today's
+-- sales plus every pending one.
+create index if not exists sales_timestamp_id_idx on public.sales (timestamp desc, id desc);
+create index if not exists sales_pending_idx on public.sales (status) where status = 'Pending';
+create index if not exists sale_items_sale_id_idx on public.sale_items (sale_id);
@@ -0,0 +1,27 @@
+-- Individual staff accounts replace the shared user/admin passwords, so every sale can be
+-- attributed to the person who rang it up, completed it, or edited its notes.
+create table if not exists public.staff (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  role text not null check (role in ('user', 'admin')),
+  pin text not null check (pin ~ '^[0-9]{4,6}$'),
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default clock_timestamp()
+);
+
+drop trigger if exists touch_updated_at on public.staff;
+create trigger touch_updated_at before update on public.staff
+  for each row execute function public.touch_updated_at();
+
+grant select, insert, update on public.staff to anon, authenticated;
+
+-- Staff are deactivated rather than deleted, but a deleted one must not take their sales along.
+alter table public.sales add column if not exists created_by uuid references public.staff (id) on delete set null;
+alter table public.sales add column if not exists completed_by uuid references public.staff (id) on delete set null;
+alter table public.sales add column if not exists notes_edited_by uuid references public.staff (id) on delete set null;
+
+-- Bootstrap account for a fresh project. Change the PIN straight after the first login.
+insert into public.staff (name, role, pin)
+select 'Admin', 'admin', '0000'
+where not exists (select 1 from public.staff);
@@ -0,0 +1,100 @@
+-- PINs were stored in plain text and compared by a query any device could run with the anon key.
+-- They are now salted bcrypt hashes that never leave the database: verify_staff_pin checks them and
+-- locks an account for a few minutes after repeated wrong PINs.
+create extension if not exists pgcrypto with schema extensions;
+
+alter table public.staff add column if not exists pin_hash text;
+alter table public.staff add column if not exists failed_attempts integer not null default 0;
+alter table public.staff add column if not exists locked_until timestamptz;
+
+alter table public.staff drop constraint if exists staff_pin_check;
+alter table public.staff alter column pin drop not null;
+
+update public.staff
+set pin_hash = extensions.crypt(pin, extensions.gen_salt('bf')), pin = null
+where pin is not null;
+
+alter table public.staff alter column pin_hash set not null;
+
+-- `pin` is kept as a write-only input: clients insert or update it in plain text and this trigger
+-- swaps it for its hash before the row is stored. A new PIN also lifts any lockout.
+create or replace function public.hash_staff_pin()
+returns trigger
+language plpgsql
+set search_path = public, extensions
+as $$
+begin
+  if new.pin is not null then
+    if new.pin !~ '^[0-9]{4,6}$' then
+      raise exception 'The PIN must be 4 to 6 digits.' using errcode = 'check_violation';
+    end if;
+    new.pin_hash := crypt(new.pin, gen_salt('bf'));
+    new.pin := null;
+    new.failed_attempts := 0;
+    new.locked_until := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists hash_staff_pin on public.staff;
+create trigger hash_staff_pin before insert or update of pin on public.staff
+  for each row execute function public.hash_staff_pin();
+
+-- Clients may read and write everything except the hash and the attempt counter.
+revoke select, insert, update on public.staff from anon, authenticated;
+grant select (id, name, role, active, locked_until, updated_at) on public.staff to anon, authenticated;
+grant insert (name, role, active, pin) on public.staff to anon, authenticated;
+grant update (name, role, active, pin) on public.staff to anon, authenticated;
+
+-- Returns { staff, locked_until, attempts_left }. `staff` is only set for a correct PIN; while the
+-- account is locked the PIN is not checked at all, so guessing cannot continue in the background.
+create or replace function public.verify_staff_pin(p_staff_id uuid, p_pin text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  max_attempts constant integer := 5;
+  lockout constant interval := interval '5 minutes';
+  member public.staff%rowtype;
+  attempts integer;
+begin
+  select * into member from public.staff where id = p_staff_id and active for update;
+  if not found then
+    return jsonb_build_object('staff', null, 'locked_until', null, 'attempts_left', null);
+  end if;
+
+  if member.locked_until > now() then
+    return jsonb_build_object('staff', null, 'locked_until', member.locked_until, 'attempts_left', 0);
+  end if;
+
+  if member.pin_hash = crypt(p_pin, member.pin_hash) then
+    if member.failed_attempts > 0 or member.locked_until is not null then
+      update public.staff set failed_attempts = 0, locked_until = null where id = member.id;
+    end if;
+    return jsonb_build_object(
+      'staff', jsonb_build_object('id', member.id, 'name', member.name, 'role', member.role,
+        'active', member.active, 'locked_until', null, 'updated_at', member.updated_at),
+      'locked_until', null,
+      'attempts_left', null
+    );
+  end if;
+
+  attempts := member.failed_attempts + 1;
+  if attempts >= max_attempts then
+    update public.staff set failed_attempts = 0, locked_until = now() + lockout where id = member.id;
+    return jsonb_build_object('staff', null, 'locked_until', now() + lockout, 'attempts_left', 0);
+  end if;
+
+  update public.staff set failed_attempts = attempts, locked_until = null where id = member.id;
+  return jsonb_build_object('staff', null, 'locked_until', null, 'attempts_left', max_attempts - attempts);
+end;
+$$;
+
+revoke all on function public.verify_staff_pin(uuid, text) from public;
+grant execute on function public.verify_staff_pin(uuid, text) to anon, authenticated;
+
+-- The shared passwords that staff accounts replaced; nothing reads them any more.
+delete from public.app_config where key in ('user_password', 'admin_password');
@@ -0,0 +1,6 @@
+-- Roles are now ids from the permission matrix kept in app_config ('roles'), so the staff table no
+-- longer restricts them to user/admin. The old 'user' role becomes the built-in Cashier.
+alter table public.staff drop constraint if exists staff_role_check;
+alter table public.staff add constraint staff_role_check check (role ~ '^[a-z0-9-]+$');
+
+update public.staff set role = 'cashier' where role = 'user';
@@ -0,0 +1,40 @@
+-- Who deleted, edited or reset what, with the values before and after. Clients may add entries and
+-- read them back; triggers reject any update, delete or truncate, whoever runs it.
+create table if not exists public.audit_log (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  action text not null,
+  actor_id uuid references public.staff (id) on delete set null,
+  actor_name text not null,
+  approved_by uuid references public.staff (id) on delete set null,
+  device_id text,
+  entity_id text,
+  summary text not null default '',
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc, id desc);
+
+create or replace function public.reject_audit_log_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'The audit log is append-only.' using errcode = 'insufficient_privilege';
+end;
+$$;
+
+drop trigger if exists audit_log_append_only on public.audit_log;
+create trigger audit_log_append_only before update or delete on public.audit_log
+  for each row execute function public.reject_audit_log_change();
+
+drop trigger if exists audit_log_no_truncate on public.audit_log;
+create trigger audit_log_no_truncate before truncate on public.audit_log
+  for each statement execute function public.reject_audit_log_change();
+
+-- `id` and `created_at` are always the database's own, so an entry cannot be backdated.
+revoke all on public.audit_log from anon, authenticated;
+grant select on public.audit_log to anon, authenticated;
+grant insert (action, actor_id, actor_name, approved_by, device_id, entity_id, summary, before, after)
+  on public.audit_log to anon, authenticated;
@@ -0,0 +1,55 @@
+-- Each till registers itself under a random id and reports in every few seconds with whoever is
+-- logged in. An admin can rename a device or queue a logout or lock for that device alone, instead
+-- of the all-or-nothing update_global_logout_timestamp.
+create table if not exists public.devices (
+  id text primary key,
+  name text,
+  user_agent text,
+  current_staff_id uuid references public.staff (id) on delete set null,
+  current_staff_name text,
+  is_locked boolean not null default false,
+  pending_command text check (pending_command in ('logout', 'lock')),
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now()
+);
+
+-- Reports only go through report_device, so last_seen_at is always the database's clock.
+revoke all on public.devices from anon, authenticated;
+grant select on public.devices to anon, authenticated;
+grant update (name, pending_command) on public.devices to anon, authenticated;
+
+-- Upserts the device and hands back any queued command, clearing it in the same transaction so it
+-- is carried out once.
+create or replace function public.report_device(
+  p_device_id text,
+  p_user_agent text,
+  p_staff_id uuid,
+  p_staff_name text,
+  p_is_locked boolean
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_command text;
+begin
+  select pending_command into v_command from devices where id = p_device_id for update;
+
+  insert into devices (id, user_agent, current_staff_id, current_staff_name, is_locked)
+  values (p_device_id, p_user_agent, p_staff_id, p_staff_name, p_is_locked)
+  on conflict (id) do update set
+    user_agent = excluded.user_agent,
+    current_staff_id = excluded.current_staff_id,
+    current_staff_name = excluded.current_staff_name,
+    is_locked = excluded.is_locked,
+    pending_command = null,
+    last_seen_at = now();
+
+  return v_command;
+end;
+$$;
+
+revoke all on function public.report_device(text, text, uuid, text, boolean) from public;
+grant execute on function public.report_device(text, text, uuid, text, boolean) to anon, authenticated;
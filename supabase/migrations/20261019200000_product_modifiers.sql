@@ -0,0 +1,6 @@
+-- Modifier groups (size, add-ons, options) are defined per product as JSON:
+--   [{ "id", "name", "required", "multiple", "options": [{ "id", "name", "price_delta" }] }]
+-- A sale item keeps the options that were picked, with their names and prices at the time, and its
+-- `price` is the unit price with them applied.
+alter table public.products add column if not exists modifier_groups jsonb not null default '[]'::jsonb;
+alter table public.sale_items add column if not exists modifiers jsonb;
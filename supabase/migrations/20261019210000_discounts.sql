@@ -0,0 +1,27 @@
+-- Reusable promo codes, e.g. a festival-day 10% off. Codes are kept in upper case so they can be
+-- typed in any case at the till; they are switched off rather than deleted.
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null unique check (code = upper(code) and length(code) > 0),
+  description text,
+  kind text not null check (kind in ('percent', 'fixed')),
+  value numeric not null check (value > 0 and (kind = 'fixed' or value <= 100)),
+  starts_at timestamptz,
+  ends_at timestamptz,
+  active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default clock_timestamp(),
+  check (ends_at is null or starts_at is null or ends_at > starts_at)
+);
+
+drop trigger if exists touch_updated_at on public.promo_codes;
+create trigger touch_updated_at before update on public.promo_codes
+  for each row execute function public.touch_updated_at();
+
+grant select, insert, update on public.promo_codes to anon, authenticated;
+
+-- `total` stays what was charged. A line's `discount` is taken off price * quantity, and the sale's
+-- `discount` is the order-level amount taken after that, so gross = total + every discount.
+alter table public.sales add column if not exists discount numeric not null default 0;
+alter table public.sales add column if not exists promo_code text;
+alter table public.sale_items add column if not exists discount numeric not null default 0;
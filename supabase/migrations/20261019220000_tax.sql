@@ -0,0 +1,10 @@
+-- Tax rates live in `app_config` under 'tax' along with whether prices include tax. A product's
+-- rate overrides its category's, and either can be 'exempt'; null follows the level above.
+alter table public.products add column if not exists tax_rate_id text;
+alter table public.categories add column if not exists tax_rate_id text;
+
+-- `subtotal` is after discounts and excluding tax, and `taxes` holds one entry per rate:
+--   [{ "rate_id", "name", "rate", "inclusive", "taxable", "tax" }]
+-- so total = subtotal + the sum of `tax`. Sales from before this migration have neither.
+alter table public.sales add column if not exists subtotal numeric;
+alter table public.sales add column if not exists taxes jsonb;
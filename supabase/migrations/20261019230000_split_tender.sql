@@ -0,0 +1,5 @@
+-- A sale can be paid in several parts, e.g. ₹50 by UPI and the rest in cash:
+--   [{ "method": "Cash" | "UPI", "amount" }]
+-- `paymentMethod` stays as a summary: the one method used, or 'Split'. Sales from before this
+-- migration have no `payments` and were paid in full by `paymentMethod`.
+alter table public.sales add column if not exists payments jsonb;
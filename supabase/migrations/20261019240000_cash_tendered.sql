@@ -0,0 +1,4 @@
+-- What the customer handed over in cash and what was given back, for drawer reconciliation.
+-- Both are null on sales taken without cash and on sales from before this migration.
+alter table public.sales add column if not exists cash_tendered numeric;
+alter table public.sales add column if not exists change_given numeric;
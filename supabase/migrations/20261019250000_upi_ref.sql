@@ -0,0 +1,5 @@
+-- The payee's UPI ID and name live in `app_config` under 'upi'.
+
+-- The UPI transaction reference (UTR) the cashier noted at checkout, for matching payments against
+-- the bank statement. A split sale with several UPI payments keeps them as "ref1, ref2".
+alter table public.sales add column if not exists upi_ref text;
@@ -0,0 +1,28 @@
+-- Orders parked at a till while the customer steps away. They sync like the other tables, so
+-- every terminal sees them, and recalling one deletes it, so only one terminal can take it back.
+-- `items` holds the cart lines as they were, modifiers and line discounts included.
+create table if not exists public.held_carts (
+  id uuid primary key default gen_random_uuid(),
+  label text not null check (length(label) > 0),
+  items jsonb not null,
+  order_discount jsonb,
+  user_notes text,
+  held_by uuid references public.staff (id) on delete set null,
+  device_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists held_carts_updated_at_idx on public.held_carts (updated_at);
+
+drop trigger if exists touch_updated_at on public.held_carts;
+create trigger touch_updated_at before update on public.held_carts
+  for each row execute function public.touch_updated_at();
+
+drop trigger if exists record_deleted_row on public.held_carts;
+create trigger record_deleted_row after delete on public.held_carts
+  for each row execute function public.record_deleted_row();
+
+grant select, insert, delete on public.held_carts to anon, authenticated;
+
+alter publication supabase_realtime add table public.held_carts;
@@ -0,0 +1,7 @@
+-- Codes for adding products by scanning. A SKU is the shop's own code and is unique regardless of
+-- case; a barcode is what is printed on the pack and is matched exactly. Either may be left empty.
+alter table public.products add column if not exists sku text;
+alter table public.products add column if not exists barcode text;
+
+create unique index if not exists products_sku_key on public.products (upper(sku)) where sku is not null;
+create unique index if not exists products_barcode_key on public.products (barcode) where barcode is not null;
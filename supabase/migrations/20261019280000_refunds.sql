@@ -0,0 +1,7 @@
+-- A refund or void is a sale of its own, with negative amounts and quantities, the refund tender
+-- in `payments` and the original's order number, so every total that sums sales comes out net.
+-- Its stock goes back through adjust_stock() with the 'refund' reason.
+alter table public.sales add column if not exists refund_of uuid references public.sales (id) on delete cascade;
+alter table public.sales add column if not exists refund_reason text;
+
+create index if not exists sales_refund_of_idx on public.sales (refund_of) where refund_of is not null;
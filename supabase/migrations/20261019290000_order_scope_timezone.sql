@@ -0,0 +1,36 @@
+-- The daily scope turns over at midnight in the `timezone` of the order_numbering config, which the
+-- app now saves and uses too. A missing or unknown zone falls back to the default, as the app does,
+-- since `at time zone` would otherwise raise and stop every sale from getting a number.
+-- Must stay in sync with getOrderScope() in lib/orderNumber.ts.
+create or replace function public.current_order_scope()
+returns text
+language sql stable
+set search_path = public
+as $$
+  select case c->>'reset'
+    when 'daily' then 'day:' || to_char(now() at time zone (
+      case when exists (select 1 from pg_timezone_names where lower(name) = lower(c->>'timezone'))
+        then c->>'timezone' else 'Asia/Kolkata' end
+    ), 'YYYY-MM-DD')
+    when 'event' then 'event:' || coalesce(nullif(btrim(c->>'event'), ''), 'default')
+    else 'all'
+  end
+  from order_numbering_config() as c;
+$$;
+
+-- A replayed offline sale may be the first to touch its scope's counter. Seed the counter past every
+-- number already recorded in that scope, not just this one, so next_order_number() cannot hand out
+-- a number that another sale already carries.
+create or replace function public.reserve_order_number(p_scope text, p_number integer)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into order_counters as oc (scope, last_value)
+  values (
+    p_scope,
+    greatest(p_number, coalesce((select max(s.order_number) from sales s where coalesce(s.order_scope, 'all') = p_scope), 0))
+  )
+  on conflict (scope) do update set last_value = greatest(oc.last_value, excluded.last_value);
+$$;
@@ -0,0 +1,66 @@
+-- Any device holding the anon key could insert staff or update their name, role and PIN directly,
+-- so anyone could promote themselves or take over an account. Staff are now only written through
+-- save_staff(), which first checks the PIN of the person approving the change and that they are an
+-- Admin. Only the built-in Admin role counts: the roles matrix lives in app_config, which devices
+-- can write, so a role granted Settings there could approve its own promotion.
+revoke insert (name, role, active, pin), update (name, role, active, pin) on public.staff from anon, authenticated;
+revoke insert, update on public.staff from anon, authenticated;
+
+-- Returns { saved } with the staff member on success. A wrong or locked approver PIN returns
+-- { saved: null, locked_until, attempts_left } as verify_staff_pin does, and counts towards its
+-- lockout; an approver who is not an Admin returns { saved: null, denied: true }.
+-- Null arguments leave a field unchanged; a null p_staff_id adds a new member.
+create or replace function public.save_staff(
+  p_approver_id uuid,
+  p_approver_pin text,
+  p_staff_id uuid,
+  p_name text,
+  p_role text,
+  p_active boolean,
+  p_pin text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  verification jsonb;
+  approver_role text;
+  member public.staff%rowtype;
+begin
+  -- A rejected PIN returns rather than raises, since rolling back would also undo the wrong attempt it recorded.
+  verification := verify_staff_pin(p_approver_id, p_approver_pin);
+  approver_role := verification->'staff'->>'role';
+  if approver_role is null then
+    return jsonb_build_object('saved', null, 'locked_until', verification->'locked_until', 'attempts_left', verification->'attempts_left');
+  end if;
+
+  if approver_role <> 'admin' then
+    return jsonb_build_object('saved', null, 'denied', true);
+  end if;
+
+  if p_staff_id is null then
+    insert into public.staff (name, role, active, pin)
+    values (p_name, p_role, coalesce(p_active, true), p_pin)
+    returning * into member;
+  else
+    update public.staff set
+      name = coalesce(p_name, name),
+      role = coalesce(p_role, role),
+      active = coalesce(p_active, active),
+      pin = p_pin
+    where id = p_staff_id
+    returning * into member;
+    if not found then
+      raise exception 'This staff member no longer exists.' using errcode = 'no_data_found';
+    end if;
+  end if;
+
+  return jsonb_build_object('saved', jsonb_build_object('id', member.id, 'name', member.name, 'role', member.role,
+    'active', member.active, 'locked_until', member.locked_until, 'updated_at', member.updated_at));
+end;
+$$;
+
+revoke all on function public.save_staff(uuid, text, uuid, text, text, boolean, text) from public;
+grant execute on function public.save_staff(uuid, text, uuid, text, text, boolean, text) to anon, authenticated;
@@ -1,47 +1,265 @@
 
+export interface ModifierOption {
+  id: string;
+  name: string; // e.g. "Large" or "Extra shot"
+  price_delta: number; // Added to the product's price; may be negative
+}
+
+export interface ModifierGroup {
+  id: string;
+  name: string; // e.g. "Size" or "Add-ons"
+  required: boolean; // At least one option must be picked
+  multiple: boolean; // Several options may be picked; otherwise exactly one at most
+  options: ModifierOption[];
+}
+
+// An option as it was picked. Names and prices are copied, so past sales read the same after the
+// product's options are edited.
+export interface SelectedModifier {
+  group: string;
+  option: string;
+  price_delta: number;
+}
+
 export interface Product {
   id: string;
   name: string;
   price: number;
   stock: number;
+  sku?: string | null; // Shop's own code; unique, matched without regard to case
+  barcode?: string | null; // Printed on the pack, e.g. an EAN-13; unique
   category_id?: string | null;
+  tax_rate_id?: string | null; // Overrides the category's rate; null follows the category
+  modifier_groups?: ModifierGroup[] | null;
   categories?: { name: string } | null; // For Supabase JOINs
+  updated_at?: string;
 }
 
 export interface Category {
   id: string;
   name: string;
+  tax_rate_id?: string | null; // Null uses the default rate
+  updated_at?: string;
+}
+
+export interface TaxRate {
+  id: string;
+  name: string; // e.g. "GST 5%"
+  rate: number; // Percent
 }
 
+// Tax charged at one rate on a sale. The name and rate are copied in, so later edits to the rates
+// do not change what a past sale says.
+export interface SaleTax {
+  rate_id: string;
+  name: string;
+  rate: number;
+  inclusive: boolean; // Whether it was already in the prices, or added on top
+  taxable: number; // Value the tax was worked out on, excluding the tax itself
+  tax: number;
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+// A discount as entered, before it is worked out against a line or order total.
+export interface Discount {
+  kind: DiscountKind;
+  value: number; // 10 is 10% or ₹10, depending on `kind`
+  code?: string | null; // Set when it came from a promo code
+}
+
+export interface PromoCode {
+  id: string;
+  code: string; // Stored in upper case; matched without regard to case
+  description?: string | null;
+  kind: DiscountKind;
+  value: number;
+  starts_at?: string | null; // Inclusive; open-ended when null
+  ends_at?: string | null; // Exclusive; open-ended when null
+  active: boolean;
+  updated_at?: string;
+}
+
+// `price` is the unit price with the chosen modifiers applied.
 export interface CartItem extends Product {
   quantity: number;
+  modifiers?: SelectedModifier[];
+  discount?: Discount | null; // Markdown on this line
+}
+
+// A cart parked at the till while its customer steps away; any terminal can recall it.
+export interface HeldCart {
+  id: string;
+  label: string;
+  items: CartItem[];
+  order_discount?: Discount | null;
+  user_notes?: string | null;
+  held_by?: string | null; // Staff id
+  device_id?: string | null;
+  created_at: string;
+  updated_at?: string;
 }
 
 export enum PaymentMethod {
   CASH = 'Cash',
   UPI = 'UPI',
+  SPLIT = 'Split', // Only on a sale, when its payments used more than one method
+}
+
+// One tender towards a sale; a sale paid partly by UPI and partly in cash has two.
+export interface Payment {
+  method: PaymentMethod.CASH | PaymentMethod.UPI;
+  amount: number;
 }
 
 export interface SaleItem {
   id: string; // This will be the product id or manual id
   name: string;
-  price: number;
+  price: number; // Unit price, modifiers included
   quantity: number;
+  modifiers?: SelectedModifier[];
+  discount?: number; // Amount taken off this line, so it is worth price * quantity - discount
 }
 
 export interface Sale {
   id: string;
   timestamp: string;
   items: SaleItem[];
-  total: number;
-  paymentMethod: PaymentMethod;
+  total: number; // What was charged, after every discount and with tax
+  subtotal?: number | null; // After discounts, excluding tax; total = subtotal + every tax
+  taxes?: SaleTax[] | null;
+  discount?: number | null; // Order-level discount, taken after line discounts
+  promo_code?: string | null;
+  paymentMethod: PaymentMethod; // Summary of `payments`
+  payments?: Payment[] | null; // Missing on sales made before split tender, which were paid in full by `paymentMethod`
+  cash_tendered?: number | null; // Cash handed over by the customer, for drawer reconciliation
+  change_given?: number | null;
+  upi_ref?: string | null; // UPI transaction reference (UTR) noted at the till, for matching against the bank statement
+  // Set on a refund, which is stored as a sale of its own with negative amounts and quantities.
+  refund_of?: string | null; // Id of the sale refunded
+  refund_reason?: string | null;
   order_number: number;
+  order_prefix?: string | null;
+  order_scope?: string | null; // Sequence the number was drawn from, e.g. "day:2024-03-09"
   status: 'Pending' | 'Completed';
   admin_notes?: string | null;
   user_notes?: string | null;
+  client_id?: string | null;
+  is_unsynced?: boolean; // Captured offline and still waiting in the local queue
+  // Staff ids
+  created_by?: string | null;
+  completed_by?: string | null;
+  notes_edited_by?: string | null;
+}
+
+export type StockMovementReason = 'sale' | 'refund' | 'adjustment' | 'restock';
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  delta: number; // Negative when stock leaves, e.g. -2 for a sale of two
+  reason: StockMovementReason;
+  stock_after: number;
+  sale_id?: string | null;
+  note?: string | null;
+  created_at: string;
+}
+
+export type Permission =
+  | 'sell'
+  | 'orders.view'
+  | 'orders.complete'
+  | 'orders.notes'
+  | 'dashboard.view'
+  | 'history.view'
+  | 'history.reset'
+  | 'inventory.manage'
+  | 'settings.manage'
+  | 'audit.view'
+  | 'discounts.manual'
+  | 'sales.refund';
+
+// Id of a role in the permission matrix, e.g. 'admin' or 'kitchen'.
+export type StaffRole = string;
+
+export interface RoleDefinition {
+  id: StaffRole;
+  name: string;
+  permissions: Permission[];
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  role: StaffRole;
+  active: boolean; // Inactive staff cannot log in but stay on record for the sales they made
+  locked_until?: string | null; // Set after too many wrong PINs; login is refused until then
+  updated_at?: string;
+}
+
+export type AuditAction =
+  | 'product.update'
+  | 'product.delete'
+  | 'category.delete'
+  | 'stock.adjust'
+  | 'sale.notes'
+  | 'history.reset'
+  | 'staff.save'
+  | 'roles.save'
+  | 'logout.global'
+  | 'device.rename'
+  | 'device.logout'
+  | 'device.lock'
+  | 'promo.save'
+  | 'sale.refund'
+  | 'sale.discard';
+
+// One row of the append-only audit trail. Names are copied in, so the entry still reads correctly
+// after the product is deleted or the staff member renamed.
+export interface AuditEntry {
+  id: string;
+  created_at: string;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_name: string;
+  approved_by?: string | null; // Staff id of whoever lent their role, if the session was elevated
+  device_id: string | null;
+  entity_id?: string | null;
+  summary: string; // e.g. "Masala Chai" or "Order #A-12"
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// Sent by an admin to one device and carried out the next time it reports in.
+export type DeviceCommand = 'logout' | 'lock';
+
+// A browser running the till, identified by the random id in lib/device.ts.
+export interface Device {
+  id: string;
+  name?: string | null; // Set by an admin; unnamed devices are shown by a short id
+  user_agent?: string | null;
+  current_staff_id?: string | null;
+  current_staff_name?: string | null; // Whoever is logged in, as of the last report
+  is_locked: boolean;
+  pending_command?: DeviceCommand | null;
+  first_seen_at: string;
+  last_seen_at: string; // Backend time of the last report
+}
+
+// Another staff member's PIN temporarily lending their role to this session.
+export interface SessionElevation {
+  role: StaffRole;
+  staffId: string;
+  staffName: string;
+  until: string; // ISO string
 }
 
 export interface Session {
-  role: 'user' | 'admin';
+  role: StaffRole;
+  staffId: string;
+  staffName: string;
   loginTimestamp: string; // ISO string
+  expiresAt?: string; // ISO string; the session ends here regardless of activity
+  lockedAt?: string | null; // Set after the idle timeout; the PIN must be entered again
+  elevation?: SessionElevation | null;
 }
@@ -0,0 +1,189 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import type { AuditAction, AuditEntry, StaffMember } from '../types';
+import { dataStore } from '../lib/backend';
+import type { AuditCursor } from '../lib/dataStore';
+import { toLocalDateString } from '../lib/orderNumber';
+import { dateRangeWindow } from '../lib/salesHistory';
+import { AUDIT_PAGE_SIZE, auditActionLabels, formatAuditValue, getAuditChanges } from '../lib/auditLog';
+import { deviceLabel, getDeviceId } from '../lib/device';
+import { RefreshIcon } from '../components/icons/Icons';
+
+const DEFAULT_RANGE_DAYS = 7;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return toLocalDateString(date);
+};
+
+const AuditChanges: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const changes = getAuditChanges(entry);
+  if (changes.length === 0) return null;
+  return (
+    <table className="mt-2 text-xs w-full">
+      <tbody>
+        {changes.map(change => (
+          <tr key={change.field} className="align-top">
+            <td className="pr-3 py-0.5 font-medium text-slate-500 dark:text-slate-400 whitespace-nowrap">{change.field}</td>
+            <td className="pr-3 py-0.5 text-red-600 dark:text-red-400 line-through break-all">{formatAuditValue(change.before)}</td>
+            <td className="py-0.5 text-green-600 dark:text-green-400 break-all">{formatAuditValue(change.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// Read-only: the trail cannot be edited from the app or the database.
+const AuditView: React.FC<{
+  staff: StaffMember[];
+  staffNames: Record<string, string>;
+}> = ({ staff, staffNames }) => {
+  const [fromDate, setFromDate] = useState(() => daysAgo(DEFAULT_RANGE_DAYS - 1));
+  const [toDate, setToDate] = useState(() => daysAgo(0));
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [actorId, setActorId] = useState('');
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deviceNames, setDeviceNames] = useState<Record<string, string>>({});
+  // Responses for a filter that has since changed are dropped.
+  const requestIdRef = useRef(0);
+
+  // Devices are shown by their current name; an unknown id still gets a short label.
+  useEffect(() => {
+    dataStore.listDevices().then(({ data }) => {
+      if (data) setDeviceNames(Object.fromEntries(data.map(d => [d.id, deviceLabel(d)])));
+    });
+  }, []);
+
+  const query = useMemo(() => ({
+    ...dateRangeWindow(fromDate, toDate),
+    action: action || undefined,
+    actorId: actorId || undefined,
+  }), [fromDate, toDate, action, actorId]);
+
+  const loadPage = useCallback(async (before: AuditCursor | null) => {
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    const { data, error } = await dataStore.listAuditEntries({ ...query, before, limit: AUDIT_PAGE_SIZE });
+    if (requestId !== requestIdRef.current) return;
+
+    setIsLoading(false);
+    if (error || !data) {
+      console.error('Error fetching audit log:', error);
+      setError(error?.message || 'Unknown Error');
+      return;
+    }
+    setError(null);
+    setEntries(prev => (before ? [...prev, ...data] : data));
+    setHasMore(data.length === AUDIT_PAGE_SIZE);
+  }, [query]);
+
+  useEffect(() => {
+    setEntries([]);
+    loadPage(null);
+  }, [loadPage]);
+
+  const loadMore = () => {
+    const last = entries[entries.length - 1];
+    if (last && !isLoading) loadPage({ created_at: last.created_at, id: last.id });
+  };
+
+  // Searches the pages loaded so far; the filters above narrow what is fetched.
+  const visibleEntries = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return entries;
+    return entries.filter(e => [e.summary, e.actor_name, e.entity_id].some(value => value?.toLowerCase().includes(term)));
+  }, [entries, search]);
+
+  const thisDevice = getDeviceId();
+  const inputClasses = "p-2 rounded-md bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600";
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <h2 className="text-3xl font-bold">Audit Log</h2>
+        <button onClick={() => loadPage(null)} disabled={isLoading} className="flex items-center gap-2 bg-slate-200 dark:bg-slate-700 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-60">
+          <RefreshIcon /> Refresh
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-2 sm:p-4 rounded-lg shadow-lg">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm">
+            From
+            <input type="date" value={fromDate} max={toDate} onChange={e => e.target.value && setFromDate(e.target.value)} className={inputClasses} />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            To
+            <input type="date" value={toDate} min={fromDate} onChange={e => e.target.value && setToDate(e.target.value)} className={inputClasses} />
+          </label>
+          <select value={action} onChange={e => setAction(e.target.value as AuditAction | '')} className={inputClasses} aria-label="Action">
+            <option value="">All actions</option>
+            {(Object.keys(auditActionLabels) as AuditAction[]).map(a => <option key={a} value={a}>{auditActionLabels[a]}</option>)}
+          </select>
+          <select value={actorId} onChange={e => setActorId(e.target.value)} className={inputClasses} aria-label="Staff member">
+            <option value="">Everyone</option>
+            {staff.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <input type="search" value={search} onChange={e => setSearch(e.target.value)} placeholder="Search product, order..." className={`${inputClasses} flex-1 min-w-[10rem]`} />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400">
+                <th className="p-3">When</th>
+                <th className="p-3">Who</th>
+                <th className="p-3">What</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.length > 0 ? (
+                visibleEntries.map(entry => (
+                  <tr key={entry.id} className="border-b border-slate-200 dark:border-slate-700 align-top">
+                    <td className="p-3 whitespace-nowrap">
+                      <div>{new Date(entry.created_at).toLocaleDateString()}</div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(entry.created_at).toLocaleTimeString()}</div>
+                    </td>
+                    <td className="p-3">
+                      <div className="font-medium">{entry.actor_name}</div>
+                      {entry.approved_by && (
+                        <div className="text-xs text-amber-600 dark:text-amber-400">approved by {staffNames[entry.approved_by] || 'Former staff'}</div>
+                      )}
+                      <div className="text-xs text-slate-500 dark:text-slate-400" title={entry.device_id || undefined}>
+                        {entry.device_id
+                          ? `${deviceNames[entry.device_id] || deviceLabel({ id: entry.device_id })}${entry.device_id === thisDevice ? ' (this device)' : ''}`
+                          : 'Unknown device'}
+                      </div>
+                    </td>
+                    <td className="p-3 min-w-[16rem]">
+                      <div>
+                        <span className="font-semibold">{auditActionLabels[entry.action] || entry.action}</span>
+                        {entry.summary && <span className="text-slate-500 dark:text-slate-400"> &middot; {entry.summary}</span>}
+                      </div>
+                      <AuditChanges entry={entry} />
+                    </td>
+                  </tr>
+                ))
+              ) : !isLoading && !error && <tr><td colSpan={3} className="text-center p-6 text-slate-500 dark:text-slate-400">Nothing recorded in this period.</td></tr>}
+              {error && <tr><td colSpan={3} className="text-center p-6 text-red-500 dark:text-red-400">Failed to load the audit log: {error}</td></tr>}
+            </tbody>
+          </table>
+        </div>
+        {(hasMore || isLoading) && (
+          <div className="flex justify-center mt-4">
+            <button onClick={loadMore} disabled={isLoading} className="bg-slate-200 dark:bg-slate-700 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-60">
+              {isLoading ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditView;
@@ -0,0 +1,37 @@
+import React from 'react';
+import ConnectionForm from '../components/ConnectionForm';
+import type { RemoteBackendProfile, SupabaseConnection } from '../lib/backendConfig';
+import { backendProfileLabels } from '../lib/backendConfig';
+
+interface BackendSetupViewProps {
+  profile: RemoteBackendProfile;
+  onSaveConnection: (connection: SupabaseConnection) => void;
+  onUseLocal: () => void;
+}
+
+// Shown instead of the login screen while the active profile has no connection, since staff accounts
+// live in the backend and nobody can sign in before it is reachable.
+const BackendSetupView: React.FC<BackendSetupViewProps> = ({ profile, onSaveConnection, onUseLocal }) => (
+  <div className="min-h-screen flex flex-col items-center justify-center p-4">
+    <div className="w-full max-w-md mx-auto">
+      <h1 className="text-4xl font-bold text-center mb-2">PYJ POS System</h1>
+      <p className="text-center text-slate-500 dark:text-slate-400 mb-8">
+        Connect this device to the {backendProfileLabels[profile].toLowerCase()} backend.
+      </p>
+
+      <div className="bg-white dark:bg-slate-800 shadow-2xl rounded-lg p-8">
+        <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+          Find these under Project Settings &rarr; API in the Supabase dashboard. They are stored on this device only.
+        </p>
+        <ConnectionForm initial={null} submitLabel="Connect" onSubmit={onSaveConnection} />
+        <div className="border-t border-slate-200 dark:border-slate-700 mt-6 pt-4 text-center">
+          <button onClick={onUseLocal} className="text-sm text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200">
+            Skip and keep data on this device only
+          </button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
+
+export default BackendSetupView;
@@ -1,5 +1,8 @@
 import React, { useMemo } from 'react';
+import { PaymentMethod } from '../types';
 import type { Sale, Product } from '../types';
+import { saleDiscount, saleGross } from '../lib/discounts';
+import { paidBy } from '../lib/payments';
 
 interface DashboardViewProps {
   sales: Sale[];
@@ -42,16 +45,17 @@ const LowStockCard: React.FC<{ products: Product[] }> = ({ products }) => {
 
 const DashboardView: React.FC<DashboardViewProps> = ({ sales, products }) => {
   const stats = useMemo(() => {
+    const grossSales = sales.reduce((acc, sale) => acc + saleGross(sale), 0);
+    const totalDiscounts = sales.reduce((acc, sale) => acc + saleDiscount(sale), 0);
     const totalRevenue = sales.reduce((acc, sale) => acc + sale.total, 0);
+    // Refunds are stored as negative sales, so the sums above and below are already net of them.
+    const salesCount = sales.filter(sale => !sale.refund_of).length;
+    const totalRefunds = sales.filter(sale => sale.refund_of).reduce((acc, sale) => acc - sale.total, 0);
     const totalItemsSold = sales.reduce((acc, sale) => acc + sale.items.reduce((itemAcc, item) => itemAcc + item.quantity, 0), 0);
     
-    const totalRevenueCash = sales
-      .filter(sale => sale.paymentMethod === 'Cash')
-      .reduce((acc, sale) => acc + sale.total, 0);
-
-    const totalRevenueUPI = sales
-      .filter(sale => sale.paymentMethod === 'UPI')
-      .reduce((acc, sale) => acc + sale.total, 0);
+    // Split sales count towards both cards, by the amount paid each way.
+    const totalRevenueCash = paidBy(sales, PaymentMethod.CASH);
+    const totalRevenueUPI = paidBy(sales, PaymentMethod.UPI);
 
     const salesPerItem = sales
       .flatMap(sale => sale.items)
@@ -60,12 +64,17 @@ const DashboardView: React.FC<DashboardViewProps> = ({ sales, products }) => {
           acc[item.id] = { name: item.name, quantity: 0, revenue: 0 };
         }
         acc[item.id].quantity += item.quantity;
-        acc[item.id].revenue += item.quantity * item.price;
+        // Line markdowns come off here; order-level discounts are not split across items.
+        acc[item.id].revenue += item.quantity * item.price - (item.discount || 0);
         return acc;
       }, {} as Record<string, { name: string; quantity: number; revenue: number }>);
 
     return {
+      grossSales,
+      totalDiscounts,
       totalRevenue,
+      salesCount,
+      totalRefunds,
       totalItemsSold,
       totalRevenueCash,
       totalRevenueUPI,
@@ -75,14 +84,20 @@ const DashboardView: React.FC<DashboardViewProps> = ({ sales, products }) => {
 
   return (
     <div className="animate-fade-in">
-      <h2 className="text-3xl font-bold mb-6">Dashboard</h2>
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold">Dashboard</h2>
+        <p className="text-sm text-slate-500 dark:text-slate-400">Today's sales and open orders. Earlier days are in History.</p>
+      </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
         <div className="lg:col-span-3 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-          <StatCard title="Total Revenue" value={`₹${stats.totalRevenue.toFixed(2)}`} className="bg-gradient-to-br from-green-500 to-green-700"/>
+          <StatCard title="Gross Sales" value={`₹${stats.grossSales.toFixed(2)}`} className="bg-gradient-to-br from-slate-500 to-slate-700"/>
+          <StatCard title="Discounts" value={`₹${stats.totalDiscounts.toFixed(2)}`} className="bg-gradient-to-br from-rose-500 to-rose-700"/>
+          <StatCard title="Net Revenue" value={`₹${stats.totalRevenue.toFixed(2)}`} className="bg-gradient-to-br from-green-500 to-green-700"/>
           <StatCard title="Revenue (Cash)" value={`₹${stats.totalRevenueCash.toFixed(2)}`} className="bg-gradient-to-br from-teal-500 to-teal-700"/>
           <StatCard title="Revenue (UPI)" value={`₹${stats.totalRevenueUPI.toFixed(2)}`} className="bg-gradient-to-br from-sky-500 to-sky-700"/>
-          <StatCard title="Total Sales" value={sales.length.toString()} className="bg-gradient-to-br from-blue-500 to-blue-700"/>
+          <StatCard title="Total Sales" value={stats.salesCount.toString()} className="bg-gradient-to-br from-blue-500 to-blue-700"/>
+          <StatCard title="Refunds" value={`₹${stats.totalRefunds.toFixed(2)}`} className="bg-gradient-to-br from-red-500 to-red-700"/>
           <StatCard title="Items Sold" value={stats.totalItemsSold.toString()} className="bg-gradient-to-br from-purple-500 to-purple-700" />
           <StatCard title="Product Types" value={products.length.toString()} className="bg-gradient-to-br from-yellow-500 to-yellow-700"/>
         </div>
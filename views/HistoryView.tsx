@@ -1,6 +1,21 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
+import { PaymentMethod } from '../types';
 import type { Sale } from '../types';
 import Modal from '../components/Modal';
+import { formatOrderNumber, toLocalDateString } from '../lib/orderNumber';
+import { dataStore } from '../lib/backend';
+import { dateRangeWindow, fetchAllSales, mergeLiveSales } from '../lib/salesHistory';
+import { formatItemName } from '../lib/modifiers';
+import { saleDiscount, saleGross } from '../lib/discounts';
+import { saleTaxTotal, summarizeTaxes } from '../lib/tax';
+import type { TaxSummaryRow } from '../lib/tax';
+import { formatPayments, paidBy } from '../lib/payments';
+import { groupRefunds, isFullyRefunded } from '../lib/refunds';
+import type { RefundRequest } from '../lib/refunds';
+import type { SalesFilter } from '../lib/salesHistory';
+import useSalesHistory from '../hooks/useSalesHistory';
+import type { MutationResult } from '../hooks/useMutation';
+import RefundModal from '../components/RefundModal';
 import { RefreshIcon } from '../components/icons/Icons';
 import { useToasts } from '../components/ToastProvider';
 
@@ -8,31 +23,94 @@ declare global {
   interface Window { jspdf: any; }
 }
 
-const DailyReportModal: React.FC<{ isOpen: boolean; onClose: () => void; sales: Sale[] }> = ({ isOpen, onClose, sales }) => {
-    const today = new Date().toISOString().split('T')[0];
+const DEFAULT_RANGE_DAYS = 7;
+
+const daysAgo = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() - days);
+    return toLocalDateString(date);
+};
+
+const paymentBadgeClasses: Record<PaymentMethod, string> = {
+    [PaymentMethod.CASH]: 'bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300',
+    [PaymentMethod.UPI]: 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-300',
+    [PaymentMethod.SPLIT]: 'bg-purple-100 dark:bg-purple-900/50 text-purple-800 dark:text-purple-300',
+};
+
+const TaxSummaryTable: React.FC<{ rows: TaxSummaryRow[] }> = ({ rows }) => (
+    <table className="w-full text-sm">
+        <thead>
+            <tr className="text-slate-500 border-b border-slate-200 dark:border-slate-600">
+                <th className="py-1 text-left font-medium">Rate</th>
+                <th className="py-1 text-right font-medium">Taxable Value</th>
+                <th className="py-1 text-right font-medium">Tax</th>
+            </tr>
+        </thead>
+        <tbody>
+            {rows.map(row => (
+                <tr key={`${row.name}|${row.rate}`}>
+                    <td className="py-1">{row.name}</td>
+                    <td className="py-1 text-right">₹{row.taxable.toFixed(2)}</td>
+                    <td className="py-1 text-right">₹{row.tax.toFixed(2)}</td>
+                </tr>
+            ))}
+            <tr className="font-semibold border-t border-slate-200 dark:border-slate-600">
+                <td className="py-1">Total</td>
+                <td className="py-1 text-right">₹{rows.reduce((sum, r) => sum + r.taxable, 0).toFixed(2)}</td>
+                <td className="py-1 text-right">₹{rows.reduce((sum, r) => sum + r.tax, 0).toFixed(2)}</td>
+            </tr>
+        </tbody>
+    </table>
+);
+
+const DailyReportModal: React.FC<{ isOpen: boolean; onClose: () => void; liveSales: Sale[] }> = ({ isOpen, onClose, liveSales }) => {
+    const today = toLocalDateString(new Date());
     const [selectedDate, setSelectedDate] = useState(today);
+    const [daySales, setDaySales] = useState<Sale[]>([]);
+    const [isFetching, setIsFetching] = useState(false);
+    const { addToast } = useToasts();
+    const dayWindow = useMemo(() => dateRangeWindow(selectedDate, selectedDate), [selectedDate]);
 
-    const reportData = useMemo(() => {
-        const filteredSales = sales.filter(sale => {
-            const saleDate = new Date(sale.timestamp);
-            const saleDateString = saleDate.toISOString().split('T')[0];
-            return saleDateString === selectedDate;
+    useEffect(() => {
+        if (!isOpen) return;
+        let isCurrent = true;
+        setIsFetching(true);
+        fetchAllSales(dataStore, dayWindow).then(({ data, error }) => {
+            if (!isCurrent) return;
+            setIsFetching(false);
+            if (error) {
+                console.error('Error fetching sales for report:', error);
+                addToast(`Failed to load sales for the report: ${error.message}`, 'error');
+            }
+            setDaySales(data || []);
         });
+        return () => { isCurrent = false; };
+    }, [isOpen, dayWindow, addToast]);
+
+    const reportData = useMemo(() => {
+        const filteredSales = mergeLiveSales(daySales, liveSales, dayWindow);
 
         if (filteredSales.length === 0) return null;
 
+        const grossSales = filteredSales.reduce((sum, sale) => sum + saleGross(sale), 0);
+        const discounts = filteredSales.reduce((sum, sale) => sum + saleDiscount(sale), 0);
         const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.total, 0);
-        const totalSales = filteredSales.length;
-        const cashRevenue = filteredSales.filter(s => s.paymentMethod === 'Cash').reduce((s, a) => s + a.total, 0);
-        const upiRevenue = filteredSales.filter(s => s.paymentMethod === 'UPI').reduce((s, a) => s + a.total, 0);
+        // Refunds are negative sales; they count against revenue but not as sales.
+        const totalSales = filteredSales.filter(sale => !sale.refund_of).length;
+        const refunds = filteredSales.filter(sale => sale.refund_of).reduce((sum, sale) => sum - sale.total, 0);
+        const cashRevenue = paidBy(filteredSales, PaymentMethod.CASH);
+        const upiRevenue = paidBy(filteredSales, PaymentMethod.UPI);
+        // Notes taken in and change handed back, for counting the drawer.
+        const cashTendered = filteredSales.reduce((sum, sale) => sum + (sale.cash_tendered || 0), 0);
+        const changeGiven = filteredSales.reduce((sum, sale) => sum + (sale.change_given || 0), 0);
 
         const itemsSold = filteredSales.flatMap(s => s.items).reduce((acc, item) => {
             acc[item.name] = (acc[item.name] || 0) + item.quantity;
             return acc;
         }, {} as Record<string, number>);
 
-        return { totalRevenue, totalSales, cashRevenue, upiRevenue, itemsSold: Object.entries(itemsSold) };
-    }, [selectedDate, sales]);
+        return { grossSales, discounts, totalRevenue, refunds, taxSummary: summarizeTaxes(filteredSales), totalSales, cashRevenue, cashTendered, changeGiven, upiRevenue, itemsSold: Object.entries(itemsSold) };
+    }, [daySales, liveSales, dayWindow]);
     
     const handlePrint = () => {
         const printContents = document.getElementById('print-area')?.innerHTML;
@@ -61,26 +139,46 @@ const DailyReportModal: React.FC<{ isOpen: boolean; onClose: () => void; sales:
                     <h3 className="text-xl font-semibold text-center">{formattedDate}</h3>
                     {reportData ? (
                         <div className="space-y-4 mt-4">
-                            <div className="grid grid-cols-2 gap-4 text-center">
+                            <div className="grid grid-cols-3 gap-4 text-center">
+                                <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg">
+                                    <p className="text-sm text-slate-500">Gross Sales</p>
+                                    <p className="text-lg font-semibold">₹{reportData.grossSales.toFixed(2)}</p>
+                                </div>
                                 <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg">
-                                    <p className="text-sm text-slate-500">Total Revenue</p>
-                                    <p className="text-2xl font-bold">₹{reportData.totalRevenue.toFixed(2)}</p>
+                                    <p className="text-sm text-slate-500">Discounts</p>
+                                    <p className="text-lg font-semibold">−₹{reportData.discounts.toFixed(2)}</p>
                                 </div>
-                                 <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg">
-                                    <p className="text-sm text-slate-500">Total Sales</p>
-                                    <p className="text-2xl font-bold">{reportData.totalSales}</p>
+                                <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg">
+                                    <p className="text-sm text-slate-500">Net Revenue</p>
+                                    <p className="text-lg font-bold">₹{reportData.totalRevenue.toFixed(2)}</p>
                                 </div>
+                            </div>
+                            <div className="p-3 bg-slate-100 dark:bg-slate-700 rounded-lg text-center">
+                                <p className="text-sm text-slate-500">Total Sales</p>
+                                <p className="text-2xl font-bold">{reportData.totalSales}</p>
+                                {reportData.refunds > 0 && (
+                                    <p className="text-xs text-red-500 dark:text-red-400">Net of ₹{reportData.refunds.toFixed(2)} refunded</p>
+                                )}
                             </div>
                              <div className="grid grid-cols-2 gap-4 text-center">
                                 <div className="p-3 bg-green-100 dark:bg-green-900/50 rounded-lg">
                                     <p className="text-sm text-green-600">Cash Revenue</p>
                                     <p className="text-lg font-semibold">₹{reportData.cashRevenue.toFixed(2)}</p>
+                                    {reportData.changeGiven > 0 && (
+                                        <p className="text-xs text-slate-500">₹{reportData.cashTendered.toFixed(2)} received, ₹{reportData.changeGiven.toFixed(2)} change</p>
+                                    )}
                                 </div>
                                  <div className="p-3 bg-blue-100 dark:bg-blue-900/50 rounded-lg">
                                     <p className="text-sm text-blue-600">UPI Revenue</p>
                                     <p className="text-lg font-semibold">₹{reportData.upiRevenue.toFixed(2)}</p>
                                 </div>
                             </div>
+                            <div>
+                                <h4 className="font-semibold mb-2">Tax Summary:</h4>
+                                <div className="p-2 bg-slate-100 dark:bg-slate-700/50 rounded">
+                                    <TaxSummaryTable rows={reportData.taxSummary} />
+                                </div>
+                            </div>
                             <div>
                                 <h4 className="font-semibold mb-2">Items Sold Summary:</h4>
                                 <ul className="space-y-1 text-sm list-disc list-inside max-h-40 overflow-y-auto p-2 bg-slate-100 dark:bg-slate-700/50 rounded">
@@ -88,7 +186,7 @@ const DailyReportModal: React.FC<{ isOpen: boolean; onClose: () => void; sales:
                                 </ul>
                             </div>
                         </div>
-                    ) : <p className="text-center text-slate-500 mt-8">No sales recorded on this date.</p>}
+                    ) : <p className="text-center text-slate-500 mt-8">{isFetching ? 'Loading sales...' : 'No sales recorded on this date.'}</p>}
                 </div>
                 
                 <div className="flex justify-end gap-3 mt-8 no-print">
@@ -101,29 +199,73 @@ const DailyReportModal: React.FC<{ isOpen: boolean; onClose: () => void; sales:
 };
 
 
-const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>; }> = ({ sales, onResetHistory }) => {
+const HistoryView: React.FC<{
+  liveSales: Sale[];
+  // Left out for roles without the reset permission, which hides the button.
+  onResetHistory?: () => Promise<MutationResult<null>>;
+  // Left out for roles that may not refund.
+  onRefundSale?: (sale: Sale, refund: RefundRequest) => Promise<MutationResult<Sale>>;
+  staffNames: Record<string, string>;
+}> = ({ liveSales, onResetHistory, onRefundSale, staffNames }) => {
   const [isResetModalOpen, setIsResetModalOpen] = useState(false);
   const [isReportModalOpen, setIsReportModalOpen] = useState(false);
+  const [fromDate, setFromDate] = useState(() => daysAgo(DEFAULT_RANGE_DAYS - 1));
+  const [toDate, setToDate] = useState(() => daysAgo(0));
+  const [isExporting, setIsExporting] = useState(false);
+  const [refundingSale, setRefundingSale] = useState<Sale | null>(null);
   const { addToast } = useToasts();
 
-  const formatItems = (items: Sale['items']) => items.map(item => `${item.name} (x${item.quantity})`).join(', ');
-  
-  const handleExportCSV = () => {
-    const headers = ['Transaction ID', 'Date', 'Time', 'Items', 'Total Amount', 'Payment Method'];
+  const salesWindow = useMemo(() => dateRangeWindow(fromDate, toDate), [fromDate, toDate]);
+  const { sales, hasMore, isLoading, error, loadMore, reload } = useSalesHistory(salesWindow, liveSales);
+  const refundsBySale = useMemo(() => groupRefunds(sales), [sales]);
+
+  const formatItems = (items: Sale['items']) => items.map(item => `${formatItemName(item)} (x${item.quantity})`).join(', ');
+  const staffName = (staffId?: string | null) => (staffId ? staffNames[staffId] || 'Former staff' : '');
+
+  // Exports cover the whole filter, not just the pages loaded so far.
+  const loadSalesForExport = async (filter: SalesFilter): Promise<Sale[] | null> => {
+    setIsExporting(true);
+    const { data, error } = await fetchAllSales(dataStore, filter);
+    setIsExporting(false);
+    if (error || !data) {
+      console.error('Error fetching sales for export:', error);
+      addToast(`Failed to load sales for export: ${error?.message}`, 'error');
+      return null;
+    }
+    return mergeLiveSales(data, liveSales, filter);
+  };
+
+  const handleExportCSV = async (filter: SalesFilter) => {
+    const sales = await loadSalesForExport(filter);
+    if (!sales) return;
+
+    const headers = ['Transaction ID', 'Order #', 'Date', 'Time', 'Items', 'Gross Amount', 'Discount', 'Promo Code', 'Subtotal (excl. Tax)', 'Tax', 'Total Amount', 'Payment Method', 'UPI Ref', 'Refund Of', 'Refund Reason', 'Synced', 'Created By', 'Completed By'];
     const rows = sales.map(sale => [
-        sale.id, new Date(sale.timestamp).toLocaleDateString(), new Date(sale.timestamp).toLocaleTimeString(),
-        formatItems(sale.items).replace(/,/g, ';'), sale.total.toFixed(2), sale.paymentMethod
+        sale.id, formatOrderNumber(sale), new Date(sale.timestamp).toLocaleDateString(), new Date(sale.timestamp).toLocaleTimeString(),
+        formatItems(sale.items).replace(/,/g, ';'), saleGross(sale).toFixed(2), saleDiscount(sale).toFixed(2), sale.promo_code || '',
+        (sale.subtotal ?? sale.total).toFixed(2), saleTaxTotal(sale).toFixed(2), sale.total.toFixed(2), formatPayments(sale).replace(/,/g, ' '), (sale.upi_ref || '').replace(/,/g, ' '), sale.refund_of || '', (sale.refund_reason || '').replace(/,/g, ' '), sale.is_unsynced ? 'No' : 'Yes',
+        staffName(sale.created_by).replace(/,/g, ' '), staffName(sale.completed_by).replace(/,/g, ' ')
       ].join(','));
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows].join('\n');
+    // Appended below the sales, for the accountant.
+    const taxSummary = summarizeTaxes(sales);
+    const taxRows = [
+      '', 'Tax Summary', 'Rate,Rate %,Taxable Value,Tax',
+      ...taxSummary.map(row => [row.name.replace(/,/g, ' '), row.rate, row.taxable.toFixed(2), row.tax.toFixed(2)].join(',')),
+      ['Total', '', taxSummary.reduce((sum, r) => sum + r.taxable, 0).toFixed(2), taxSummary.reduce((sum, r) => sum + r.tax, 0).toFixed(2)].join(','),
+    ];
+    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows, ...taxRows].join('\n');
     const link = Object.assign(document.createElement("a"), { href: encodeURI(csvContent), download: "pyj_sales_history.csv" });
     link.click();
     link.remove();
   };
   
-  const handleExportPDF = () => {
+  const handleExportPDF = async (filter: SalesFilter) => {
+    const sales = await loadSalesForExport(filter);
+    if (!sales) return;
     const { jsPDF } = window.jspdf;
     const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
     const totalRevenue = sales.reduce((sum, sale) => sum + sale.total, 0);
+    const totalDiscounts = sales.reduce((sum, sale) => sum + saleDiscount(sale), 0);
 
     doc.setFontSize(18);
     doc.text("PYJ Sales History", 105, 22, { align: 'center' });
@@ -133,22 +275,41 @@ const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>
     doc.autoTable({
       startY: 35,
       head: [['Date', 'Time', 'Items', 'Payment', 'Total']],
-      body: sales.map(sale => [ new Date(sale.timestamp).toLocaleDateString(), new Date(sale.timestamp).toLocaleTimeString(), formatItems(sale.items), sale.paymentMethod, `₹${sale.total.toFixed(2)}` ]),
+      body: sales.map(sale => [ new Date(sale.timestamp).toLocaleDateString(), new Date(sale.timestamp).toLocaleTimeString(), formatItems(sale.items), formatPayments(sale), `₹${sale.total.toFixed(2)}` ]),
       theme: 'grid', headStyles: { fillColor: [41, 128, 185], textColor: 255, fontStyle: 'bold' },
       didDrawPage: (data) => doc.text(`Page ${doc.internal.getNumberOfPages()}`, data.settings.margin.left, doc.internal.pageSize.getHeight() - 10),
       columnStyles: { 4: { halign: 'right' } }
     });
     
     const finalY = (doc as any).lastAutoTable.finalY;
-    doc.setFontSize(12); doc.setFont('helvetica', 'bold');
-    doc.text('Total Revenue:', 150, finalY + 10, { align: 'right' });
-    doc.text(`₹${totalRevenue.toFixed(2)}`, doc.internal.pageSize.getWidth() - 14, finalY + 10, { align: 'right' });
+    const rightEdge = doc.internal.pageSize.getWidth() - 14;
+    doc.setFontSize(12); doc.setFont('helvetica', 'normal');
+    doc.text('Gross Sales:', 150, finalY + 10, { align: 'right' });
+    doc.text(`₹${(totalRevenue + totalDiscounts).toFixed(2)}`, rightEdge, finalY + 10, { align: 'right' });
+    doc.text('Discounts:', 150, finalY + 17, { align: 'right' });
+    doc.text(`-₹${totalDiscounts.toFixed(2)}`, rightEdge, finalY + 17, { align: 'right' });
+    doc.setFont('helvetica', 'bold');
+    doc.text('Net Revenue:', 150, finalY + 24, { align: 'right' });
+    doc.text(`₹${totalRevenue.toFixed(2)}`, rightEdge, finalY + 24, { align: 'right' });
+
+    const taxSummary = summarizeTaxes(sales);
+    doc.autoTable({
+      startY: finalY + 32,
+      head: [['Tax Rate', 'Taxable Value', 'Tax']],
+      body: taxSummary.map(row => [row.name, `₹${row.taxable.toFixed(2)}`, `₹${row.tax.toFixed(2)}`]),
+      foot: [['Total', `₹${taxSummary.reduce((sum, r) => sum + r.taxable, 0).toFixed(2)}`, `₹${taxSummary.reduce((sum, r) => sum + r.tax, 0).toFixed(2)}`]],
+      theme: 'grid', headStyles: { fillColor: [41, 128, 185], textColor: 255, fontStyle: 'bold' },
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } }
+    });
     doc.save('pyj_sales_history.pdf');
   };
 
   const confirmReset = async () => {
-    await onResetHistory();
+    if (!onResetHistory) return;
+    const result = await onResetHistory();
+    if (!result.ok) return;
     setIsResetModalOpen(false);
+    reload();
     addToast('Sales history has been reset.', 'success');
   };
 
@@ -158,15 +319,29 @@ const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>
         <h2 className="text-3xl font-bold">Sales History</h2>
         <div className="flex flex-wrap gap-2">
           <button onClick={() => setIsReportModalOpen(true)} className="bg-purple-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-purple-500">Daily Report</button>
-          <button onClick={handleExportCSV} className="bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-green-500">Export CSV</button>
-          <button onClick={handleExportPDF} className="bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500">Export PDF</button>
-          <button onClick={() => setIsResetModalOpen(true)} className="flex items-center gap-2 bg-orange-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-orange-500">
-            <RefreshIcon /> Reset History
-          </button>
+          <button onClick={() => handleExportCSV(salesWindow)} disabled={isExporting} className="bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-green-500 disabled:bg-slate-400">Export CSV</button>
+          <button onClick={() => handleExportPDF(salesWindow)} disabled={isExporting} className="bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500 disabled:bg-slate-400">Export PDF</button>
+          {onResetHistory && (
+            <button onClick={() => setIsResetModalOpen(true)} className="flex items-center gap-2 bg-orange-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-orange-500">
+              <RefreshIcon /> Reset History
+            </button>
+          )}
         </div>
       </div>
       
       <div className="bg-white dark:bg-slate-800 p-2 sm:p-4 rounded-lg shadow-lg">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="flex items-center gap-2 text-sm">
+            From
+            <input type="date" value={fromDate} max={toDate} onChange={e => e.target.value && setFromDate(e.target.value)}
+              className="p-2 rounded-md bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600" />
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            To
+            <input type="date" value={toDate} min={fromDate} onChange={e => e.target.value && setToDate(e.target.value)}
+              className="p-2 rounded-md bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600" />
+          </label>
+        </div>
         <div className="overflow-x-auto">
           <table className="w-full text-left">
             <thead>
@@ -184,20 +359,55 @@ const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>
                     <td className="p-3 whitespace-nowrap">
                       <div>{new Date(sale.timestamp).toLocaleDateString()}</div>
                       <div className="text-xs text-slate-500 dark:text-slate-400">{new Date(sale.timestamp).toLocaleTimeString()}</div>
+                      <div className="text-xs font-semibold text-indigo-500 dark:text-indigo-400">#{formatOrderNumber(sale)}</div>
+                      {sale.created_by && <div className="text-xs text-slate-500 dark:text-slate-400">by {staffName(sale.created_by)}</div>}
+                      {sale.is_unsynced && (
+                        <span className="inline-block mt-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-300" title="Saved on this device only. It will sync when the connection returns.">
+                          Unsynced
+                        </span>
+                      )}
+                    </td>
+                    <td className="p-3 max-w-xs xl:max-w-md">
+                      {sale.refund_of && (
+                        <span className="inline-block mb-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-300">Refund</span>
+                      )}
+                      <div>{formatItems(sale.items)}</div>
+                      {sale.refund_reason && <div className="text-xs text-slate-500 dark:text-slate-400">Reason: {sale.refund_reason}</div>}
+                      {refundsBySale.has(sale.id) && (
+                        <div className="text-xs font-semibold text-red-500 dark:text-red-400">{isFullyRefunded(sale, refundsBySale.get(sale.id)!) ? 'Refunded in full' : 'Partly refunded'}</div>
+                      )}
+                      {onRefundSale && !sale.refund_of && !sale.is_unsynced && !isFullyRefunded(sale, refundsBySale.get(sale.id) || []) && (
+                        <button onClick={() => setRefundingSale(sale)} className="text-xs text-red-500 dark:text-red-400 hover:underline">Refund / Void</button>
+                      )}
+                    </td>
+                    <td className="p-3 text-right">
+                      <div className={`font-semibold ${sale.total < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>₹{sale.total.toFixed(2)}</div>
+                      {saleDiscount(sale) > 0 && !sale.refund_of && (
+                        <div className="text-xs text-slate-500 dark:text-slate-400 whitespace-nowrap">
+                          −₹{saleDiscount(sale).toFixed(2)}{sale.promo_code ? ` (${sale.promo_code})` : ''}
+                        </div>
+                      )}
                     </td>
-                    <td className="p-3 max-w-xs xl:max-w-md">{formatItems(sale.items)}</td>
-                    <td className="p-3 text-right font-semibold text-green-600 dark:text-green-400">₹{sale.total.toFixed(2)}</td>
                     <td className="p-3 text-center">
-                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${ sale.paymentMethod === 'Cash' ? 'bg-green-100 dark:bg-green-900/50 text-green-800 dark:text-green-300' : 'bg-blue-100 dark:bg-blue-900/50 text-blue-800 dark:text-blue-300' }`}>
+                      <span className={`px-2 py-1 text-xs font-semibold rounded-full ${paymentBadgeClasses[sale.paymentMethod]}`} title={formatPayments(sale)}>
                         {sale.paymentMethod}
                       </span>
+                      {sale.upi_ref && <div className="mt-1 text-xs text-slate-500 dark:text-slate-400 font-mono break-all" title="UPI transaction reference">{sale.upi_ref}</div>}
                     </td>
                   </tr>
                 ))
-              ) : <tr><td colSpan={4} className="text-center p-6 text-slate-500 dark:text-slate-400">No sales recorded yet.</td></tr> }
+              ) : !isLoading && !error && <tr><td colSpan={4} className="text-center p-6 text-slate-500 dark:text-slate-400">No sales recorded in this period.</td></tr> }
+              {error && <tr><td colSpan={4} className="text-center p-6 text-red-500 dark:text-red-400">Failed to load sales: {error}</td></tr>}
             </tbody>
           </table>
         </div>
+        {(hasMore || isLoading) && (
+          <div className="flex justify-center mt-4">
+            <button onClick={loadMore} disabled={isLoading} className="bg-slate-200 dark:bg-slate-700 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-60">
+              {isLoading ? 'Loading...' : 'Load More'}
+            </button>
+          </div>
+        )}
       </div>
 
       <Modal isOpen={isResetModalOpen} onClose={() => setIsResetModalOpen(false)}>
@@ -205,10 +415,10 @@ const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>
               <h2 className="text-2xl font-bold mb-4 text-center">Reset Sales History?</h2>
               <p className="text-center mb-6"> This will <span className="font-bold text-red-500 dark:text-red-400">permanently delete all</span> sales records. This action cannot be undone. </p>
               <div className="bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg mb-6">
-                <p className="text-sm text-center mb-3">You can download a final copy of the history before resetting.</p>
+                <p className="text-sm text-center mb-3">You can download a final copy of the full history before resetting.</p>
                 <div className="flex justify-center gap-4">
-                  <button onClick={handleExportCSV} className="flex-1 bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-green-500">Download CSV</button>
-                  <button onClick={handleExportPDF} className="flex-1 bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500">Download PDF</button>
+                  <button onClick={() => handleExportCSV({})} disabled={isExporting} className="flex-1 bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-green-500 disabled:bg-slate-400">Download CSV</button>
+                  <button onClick={() => handleExportPDF({})} disabled={isExporting} className="flex-1 bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500 disabled:bg-slate-400">Download PDF</button>
                 </div>
               </div>
               <div className="flex justify-center gap-4">
@@ -218,7 +428,10 @@ const HistoryView: React.FC<{ sales: Sale[]; onResetHistory: () => Promise<void>
           </div>
         </Modal>
         
-        <DailyReportModal isOpen={isReportModalOpen} onClose={() => setIsReportModalOpen(false)} sales={sales} />
+        <DailyReportModal isOpen={isReportModalOpen} onClose={() => setIsReportModalOpen(false)} liveSales={liveSales} />
+        {refundingSale && onRefundSale && (
+          <RefundModal sale={refundingSale} liveSales={liveSales} onRefund={onRefundSale} onClose={() => setRefundingSale(null)} />
+        )}
     </div>
   );
 };
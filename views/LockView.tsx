@@ -0,0 +1,25 @@
+import React from 'react';
+import type { PinVerification } from '../lib/dataStore';
+import PinPad from '../components/PinPad';
+
+interface LockViewProps {
+  staffName: string;
+  onUnlock: (pin: string) => Promise<PinVerification | null>;
+  onSwitchUser: () => void;
+}
+
+// Shown over a session that was locked by hand or after inactivity. Syncing carries on underneath, so the till is current once unlocked.
+const LockView: React.FC<LockViewProps> = ({ staffName, onUnlock, onSwitchUser }) => (
+  <div className="min-h-screen flex flex-col items-center justify-center p-4">
+    <div className="w-full max-w-sm mx-auto">
+      <h1 className="text-4xl font-bold text-center mb-2">PYJ POS System</h1>
+      <p className="text-center text-slate-500 dark:text-slate-400 mb-8">This till is locked. Enter your PIN to continue.</p>
+
+      <div className="bg-white dark:bg-slate-800 shadow-2xl rounded-lg p-8">
+        <PinPad title={staffName} onSubmit={onUnlock} onBack={onSwitchUser} backLabel="Log out and switch user" submitLabel="Unlock" />
+      </div>
+    </div>
+  </div>
+);
+
+export default LockView;
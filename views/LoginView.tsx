@@ -1,109 +1,72 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
+import type { RoleDefinition, StaffMember } from '../types';
+import type { PinVerification } from '../lib/dataStore';
+import PinPad, { isLocked } from '../components/PinPad';
+import { ADMIN_ROLE_ID, roleName } from '../lib/permissions';
 import { KeyIcon, UserCircleIcon } from '../components/icons/Icons';
 
 interface LoginViewProps {
-  onLogin: (role: 'user' | 'admin', password?: string) => Promise<boolean>;
+  onLoadStaff: () => Promise<StaffMember[]>;
+  onLogin: (staffId: string, pin: string) => Promise<PinVerification | null>;
+  roles: RoleDefinition[];
 }
 
-const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
-  const [mode, setMode] = useState<'selection' | 'user' | 'admin'>('selection');
-  const [password, setPassword] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+const LoginView: React.FC<LoginViewProps> = ({ onLoadStaff, onLogin, roles }) => {
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [isLoadingStaff, setIsLoadingStaff] = useState(true);
+  const [selected, setSelected] = useState<StaffMember | null>(null);
 
-  const handleFormSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (mode === 'selection') return;
-
-    setIsLoading(true);
-    setError('');
-    const success = await onLogin(mode, password);
-    if (!success) {
-      setError('Incorrect password. Please try again.');
-      setIsLoading(false);
-    }
-  };
-  
-  const handleRoleSelect = (role: 'user' | 'admin') => {
-    setMode(role);
-    setError('');
-    setPassword('');
-  }
-
-  const handleBack = () => {
-    setMode('selection');
-    setError('');
-    setPassword('');
-  };
+  useEffect(() => {
+    onLoadStaff().then(list => {
+      setStaff(list.filter(s => s.active));
+      setIsLoadingStaff(false);
+    });
+  }, [onLoadStaff]);
 
   const renderContent = () => {
-    if (mode === 'selection') {
+    if (selected) {
       return (
-        <div className="space-y-4">
-           <button
-              onClick={() => handleRoleSelect('user')}
-              className="w-full flex items-center justify-center gap-3 bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg shadow-lg hover:bg-indigo-500 transition-colors duration-200"
-          >
-              <UserCircleIcon />
-              <span>Login as User</span>
-          </button>
-           <button
-              onClick={() => handleRoleSelect('admin')}
-              className="w-full flex items-center justify-center gap-3 bg-slate-600 dark:bg-slate-700 text-slate-100 dark:text-slate-300 font-semibold py-3 px-4 rounded-lg shadow-lg hover:bg-slate-500 dark:hover:bg-slate-600 transition-colors duration-200"
-          >
-              <KeyIcon />
-              <span>Login as Admin</span>
-          </button>
-        </div>
+        <PinPad
+          title={selected.name}
+          lockedUntil={selected.locked_until}
+          onSubmit={(pin) => onLogin(selected.id, pin)}
+          onBack={() => setSelected(null)}
+          backLabel={`Not ${selected.name}?`}
+        />
       );
     }
 
-    const roleName = mode.charAt(0).toUpperCase() + mode.slice(1);
-    
+    if (isLoadingStaff) {
+      return <p className="text-center text-slate-500 dark:text-slate-400">Loading staff...</p>;
+    }
+
+    if (staff.length === 0) {
+      return <p className="text-center text-slate-500 dark:text-slate-400">No active staff accounts. Ask an admin to add one in the database.</p>;
+    }
+
     return (
-      <form onSubmit={handleFormSubmit}>
-        <h2 className="text-2xl font-bold text-center mb-4">{roleName} Login</h2>
-        <div className="space-y-4">
-          <div>
-            <label htmlFor="password-input" className="sr-only">Password</label>
-            <input
-              id="password-input"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder={`Enter ${mode} password`}
-              autoFocus
-              required
-              className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-indigo-500 text-center"
-            />
-          </div>
-          {error && <p className="text-red-500 dark:text-red-400 text-sm text-center">{error}</p>}
-          <button
-            type="submit"
-            disabled={isLoading}
-            className="w-full bg-indigo-600 text-white font-bold py-3 px-4 rounded-lg shadow-lg hover:bg-indigo-500 transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-wait"
-          >
-            {isLoading ? 'Verifying...' : 'Login'}
-          </button>
+      <div className="grid grid-cols-2 gap-3 max-h-96 overflow-y-auto">
+        {staff.map(member => (
           <button
-            type="button"
-            onClick={handleBack}
-            className="w-full text-center text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 text-sm mt-2"
+            key={member.id}
+            onClick={() => setSelected(member)}
+            className="flex flex-col items-center gap-2 p-4 rounded-lg bg-slate-100 dark:bg-slate-700 hover:bg-indigo-600 hover:text-white transition-colors duration-200"
           >
-            &larr; Back to role selection
+            {member.role === ADMIN_ROLE_ID ? <KeyIcon /> : <UserCircleIcon />}
+            <span className="font-semibold text-center break-words">{member.name}</span>
+            <span className="text-xs uppercase opacity-70">{isLocked(member.locked_until) ? 'Locked' : roleName(roles, member.role)}</span>
           </button>
-        </div>
-      </form>
+        ))}
+      </div>
     );
   };
 
-
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4">
       <div className="w-full max-w-sm mx-auto">
         <h1 className="text-4xl font-bold text-center mb-2">PYJ POS System</h1>
         <p className="text-center text-slate-500 dark:text-slate-400 mb-8">
-          {mode === 'selection' ? 'Welcome! Please select your role.' : 'Please enter your password.'}
+          {selected ? 'Please enter your PIN.' : 'Welcome! Tap your name to log in.'}
         </p>
 
         <div className="bg-white dark:bg-slate-800 shadow-2xl rounded-lg p-8 transition-all duration-300">
@@ -114,4 +77,4 @@ const LoginView: React.FC<LoginViewProps> = ({ onLogin }) => {
   );
 };
 
-export default LoginView;
\ No newline at end of file
+export default LoginView;
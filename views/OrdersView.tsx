@@ -1,30 +1,74 @@
 
 import React, { useState, useMemo } from 'react';
-import type { Sale } from '../types';
+import type { Sale, SaleItem } from '../types';
 import Modal from '../components/Modal';
+import { formatOrderNumber, matchesOrderNumber, toLocalDateString } from '../lib/orderNumber';
+import { dateRangeWindow } from '../lib/salesHistory';
+import { formatItemName, formatModifiers } from '../lib/modifiers';
+import { groupRefunds, isFullyRefunded } from '../lib/refunds';
+import type { RefundRequest } from '../lib/refunds';
+import useSalesHistory from '../hooks/useSalesHistory';
+import type { MutationResult } from '../hooks/useMutation';
+import RefundModal from '../components/RefundModal';
 import { NotesIcon, SearchIcon, ViewGridIcon, ViewListIcon } from '../components/icons/Icons';
 
 interface OrdersViewProps {
   sales: Sale[];
-  onUpdateSaleStatus: (saleId: string, status: 'Completed') => Promise<void>;
-  onUpdateSaleNotes: (saleId: string, notes: string) => Promise<void>;
-  role: 'user' | 'admin';
+  onUpdateSaleStatus: (saleId: string, status: 'Completed') => Promise<MutationResult<null>>;
+  onUpdateSaleNotes: (saleId: string, notes: string) => Promise<MutationResult<null>>;
+  canCompleteOrders: boolean;
+  canEditNotes: boolean;
+  // Left out for roles that may not refund.
+  onRefundSale?: (sale: Sale, refund: RefundRequest) => Promise<MutationResult<Sale>>;
+  // Staff id -> name, for showing who completed an order and who last edited its notes.
+  staffNames: Record<string, string>;
 }
 
-const OrderCard: React.FC<{ sale: Sale; onMarkAsDone: (saleId: string) => void }> = ({ sale, onMarkAsDone }) => {
+const UnsyncedBadge: React.FC = () => (
+  <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 dark:bg-amber-900/50 text-amber-800 dark:text-amber-300" title="Saved on this device only. It will sync when the connection returns.">
+    Unsynced
+  </span>
+);
+
+// Tells the kitchen an order was cancelled, in full or in part, after it was placed.
+const RefundBadge: React.FC<{ sale: Sale; refunds?: Sale[] }> = ({ sale, refunds }) => {
+  if (!refunds?.length) return null;
+  return (
+    <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-300">
+      {isFullyRefunded(sale, refunds) ? 'Voided' : 'Partly refunded'}
+    </span>
+  );
+};
+
+// Modifiers get their own line, so the kitchen sees "Large, Less sugar" at a glance.
+const OrderItemRow: React.FC<{ item: SaleItem }> = ({ item }) => (
+  <li className="flex justify-between">
+    <div className="min-w-0 pr-2">
+      <span className="block truncate">{item.name}</span>
+      {item.modifiers && item.modifiers.length > 0 && (
+        <span className="block text-sm text-indigo-600 dark:text-indigo-300">{formatModifiers(item.modifiers)}</span>
+      )}
+    </div>
+    <span className="font-semibold whitespace-nowrap">x {item.quantity}</span>
+  </li>
+);
+
+// Without `onMarkAsDone` the card is read-only, for roles that may see orders but not complete them.
+const OrderCard: React.FC<{ sale: Sale; refunds?: Sale[]; onMarkAsDone?: (saleId: string) => void; onRefund?: (sale: Sale) => void }> = ({ sale, refunds, onMarkAsDone, onRefund }) => {
   return (
     <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg p-4 flex flex-col justify-between transform transition-transform hover:-translate-y-1 animate-fade-in-up">
       <div>
         <div className="flex justify-between items-baseline border-b border-slate-200 dark:border-slate-700 pb-2 mb-3">
-          <h3 className="text-4xl md:text-5xl font-bold text-indigo-500 dark:text-indigo-400 [text-shadow:1px_1px_5px_rgba(99,102,241,0.2)]">#{sale.order_number}</h3>
-          <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(sale.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+          <h3 className="text-4xl md:text-5xl font-bold text-indigo-500 dark:text-indigo-400 [text-shadow:1px_1px_5px_rgba(99,102,241,0.2)]">#{formatOrderNumber(sale)}</h3>
+          <div className="flex flex-col items-end gap-1">
+            <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(sale.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            {sale.is_unsynced && <UnsyncedBadge />}
+            <RefundBadge sale={sale} refunds={refunds} />
+          </div>
         </div>
         <ul className="space-y-1 text-base mb-3 max-h-32 overflow-y-auto">
           {sale.items.map((item, index) => (
-            <li key={`${item.id}-${index}`} className="flex justify-between">
-              <span className="truncate pr-2">{item.name}</span>
-              <span className="font-semibold whitespace-nowrap">x {item.quantity}</span>
-            </li>
+            <OrderItemRow key={`${item.id}-${index}`} item={item} />
           ))}
         </ul>
         {sale.user_notes && (
@@ -34,13 +78,20 @@ const OrderCard: React.FC<{ sale: Sale; onMarkAsDone: (saleId: string) => void }
           </div>
         )}
       </div>
-      <button
-        onClick={() => onMarkAsDone(sale.id)}
-        className="mt-4 w-full bg-green-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-green-500 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-green-500"
-        aria-label={`Mark order number ${sale.order_number} as done`}
-      >
-        Mark as Done
-      </button>
+      {onMarkAsDone && (
+        <button
+          onClick={() => onMarkAsDone(sale.id)}
+          className="mt-4 w-full bg-green-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-green-500 transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-green-500"
+          aria-label={`Mark order number ${formatOrderNumber(sale)} as done`}
+        >
+          Mark as Done
+        </button>
+      )}
+      {onRefund && !sale.is_unsynced && !isFullyRefunded(sale, refunds || []) && (
+        <button onClick={() => onRefund(sale)} className="mt-2 text-sm text-red-500 dark:text-red-400 hover:underline">
+          Refund / Void
+        </button>
+      )}
     </div>
   );
 };
@@ -48,9 +99,9 @@ const OrderCard: React.FC<{ sale: Sale; onMarkAsDone: (saleId: string) => void }
 const CompactOrderCard: React.FC<{ sale: Sale; onClick: (sale: Sale) => void }> = ({ sale, onClick }) => (
     <button
       onClick={() => onClick(sale)}
-      className="bg-white dark:bg-slate-800 rounded-lg shadow-lg p-4 flex flex-col justify-center items-center aspect-square transform transition-transform hover:-translate-y-1 animate-fade-in-up"
+      className={`bg-white dark:bg-slate-800 rounded-lg shadow-lg p-4 flex flex-col justify-center items-center aspect-square transform transition-transform hover:-translate-y-1 animate-fade-in-up ${sale.is_unsynced ? 'ring-2 ring-amber-400' : ''}`}
     >
-      <span className="text-4xl font-bold text-indigo-500 dark:text-indigo-400">#{sale.order_number}</span>
+      <span className="text-4xl font-bold text-indigo-500 dark:text-indigo-400">#{formatOrderNumber(sale)}</span>
     </button>
 );
 
@@ -63,28 +114,31 @@ const RecentlyCompletedChip: React.FC<{ sale: Sale; onClick: (sale: Sale) => voi
             : 'bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 hover:bg-slate-300 dark:hover:bg-slate-600'
         }`}
     >
-        #{sale.order_number} Done
+        #{formatOrderNumber(sale)} Done
     </button>
 );
 
 
-const NotesModal: React.FC<{ sale: Sale; onClose: () => void; onSave: (notes: string) => Promise<void>; }> = ({ sale, onClose, onSave }) => {
+const NotesModal: React.FC<{ sale: Sale; onClose: () => void; onSave: (notes: string) => Promise<MutationResult<null>>; }> = ({ sale, onClose, onSave }) => {
   const [notes, setNotes] = useState(sale.admin_notes || '');
   const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
 
   const handleSave = async () => {
     setIsSaving(true);
-    await onSave(notes);
+    const result = await onSave(notes);
     setIsSaving(false);
-    onClose();
+    if (result.ok) onClose();
+    else setError(result.error.message);
   };
 
   return (
     <Modal isOpen={true} onClose={onClose}>
-      <h2 className="text-2xl font-bold mb-4">Notes for Order #{sale.order_number}</h2>
+      <h2 className="text-2xl font-bold mb-4">Notes for Order #{formatOrderNumber(sale)}</h2>
       <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={5}
         className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500"
         placeholder="Add administrative notes here..." autoFocus />
+      {error && <p className="mt-2 text-sm text-red-500 dark:text-red-400">{error}</p>}
       <div className="mt-6 flex justify-end gap-3">
         <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
         <button onClick={handleSave} disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">
@@ -95,22 +149,22 @@ const NotesModal: React.FC<{ sale: Sale; onClose: () => void; onSave: (notes: st
   );
 };
 
-const OrderDetailsModal: React.FC<{ sale: Sale | null; onClose: () => void; onMarkAsDone: (id: string) => void }> = ({ sale, onClose, onMarkAsDone }) => {
+const OrderDetailsModal: React.FC<{ sale: Sale | null; onClose: () => void; onMarkAsDone?: (id: string) => void }> = ({ sale, onClose, onMarkAsDone }) => {
     if (!sale) return null;
     return (
         <Modal isOpen={true} onClose={onClose}>
             <div className="flex flex-col justify-between">
               <div>
                 <div className="flex justify-between items-baseline border-b border-slate-200 dark:border-slate-700 pb-2 mb-3">
-                  <h3 className="text-4xl md:text-5xl font-bold text-indigo-500 dark:text-indigo-400">#{sale.order_number}</h3>
-                  <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(sale.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                  <h3 className="text-4xl md:text-5xl font-bold text-indigo-500 dark:text-indigo-400">#{formatOrderNumber(sale)}</h3>
+                  <div className="flex flex-col items-end gap-1">
+                    <span className="text-xs text-slate-500 dark:text-slate-400">{new Date(sale.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                    {sale.is_unsynced && <UnsyncedBadge />}
+                  </div>
                 </div>
                 <ul className="space-y-1 text-base mb-3 max-h-48 overflow-y-auto">
                   {sale.items.map((item, index) => (
-                    <li key={`${item.id}-${index}`} className="flex justify-between">
-                      <span className="truncate pr-2">{item.name}</span>
-                      <span className="font-semibold whitespace-nowrap">x {item.quantity}</span>
-                    </li>
+                    <OrderItemRow key={`${item.id}-${index}`} item={item} />
                   ))}
                 </ul>
                 {sale.user_notes && (
@@ -120,46 +174,74 @@ const OrderDetailsModal: React.FC<{ sale: Sale | null; onClose: () => void; onMa
                   </div>
                 )}
               </div>
-              <button
-                onClick={() => { onMarkAsDone(sale.id); onClose(); }}
-                className="mt-4 w-full bg-green-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-green-500"
-              >
-                Mark as Done
-              </button>
+              {onMarkAsDone && (
+                <button
+                  onClick={() => { onMarkAsDone(sale.id); onClose(); }}
+                  className="mt-4 w-full bg-green-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-green-500"
+                >
+                  Mark as Done
+                </button>
+              )}
             </div>
         </Modal>
     );
 };
 
 
-const OrdersView: React.FC<OrdersViewProps> = ({ sales, onUpdateSaleStatus, onUpdateSaleNotes, role }) => {
+const OrdersView: React.FC<OrdersViewProps> = ({ sales, onUpdateSaleStatus, onUpdateSaleNotes, canCompleteOrders, canEditNotes, onRefundSale, staffNames }) => {
   const [showHistory, setShowHistory] = useState(false);
   const [editingSale, setEditingSale] = useState<Sale | null>(null);
   const [isCompactView, setIsCompactView] = useState(false);
   const [selectedOrderDetails, setSelectedOrderDetails] = useState<Sale | null>(null);
   const [historySearchTerm, setHistorySearchTerm] = useState('');
   const [highlightedOrderId, setHighlightedOrderId] = useState<string | null>(null);
+  const [historyDate, setHistoryDate] = useState(() => toLocalDateString(new Date()));
+  const [refundingSale, setRefundingSale] = useState<Sale | null>(null);
 
-
-  const pendingOrders = useMemo(() =>
-    sales.filter(s => s.status === 'Pending').sort((a, b) => (a.order_number || 0) - (b.order_number || 0)),
-  [sales]);
+  const pendingOrders = useMemo(() => {
+    // A void completes the order, but until that reaches the backend, for instance offline, it is left out here.
+    const refunds = groupRefunds(sales);
+    // Oldest first. Timestamps rather than numbers, since numbers restart when a new day or event begins.
+    return sales
+      .filter(s => s.status === 'Pending' && !s.refund_of && !isFullyRefunded(s, refunds.get(s.id) || []))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }, [sales]);
 
   const completedOrders = useMemo(() =>
-    sales.filter(s => s.status === 'Completed').sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+    // Refunds are stored as sales, but there is nothing for the kitchen to make.
+    sales.filter(s => s.status === 'Completed' && !s.refund_of).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
   [sales]);
   
   const recentlyCompleted = completedOrders.slice(0, 5);
 
+  // The history is paged from the backend; the number in the search narrows the query, the prefix is matched here.
+  const searchedNumber = historySearchTerm.match(/\d+/)?.[0];
+  const historyFilter = useMemo(() => ({
+    ...dateRangeWindow(historyDate, historyDate),
+    status: 'Completed' as const,
+    orderNumber: searchedNumber ? parseInt(searchedNumber, 10) : undefined,
+  }), [historyDate, searchedNumber]);
+  const history = useSalesHistory(historyFilter, sales);
+
+  const refundsBySale = useMemo(() => groupRefunds([...sales, ...history.sales]), [sales, history.sales]);
+
   const filteredCompletedOrders = useMemo(() => {
-    if (!historySearchTerm.trim()) return completedOrders;
-    return completedOrders.filter(sale => sale.order_number.toString().includes(historySearchTerm.trim()));
-  }, [completedOrders, historySearchTerm]);
+    const orders = history.sales.filter(sale => !sale.refund_of);
+    if (!historySearchTerm.trim()) return orders;
+    return orders.filter(sale => matchesOrderNumber(sale, historySearchTerm));
+  }, [history.sales, historySearchTerm]);
+
+  const handleSaveNotes = async (saleId: string, notes: string) => {
+    const result = await onUpdateSaleNotes(saleId, notes);
+    if (result.ok) history.patchSale(saleId, { admin_notes: notes });
+    return result;
+  };
 
   const handleChipClick = (sale: Sale) => {
     setHighlightedOrderId(sale.id);
     if (!showHistory) setShowHistory(true);
     setHistorySearchTerm(''); // Clear search on chip click
+    setHistoryDate(toLocalDateString(new Date(sale.timestamp)));
     
     setTimeout(() => {
       document.getElementById(`order-row-${sale.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -190,7 +272,7 @@ const OrdersView: React.FC<OrdersViewProps> = ({ sales, onUpdateSaleStatus, onUp
               {pendingOrders.map(sale => (
                 isCompactView ?
                 <CompactOrderCard key={sale.id} sale={sale} onClick={setSelectedOrderDetails} /> :
-                <OrderCard key={sale.id} sale={sale} onMarkAsDone={(id) => onUpdateSaleStatus(id, 'Completed')} />
+                <OrderCard key={sale.id} sale={sale} refunds={refundsBySale.get(sale.id)} onMarkAsDone={canCompleteOrders ? (id) => onUpdateSaleStatus(id, 'Completed') : undefined} onRefund={onRefundSale ? setRefundingSale : undefined} />
               ))}
             </div>
           ) : (
@@ -223,10 +305,14 @@ const OrdersView: React.FC<OrdersViewProps> = ({ sales, onUpdateSaleStatus, onUp
           </button>
           {showHistory && (
             <div id="order-history-content" className="bg-white dark:bg-slate-800 p-2 sm:p-4 rounded-lg shadow-lg">
-              <div className="relative mb-4">
-                  <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500"><SearchIcon/></span>
-                  <input type="text" placeholder="Search by Order #" value={historySearchTerm} onChange={(e) => setHistorySearchTerm(e.target.value)}
-                      className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-full bg-slate-100 dark:bg-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"/>
+              <div className="flex flex-col sm:flex-row gap-3 mb-4">
+                  <div className="relative flex-1">
+                      <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500"><SearchIcon/></span>
+                      <input type="text" placeholder="Search by Order #" value={historySearchTerm} onChange={(e) => setHistorySearchTerm(e.target.value)}
+                          className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-full bg-slate-100 dark:bg-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"/>
+                  </div>
+                  <input type="date" value={historyDate} onChange={(e) => e.target.value && setHistoryDate(e.target.value)} aria-label="Order history date"
+                      className="px-4 py-2 border border-slate-300 dark:border-slate-600 rounded-full bg-slate-100 dark:bg-slate-700 focus:ring-2 focus:ring-indigo-500 outline-none"/>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-left">
@@ -242,29 +328,55 @@ const OrdersView: React.FC<OrdersViewProps> = ({ sales, onUpdateSaleStatus, onUp
                   <tbody>
                     {filteredCompletedOrders.map(sale => (
                         <tr key={sale.id} id={`order-row-${sale.id}`} className={`border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors duration-500 ${sale.id === highlightedOrderId ? 'bg-indigo-100 dark:bg-indigo-900/50' : ''}`}>
-                          <td className="p-3 font-bold text-indigo-500 dark:text-indigo-400 whitespace-nowrap">#{sale.order_number}</td>
-                          <td className="p-3 whitespace-nowrap">{new Date(sale.timestamp).toLocaleTimeString()}</td>
-                          <td className="p-3 max-w-xs">{sale.items.map(i => `${i.name} (x${i.quantity})`).join(', ')}</td>
+                          <td className="p-3 font-bold text-indigo-500 dark:text-indigo-400 whitespace-nowrap">
+                            <div>#{formatOrderNumber(sale)}</div>
+                            {sale.is_unsynced && <UnsyncedBadge />}
+                            <RefundBadge sale={sale} refunds={refundsBySale.get(sale.id)} />
+                          </td>
+                          <td className="p-3 whitespace-nowrap">
+                            <div>{new Date(sale.timestamp).toLocaleTimeString()}</div>
+                            {sale.completed_by && <div className="text-xs text-slate-500 dark:text-slate-400">Completed by {staffNames[sale.completed_by] || 'former staff'}</div>}
+                          </td>
+                          <td className="p-3 max-w-xs">{sale.items.map(i => `${formatItemName(i)} (x${i.quantity})`).join(', ')}</td>
                           <td className="p-3 max-w-xs">
                             <p className="text-sm whitespace-pre-wrap">{sale.admin_notes || <span className="text-slate-500">No notes</span>}</p>
-                            {role === 'admin' && (
-                                <button onClick={() => setEditingSale(sale)} className="text-xs text-indigo-500 dark:text-indigo-400 hover:underline mt-1" aria-label={`Edit notes for order ${sale.order_number}`}>
+                            {sale.admin_notes && sale.notes_edited_by && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Edited by {staffNames[sale.notes_edited_by] || 'former staff'}</p>}
+                            {canEditNotes && (
+                                <button onClick={() => setEditingSale(sale)} className="text-xs text-indigo-500 dark:text-indigo-400 hover:underline mt-1" aria-label={`Edit notes for order ${formatOrderNumber(sale)}`}>
                                     {sale.admin_notes ? 'Edit Notes' : 'Add Notes'}
                                 </button>
                             )}
                           </td>
-                          <td className="p-3 text-right text-green-600 dark:text-green-400 whitespace-nowrap">₹{sale.total.toFixed(2)}</td>
+                          <td className="p-3 text-right whitespace-nowrap">
+                            <div className="text-green-600 dark:text-green-400">₹{sale.total.toFixed(2)}</div>
+                            {onRefundSale && !sale.is_unsynced && !isFullyRefunded(sale, refundsBySale.get(sale.id) || []) && (
+                              <button onClick={() => setRefundingSale(sale)} className="text-xs text-red-500 dark:text-red-400 hover:underline" aria-label={`Refund or void order ${formatOrderNumber(sale)}`}>
+                                Refund / Void
+                              </button>
+                            )}
+                          </td>
                         </tr>
                     ))}
-                    {filteredCompletedOrders.length === 0 && <tr><td colSpan={5} className="text-center p-6 text-slate-500 dark:text-slate-400">No matching orders found.</td></tr>}
+                    {filteredCompletedOrders.length === 0 && !history.isLoading && !history.error && <tr><td colSpan={5} className="text-center p-6 text-slate-500 dark:text-slate-400">No matching orders found.</td></tr>}
+                    {history.error && <tr><td colSpan={5} className="text-center p-6 text-red-500 dark:text-red-400">Failed to load orders: {history.error}</td></tr>}
                   </tbody>
                 </table>
               </div>
+              {(history.hasMore || history.isLoading) && (
+                <div className="flex justify-center mt-4">
+                  <button onClick={history.loadMore} disabled={history.isLoading} className="bg-slate-200 dark:bg-slate-700 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 disabled:opacity-60">
+                    {history.isLoading ? 'Loading...' : 'Load More'}
+                  </button>
+                </div>
+              )}
             </div>
           )}
         </section>
-       {editingSale && <NotesModal sale={editingSale} onClose={() => setEditingSale(null)} onSave={(notes) => onUpdateSaleNotes(editingSale.id, notes)} />}
-       <OrderDetailsModal sale={selectedOrderDetails} onClose={() => setSelectedOrderDetails(null)} onMarkAsDone={(id) => onUpdateSaleStatus(id, 'Completed')} />
+       {editingSale && <NotesModal sale={editingSale} onClose={() => setEditingSale(null)} onSave={(notes) => handleSaveNotes(editingSale.id, notes)} />}
+       {refundingSale && onRefundSale && (
+         <RefundModal sale={refundingSale} liveSales={sales} onRefund={onRefundSale} onClose={() => setRefundingSale(null)} />
+       )}
+       <OrderDetailsModal sale={selectedOrderDetails} onClose={() => setSelectedOrderDetails(null)} onMarkAsDone={canCompleteOrders ? (id) => onUpdateSaleStatus(id, 'Completed') : undefined} />
     </div>
   );
 };
@@ -1,30 +1,72 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import type { Product, CartItem, SaleItem, Sale, Category } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import type { Product, CartItem, SaleItem, SaleTax, Sale, Category, SelectedModifier, Discount, DiscountKind, Payment, HeldCart } from '../types';
 import { PaymentMethod } from '../types';
 import Modal from '../components/Modal';
-import { XIcon, ReceiptIcon, SearchIcon, NotesIcon } from '../components/icons/Icons';
+import { formatOrderNumber } from '../lib/orderNumber';
+import { cartLineKey, findMissingGroup, formatModifiers, hasModifiers, modifiersTotal, toSelectedModifiers } from '../lib/modifiers';
+import type { ModifierSelection } from '../lib/modifiers';
+import { discountAmount, discountedLineAmounts, formatDiscount, getCartTotals, lineDiscount, roundMoney } from '../lib/discounts';
+import type { CartTotals } from '../lib/discounts';
+import { calculateTaxes, resolveTaxRate } from '../lib/tax';
+import type { TaxBreakdown, TaxConfig } from '../lib/tax';
+import { CASH_DENOMINATIONS, TENDER_METHODS, paymentsTotal } from '../lib/payments';
+import type { CashReceived, TenderMethod } from '../lib/payments';
+import { buildUpiUri, joinUpiRefs } from '../lib/upi';
+import type { UpiConfig } from '../lib/upi';
+import type { HeldCartInput, OrderNumberAllocation } from '../lib/dataStore';
+import type { MutationResult } from '../hooks/useMutation';
+import QrCode from '../components/QrCode';
+import CameraScanner, { isCameraScanSupported } from '../components/CameraScanner';
+import { findProductByCode } from '../lib/productCodes';
+import { playErrorBeep } from '../lib/sound';
+import { eventToCombo, formatCombo } from '../lib/hotkeys';
+import type { HotkeyConfig } from '../lib/hotkeys';
+import { XIcon, ReceiptIcon, SearchIcon, NotesIcon, TagIcon, PauseIcon, CameraIcon } from '../components/icons/Icons';
 import useLocalStorage from '../hooks/useLocalStorage';
+import useBarcodeScanner from '../hooks/useBarcodeScanner';
+import useHotkeys from '../hooks/useHotkeys';
 import { useToasts } from '../components/ToastProvider';
 
 interface PosViewProps {
   products: Product[];
   categories: Category[];
-  onAddSale: (sale: { items: SaleItem[], total: number, paymentMethod: string, userNotes?: string }) => Promise<Sale | undefined>;
+  onAddSale: (sale: { items: SaleItem[], total: number, payments: Payment[], cash?: CashReceived | null, upiRef?: string | null, userNotes?: string, discount?: number, promoCode?: string | null, subtotal?: number, taxes?: SaleTax[] }) => Promise<Sale | undefined>;
+  // Resolves a typed promo code against the latest codes, or says why it cannot be used.
+  onRedeemPromoCode: (code: string) => Promise<{ discount: Discount } | { error: string }>;
+  // Markdowns typed in by hand; promo codes are open to anyone who can sell.
+  canDiscount: boolean;
+  taxConfig: TaxConfig;
+  upiConfig: UpiConfig;
+  // Drawn when a UPI QR first needs it and kept until a sale uses it, so backing out does not waste numbers.
+  reservedOrder: OrderNumberAllocation | null;
+  onReserveOrderNumber: () => Promise<void>;
+  heldCarts: HeldCart[];
+  onHoldCart: (cart: Pick<HeldCartInput, 'label' | 'items' | 'order_discount' | 'user_notes'>) => Promise<MutationResult<HeldCart>>;
+  onClaimHeldCart: (id: string) => Promise<MutationResult<HeldCart | null>>;
+  hotkeys: HotkeyConfig;
+  // Off while an overlay from outside this screen has the keyboard.
+  hotkeysEnabled: boolean;
 }
 
-const ProductCard: React.FC<{ product: Product; onAddToCart: (product: Product) => void }> = ({ product, onAddToCart }) => {
+const ProductCard: React.FC<{ product: Product; onAddToCart: (product: Product) => void; isHighlighted?: boolean }> = ({ product, onAddToCart, isHighlighted = false }) => {
   const isOutOfStock = product.stock <= 0;
   const isLowStock = product.stock > 0 && product.stock <= 5;
+  const ref = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (isHighlighted) ref.current?.scrollIntoView({ block: 'nearest' });
+  }, [isHighlighted]);
 
   return (
     <button
+      ref={ref}
       onClick={() => onAddToCart(product)}
       disabled={isOutOfStock}
       className={`relative rounded-lg shadow-lg overflow-hidden transform transition-all duration-300 group animate-fade-in ${
         isOutOfStock
           ? 'bg-slate-200 dark:bg-slate-700 cursor-not-allowed opacity-60'
           : 'bg-white dark:bg-slate-800 hover:-translate-y-1 hover:shadow-indigo-500/30'
-      }`}
+      } ${isHighlighted ? 'ring-2 ring-indigo-500' : ''}`}
     >
       {isOutOfStock && (
         <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center">
@@ -40,29 +82,125 @@ const ProductCard: React.FC<{ product: Product; onAddToCart: (product: Product)
         <h3 className="text-lg font-bold text-slate-800 dark:text-white text-center">{product.name}</h3>
         <p className="text-indigo-500 dark:text-indigo-400 font-semibold mt-2 text-xl">₹{product.price.toFixed(2)}</p>
         <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Stock: {product.stock}</p>
+        {hasModifiers(product) && <p className="text-xs font-semibold text-indigo-500 dark:text-indigo-400 mt-1">Options available</p>}
       </div>
     </button>
   );
 };
 
+const ModifierPickerModal: React.FC<{
+  product: Product | null;
+  onClose: () => void;
+  onAdd: (product: Product, modifiers: SelectedModifier[]) => void;
+}> = ({ product, onClose, onAdd }) => {
+  const [selection, setSelection] = useState<ModifierSelection>({});
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setSelection({});
+    setError('');
+  }, [product]);
+
+  if (!product) return null;
+  const groups = (product.modifier_groups || []).filter(group => group.options.length > 0);
+  const modifiers = toSelectedModifiers(groups, selection);
+
+  const toggle = (groupId: string, optionId: string, multiple: boolean) => {
+    setError('');
+    setSelection(prev => {
+      const current = prev[groupId] || [];
+      if (current.includes(optionId)) return { ...prev, [groupId]: current.filter(id => id !== optionId) };
+      return { ...prev, [groupId]: multiple ? [...current, optionId] : [optionId] };
+    });
+  };
+
+  const handleAdd = () => {
+    const missing = findMissingGroup(groups, selection);
+    if (missing) {
+      setError(`Please choose a ${missing.name.toLowerCase()}.`);
+      return;
+    }
+    onAdd(product, modifiers);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={true} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-1">{product.name}</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">₹{product.price.toFixed(2)}</p>
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+        {groups.map(group => (
+          <div key={group.id}>
+            <p className="font-semibold mb-2">
+              {group.name}
+              <span className="ml-2 text-xs font-normal text-slate-500 dark:text-slate-400">{group.required ? 'Required' : 'Optional'}{group.multiple ? ', choose any' : ''}</span>
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {group.options.map(option => {
+                const isSelected = !!selection[group.id]?.includes(option.id);
+                return (
+                  <button
+                    key={option.id}
+                    type="button"
+                    onClick={() => toggle(group.id, option.id, group.multiple)}
+                    className={`px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${isSelected ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+                    aria-pressed={isSelected}
+                  >
+                    {option.name}
+                    {option.price_delta !== 0 && <span className="ml-1 opacity-80">{option.price_delta > 0 ? '+' : '−'}₹{Math.abs(option.price_delta).toFixed(2)}</span>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-6 flex justify-end gap-3">
+        <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+        <button onClick={handleAdd} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 transition-colors">
+          Add &middot; ₹{(product.price + modifiersTotal(modifiers)).toFixed(2)}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
 const Cart: React.FC<{
   cartItems: CartItem[];
-  onUpdateQuantity: (productId: string, newQuantity: number) => void;
-  onRemoveItem: (productId: string) => void;
+  totals: CartTotals;
+  tax: TaxBreakdown;
+  orderDiscount: Discount | null;
+  canDiscount: boolean;
+  onUpdateQuantity: (lineKey: string, newQuantity: number) => void;
+  onRemoveItem: (lineKey: string) => void;
+  onDiscountItem: (item: CartItem) => void;
+  onDiscountOrder: () => void;
+  onEnterPromoCode: () => void;
+  onRemoveOrderDiscount: () => void;
   onCheckout: () => void;
   onManualSale: () => void;
   onAddNotes: () => void;
+  onPark: () => void;
   userNotes: string;
-}> = ({ cartItems, onUpdateQuantity, onRemoveItem, onCheckout, onManualSale, onAddNotes, userNotes }) => {
-  const total = useMemo(() => cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0), [cartItems]);
+  checkoutHint: string;
+}> = ({ cartItems, totals, tax, orderDiscount, canDiscount, onUpdateQuantity, onRemoveItem, onDiscountItem, onDiscountOrder, onEnterPromoCode, onRemoveOrderDiscount, onCheckout, onManualSale, onAddNotes, onPark, userNotes, checkoutHint }) => {
+  const hasDiscounts = totals.lineDiscounts > 0 || totals.orderDiscount > 0;
+  const addedTaxes = tax.taxes.filter(t => !t.inclusive);
+  const includedTaxes = tax.taxes.filter(t => t.inclusive);
 
   return (
     <div className="bg-white dark:bg-slate-800 rounded-lg shadow-xl h-full flex flex-col p-4">
       <div className="flex justify-between items-baseline border-b border-slate-200 dark:border-slate-700 pb-3 mb-4">
         <h2 className="text-2xl font-bold">Current Order</h2>
-        <button onClick={onAddNotes} className={`p-2 rounded-full transition-colors ${userNotes ? 'text-indigo-500 bg-indigo-100 dark:bg-slate-700' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}>
-          <NotesIcon />
-        </button>
+        <div className="flex items-center gap-1">
+          <button onClick={onPark} disabled={cartItems.length === 0} className="p-2 rounded-full transition-colors text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent" aria-label="Park order" title="Park this order and start another">
+            <PauseIcon />
+          </button>
+          <button onClick={onAddNotes} className={`p-2 rounded-full transition-colors ${userNotes ? 'text-indigo-500 bg-indigo-100 dark:bg-slate-700' : 'text-slate-500 hover:bg-slate-200 dark:hover:bg-slate-700'}`}>
+            <NotesIcon />
+          </button>
+        </div>
       </div>
       {cartItems.length === 0 ? (
         <div className="flex-grow flex items-center justify-center">
@@ -70,41 +208,108 @@ const Cart: React.FC<{
         </div>
       ) : (
         <div className="flex-grow overflow-y-auto pr-2">
-          {cartItems.map(item => (
-            <div key={item.id} className="flex items-center justify-between mb-4 bg-slate-100 dark:bg-slate-700 p-3 rounded-lg animate-fade-in-right">
-              <div>
-                <p className="font-semibold">{item.name}</p>
-                <p className="text-sm text-indigo-500 dark:text-indigo-400">₹{item.price.toFixed(2)}</p>
+          {cartItems.map(item => {
+            const markdown = lineDiscount(item);
+            return (
+              <div key={cartLineKey(item)} className="flex items-center justify-between mb-4 bg-slate-100 dark:bg-slate-700 p-3 rounded-lg animate-fade-in-right">
+                <div>
+                  <p className="font-semibold">{item.name}</p>
+                  {item.modifiers && item.modifiers.length > 0 && (
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{formatModifiers(item.modifiers)}</p>
+                  )}
+                  <p className="text-sm text-indigo-500 dark:text-indigo-400">₹{item.price.toFixed(2)}</p>
+                  {markdown > 0 && item.discount && (
+                    <p className="text-xs text-green-600 dark:text-green-400">−₹{markdown.toFixed(2)} ({formatDiscount(item.discount)} off)</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max={item.stock}
+                    value={item.quantity}
+                    onChange={(e) => onUpdateQuantity(cartLineKey(item), parseInt(e.target.value, 10))}
+                    className="w-16 bg-white dark:bg-slate-800 rounded-md border border-slate-300 dark:border-slate-600 text-center"
+                  />
+                  {canDiscount && (
+                    <button onClick={() => onDiscountItem(item)} className={`p-1 ${item.discount ? 'text-green-600 dark:text-green-400' : 'text-slate-500 hover:text-slate-700 dark:hover:text-slate-200'}`} aria-label={`Discount ${item.name}`} title="Discount this line">
+                      <TagIcon />
+                    </button>
+                  )}
+                  <button onClick={() => onRemoveItem(cartLineKey(item))} className="text-red-500 hover:text-red-400 p-1">
+                    <XIcon />
+                  </button>
+                </div>
               </div>
-              <div className="flex items-center gap-2">
-                <input
-                  type="number"
-                  min="1"
-                  max={item.stock}
-                  value={item.quantity}
-                  onChange={(e) => onUpdateQuantity(item.id, parseInt(e.target.value, 10))}
-                  className="w-16 bg-white dark:bg-slate-800 rounded-md border border-slate-300 dark:border-slate-600 text-center"
-                />
-                <button onClick={() => onRemoveItem(item.id)} className="text-red-500 hover:text-red-400 p-1">
-                  <XIcon />
-                </button>
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
       <div className="border-t border-slate-200 dark:border-slate-700 pt-4 mt-4">
-        <div className="flex justify-between items-center text-2xl font-bold mb-4">
+        {(hasDiscounts || addedTaxes.length > 0) && (
+          <div className="space-y-1 text-sm mb-2">
+            <div className="flex justify-between">
+              <span>Subtotal</span>
+              <span>₹{totals.gross.toFixed(2)}</span>
+            </div>
+            {totals.lineDiscounts > 0 && (
+              <div className="flex justify-between text-green-600 dark:text-green-400">
+                <span>Item discounts</span>
+                <span>−₹{totals.lineDiscounts.toFixed(2)}</span>
+              </div>
+            )}
+            {totals.orderDiscount > 0 && orderDiscount && (
+              <div className="flex justify-between items-center text-green-600 dark:text-green-400">
+                <span>
+                  {orderDiscount.code ? `Promo ${orderDiscount.code}` : 'Order discount'} ({formatDiscount(orderDiscount)})
+                  <button onClick={onRemoveOrderDiscount} className="ml-2 text-xs underline hover:no-underline text-slate-500 dark:text-slate-400">Remove</button>
+                </span>
+                <span>−₹{totals.orderDiscount.toFixed(2)}</span>
+              </div>
+            )}
+            {addedTaxes.map(t => (
+              <div key={t.rate_id} className="flex justify-between">
+                <span>{t.name}</span>
+                <span>+₹{t.tax.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className={`flex justify-between items-center text-2xl font-bold ${includedTaxes.length > 0 ? 'mb-1' : 'mb-4'}`}>
           <span>Total:</span>
-          <span>₹{total.toFixed(2)}</span>
+          <span>₹{tax.total.toFixed(2)}</span>
         </div>
+        {includedTaxes.length > 0 && (
+          <div className="mb-4 space-y-0.5 text-xs text-slate-500 dark:text-slate-400">
+            {includedTaxes.map(t => (
+              <div key={t.rate_id} className="flex justify-between">
+                <span>Includes {t.name}</span>
+                <span>₹{t.tax.toFixed(2)}</span>
+              </div>
+            ))}
+          </div>
+        )}
         <div className="space-y-2">
+          {cartItems.length > 0 && (
+            <div className="flex gap-2">
+              <button onClick={onEnterPromoCode} className="flex-1 flex items-center justify-center gap-2 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-semibold py-2 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors duration-200">
+                <TagIcon />
+                Promo Code
+              </button>
+              {canDiscount && (
+                <button onClick={onDiscountOrder} className="flex-1 bg-slate-200 dark:bg-slate-700 text-slate-600 dark:text-slate-300 font-semibold py-2 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-600 transition-colors duration-200">
+                  Discount Order
+                </button>
+              )}
+            </div>
+          )}
           <button
             onClick={onCheckout}
             disabled={cartItems.length === 0}
             className="w-full bg-indigo-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-indigo-500 transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-not-allowed"
           >
             Proceed to Payment
+            <span className="ml-2 text-xs font-mono font-normal opacity-75">{checkoutHint}</span>
           </button>
           <button
             onClick={onManualSale}
@@ -119,11 +324,397 @@ const Cart: React.FC<{
   );
 };
 
-const ManualSaleModal: React.FC<{ isOpen: boolean; onClose: () => void; onConfirm: (amount: number, paymentMethod: PaymentMethod) => void; }> = ({ isOpen, onClose, onConfirm }) => {
+// Used for both a single line and the whole order; `base` is what the discount would come off.
+const DiscountModal: React.FC<{
+  isOpen: boolean;
+  title: string;
+  base: number;
+  initial: Discount | null | undefined;
+  onClose: () => void;
+  onApply: (discount: Discount | null) => void;
+}> = ({ isOpen, title, base, initial, onClose, onApply }) => {
+  const [kind, setKind] = useState<DiscountKind>('percent');
+  const [value, setValue] = useState('');
+
+  useEffect(() => {
+    // A promo code is replaced rather than edited, so the form starts empty for one.
+    const editable = initial && !initial.code ? initial : null;
+    setKind(editable?.kind || 'percent');
+    setValue(editable ? String(editable.value) : '');
+  }, [initial, isOpen]);
+
+  const numericValue = parseFloat(value);
+  const isValid = !isNaN(numericValue) && numericValue > 0 && (kind === 'fixed' || numericValue <= 100);
+  const amount = isValid ? discountAmount({ kind, value: numericValue }, base) : 0;
+
+  const handleApply = () => {
+    if (!isValid) return;
+    onApply({ kind, value: numericValue });
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-1">{title}</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Before discount: ₹{base.toFixed(2)}</p>
+      <div className="flex gap-2 mb-4">
+        {(['percent', 'fixed'] as DiscountKind[]).map(k => (
+          <button
+            key={k}
+            type="button"
+            onClick={() => setKind(k)}
+            className={`flex-1 py-2 rounded-lg font-semibold transition-colors ${kind === k ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'}`}
+            aria-pressed={kind === k}
+          >
+            {k === 'percent' ? 'Percent (%)' : 'Amount (₹)'}
+          </button>
+        ))}
+      </div>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleApply()}
+        min="0.01"
+        max={kind === 'percent' ? 100 : undefined}
+        step="0.01"
+        placeholder={kind === 'percent' ? '10' : '0.00'}
+        className="block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-2xl text-center"
+        autoFocus
+      />
+      <p className="mt-2 text-sm text-center text-slate-500 dark:text-slate-400">
+        {isValid ? `₹${amount.toFixed(2)} off, ₹${(base - amount).toFixed(2)} to pay` : kind === 'percent' ? 'Enter a percentage up to 100.' : 'Enter an amount.'}
+      </p>
+      <div className="mt-6 flex justify-between gap-3">
+        <button type="button" onClick={() => { onApply(null); onClose(); }} disabled={!initial} className="text-red-500 hover:text-red-400 font-semibold disabled:opacity-0">Remove Discount</button>
+        <div className="flex gap-3">
+          <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+          <button onClick={handleApply} disabled={!isValid} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 transition-colors disabled:bg-slate-500">Apply</button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+const PromoCodeModal: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+  onRedeem: (code: string) => Promise<string | null>;
+}> = ({ isOpen, onClose, onRedeem }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+
+  useEffect(() => {
+    setCode('');
+    setError('');
+  }, [isOpen]);
+
+  const handleRedeem = async () => {
+    if (!code.trim() || isChecking) return;
+    setIsChecking(true);
+    const redeemError = await onRedeem(code);
+    setIsChecking(false);
+    if (redeemError) setError(redeemError);
+    else onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-4">Promo Code</h2>
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => { setCode(e.target.value); setError(''); }}
+        onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+        placeholder="e.g. DIWALI10"
+        className="block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-2xl text-center uppercase"
+        autoFocus
+      />
+      {error && <p className="mt-2 text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-6 flex justify-end gap-3">
+        <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+        <button onClick={handleRedeem} disabled={!code.trim() || isChecking} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 transition-colors disabled:bg-slate-500">
+          {isChecking ? 'Checking...' : 'Apply'}
+        </button>
+      </div>
+    </Modal>
+  );
+};
+
+const tenderButtonClasses: Record<TenderMethod, string> = {
+  [PaymentMethod.CASH]: 'bg-green-600 hover:bg-green-500',
+  [PaymentMethod.UPI]: 'bg-blue-600 hover:bg-blue-500',
+};
+
+// Counts up the notes handed over and shows the change; the payment cannot go through while short.
+const CashStep: React.FC<{
+  due: number;
+  onConfirm: (tendered: number) => void;
+  onBack: () => void;
+}> = ({ due, onConfirm, onBack }) => {
+  const [tendered, setTendered] = useState('');
+  const received = roundMoney(parseFloat(tendered) || 0);
+  const change = roundMoney(received - due);
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-1 text-center">Cash</h2>
+      <p className="text-center text-slate-500 dark:text-slate-400 mb-4">Due: <span className="font-bold text-slate-800 dark:text-slate-100">₹{due.toFixed(2)}</span></p>
+      <label htmlFor="cash-tendered" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Cash Received (₹)</label>
+      <input
+        id="cash-tendered"
+        type="number"
+        value={tendered}
+        onChange={(e) => setTendered(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && change >= 0 && onConfirm(received)}
+        min="0"
+        step="0.01"
+        placeholder="0.00"
+        className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-2xl text-center"
+        autoFocus
+      />
+      <div className="grid grid-cols-3 gap-2 mt-3">
+        {CASH_DENOMINATIONS.map(note => (
+          <button key={note} type="button" onClick={() => setTendered(String(roundMoney(received + note)))} className="py-2 rounded-lg font-semibold bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600">
+            +₹{note}
+          </button>
+        ))}
+        <button type="button" onClick={() => setTendered(due.toFixed(2))} className="py-2 rounded-lg font-semibold bg-indigo-100 text-indigo-700 dark:bg-indigo-900/50 dark:text-indigo-300 hover:bg-indigo-200 dark:hover:bg-indigo-900">
+          Exact
+        </button>
+      </div>
+      <div className={`mt-4 p-3 rounded-lg text-center ${change >= 0 ? 'bg-green-100 dark:bg-green-900/50' : 'bg-red-100 dark:bg-red-900/50'}`}>
+        {change >= 0 ? (
+          <>
+            <p className="text-sm text-green-700 dark:text-green-300">Change Due</p>
+            <p className="text-3xl font-bold text-green-700 dark:text-green-300">₹{change.toFixed(2)}</p>
+          </>
+        ) : (
+          <p className="font-semibold text-red-600 dark:text-red-400">₹{(-change).toFixed(2)} short</p>
+        )}
+      </div>
+      <div className="mt-4 flex justify-between gap-3">
+        <button type="button" onClick={onBack} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Back</button>
+        <button onClick={() => onConfirm(received)} disabled={change < 0} className="flex-1 bg-green-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-green-500 disabled:bg-slate-500 disabled:cursor-not-allowed">
+          Take Cash
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Shows a QR for the exact amount, so the customer scans and confirms instead of typing it in.
+const UpiStep: React.FC<{
+  due: number;
+  config: UpiConfig;
+  note: string;
+  onConfirm: (reference: string) => void;
+  onBack: () => void;
+}> = ({ due, config, note, onConfirm, onBack }) => {
+  const [reference, setReference] = useState('');
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-1 text-center">UPI</h2>
+      <p className="text-center text-slate-500 dark:text-slate-400 mb-4">Due: <span className="font-bold text-slate-800 dark:text-slate-100">₹{due.toFixed(2)}</span></p>
+      {config.vpa ? (
+        <div className="flex flex-col items-center gap-2">
+          <QrCode
+            value={buildUpiUri(config, due, note)}
+            fallback={<p className="p-4 text-center text-sm text-amber-600 dark:text-amber-400">The QR code could not be drawn. Ask the customer to pay {config.vpa}.</p>}
+          />
+          <p className="text-sm font-semibold">{config.payeeName || config.vpa}</p>
+          {config.payeeName && <p className="text-xs text-slate-500 dark:text-slate-400">{config.vpa}</p>}
+        </div>
+      ) : (
+        <p className="p-4 text-center text-sm text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-700 rounded-lg">No UPI ID is set up, so there is no QR to show. An admin can add one under Inventory → UPI.</p>
+      )}
+      <label htmlFor="upi-reference" className="block mt-4 text-sm font-medium text-slate-500 dark:text-slate-300">Transaction Reference (UTR, optional)</label>
+      <input
+        id="upi-reference"
+        type="text"
+        value={reference}
+        onChange={(e) => setReference(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && onConfirm(reference.trim())}
+        maxLength={35}
+        placeholder="From the customer's payment screen"
+        className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+      />
+      <div className="mt-4 flex justify-between gap-3">
+        <button type="button" onClick={onBack} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Back</button>
+        <button onClick={() => onConfirm(reference.trim())} className="flex-1 bg-blue-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-blue-500">
+          Payment Received
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// A payment as taken at the till; `tendered` is set on cash payments only, `reference` on UPI ones.
+type TakenPayment = Payment & { tendered?: number; reference?: string };
+
+// What the till noted about the payments beyond their amounts.
+interface TenderDetails {
+  cash: CashReceived | null;
+  upiRef: string | null;
+}
+
+/**
+ * Takes one or more payments towards `total`. Each payment defaults to the remaining balance, so a
+ * sale paid one way is still a single tap (plus the cash step); the sale completes once nothing is
+ * left to pay.
+ */
+const TenderPanel: React.FC<{
+  total: number;
+  isProcessing: boolean;
+  upiConfig: UpiConfig;
+  upiNote: string;
+  onUpiStart: () => void;
+  onComplete: (payments: Payment[], details: TenderDetails) => void;
+  hotkeys: HotkeyConfig;
+}> = ({ total, isProcessing, upiConfig, upiNote, onUpiStart, onComplete, hotkeys }) => {
+  const [payments, setPayments] = useState<TakenPayment[]>([]);
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState('');
+  const [cashDue, setCashDue] = useState<number | null>(null);
+  const [upiDue, setUpiDue] = useState<number | null>(null);
+  const remaining = roundMoney(total - paymentsTotal(payments));
+
+  useEffect(() => { setAmount(remaining.toFixed(2)); }, [remaining]);
+
+  const record = (payment: TakenPayment) => {
+    const next = [...payments, payment];
+    if (paymentsTotal(next) < total) {
+      setPayments(next);
+      return;
+    }
+    const cashParts = next.filter(p => p.tendered !== undefined);
+    const cash = cashParts.length > 0 ? {
+      tendered: roundMoney(cashParts.reduce((sum, p) => sum + p.tendered!, 0)),
+      change: roundMoney(cashParts.reduce((sum, p) => sum + p.tendered! - p.amount, 0)),
+    } : null;
+    const upiRef = joinUpiRefs(next.map(p => p.reference));
+    onComplete(next.map(({ tendered, reference, ...p }) => p), { cash, upiRef });
+  };
+
+  const addPayment = (method: TenderMethod) => {
+    // A fully discounted order still records how it was closed.
+    if (total <= 0) return onComplete([{ method, amount: 0 }], { cash: null, upiRef: null });
+    const value = roundMoney(parseFloat(amount));
+    if (isNaN(value) || value <= 0) {
+      setError('Enter the amount being paid.');
+      return;
+    }
+    if (value > remaining) {
+      setError(`Only ₹${remaining.toFixed(2)} is left to pay.`);
+      return;
+    }
+    setError('');
+    if (method === PaymentMethod.CASH) {
+      setCashDue(value);
+    } else {
+      setUpiDue(value);
+      onUpiStart();
+    }
+  };
+
+  const methodHotkeys: Record<TenderMethod, string> = { [PaymentMethod.CASH]: hotkeys.payCash, [PaymentMethod.UPI]: hotkeys.payUpi };
+  useHotkeys(hotkeys, isProcessing || cashDue !== null || upiDue !== null ? {} : {
+    payCash: () => addPayment(PaymentMethod.CASH),
+    payUpi: () => addPayment(PaymentMethod.UPI),
+  });
+
+  if (cashDue !== null && !isProcessing) {
+    return (
+      <CashStep
+        due={cashDue}
+        onBack={() => setCashDue(null)}
+        onConfirm={(tendered) => { setCashDue(null); record({ method: PaymentMethod.CASH, amount: cashDue, tendered }); }}
+      />
+    );
+  }
+
+  if (upiDue !== null && !isProcessing) {
+    return (
+      <UpiStep
+        due={upiDue}
+        config={upiConfig}
+        note={upiNote}
+        onBack={() => setUpiDue(null)}
+        onConfirm={(reference) => { setUpiDue(null); record({ method: PaymentMethod.UPI, amount: upiDue, reference: reference || undefined }); }}
+      />
+    );
+  }
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-4 text-center">Take Payment</h2>
+      <div className="grid grid-cols-3 gap-2 text-center mb-4">
+        <div className="p-2 bg-slate-100 dark:bg-slate-700 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400">Total</p>
+          <p className="font-bold">₹{total.toFixed(2)}</p>
+        </div>
+        <div className="p-2 bg-slate-100 dark:bg-slate-700 rounded-lg">
+          <p className="text-xs text-slate-500 dark:text-slate-400">Paid</p>
+          <p className="font-bold">₹{paymentsTotal(payments).toFixed(2)}</p>
+        </div>
+        <div className="p-2 bg-indigo-100 dark:bg-indigo-900/50 rounded-lg">
+          <p className="text-xs text-indigo-600 dark:text-indigo-300">Remaining</p>
+          <p className="font-bold text-indigo-600 dark:text-indigo-300">₹{remaining.toFixed(2)}</p>
+        </div>
+      </div>
+      {payments.length > 0 && (
+        <ul className="mb-4 space-y-1 text-sm">
+          {payments.map((payment, i) => (
+            <li key={i} className="flex justify-between items-center p-2 rounded-md bg-slate-100 dark:bg-slate-700/50">
+              <span>
+                {payment.method}
+                {payment.tendered !== undefined && payment.tendered > payment.amount && (
+                  <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">₹{payment.tendered.toFixed(2)} received, ₹{(payment.tendered - payment.amount).toFixed(2)} change</span>
+                )}
+              </span>
+              <span className="flex items-center gap-2">
+                ₹{payment.amount.toFixed(2)}
+                <button onClick={() => setPayments(prev => prev.filter((_, j) => j !== i))} disabled={isProcessing} className="text-red-500 hover:text-red-400" aria-label={`Remove ${payment.method} payment`}>
+                  <XIcon />
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <label htmlFor="tender-amount" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Amount (₹)</label>
+      <input
+        id="tender-amount"
+        type="number"
+        value={amount}
+        onChange={(e) => { setAmount(e.target.value); setError(''); }}
+        min="0.01"
+        max={remaining}
+        step="0.01"
+        disabled={isProcessing}
+        className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 text-2xl text-center"
+      />
+      {error && <p className="mt-2 text-sm text-center text-red-500 dark:text-red-400">{error}</p>}
+      <div className="flex justify-center gap-4 mt-4">
+        {TENDER_METHODS.map(method => (
+          <button key={method} onClick={() => addPayment(method)} disabled={isProcessing} className={`flex-1 text-white font-bold py-3 px-8 rounded-lg shadow-lg transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-wait ${tenderButtonClasses[method]}`}>
+            {isProcessing ? 'Processing...' : method}
+            {!isProcessing && <span className="block text-xs font-mono font-normal opacity-75">{formatCombo(methodHotkeys[method])}</span>}
+          </button>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-center text-slate-500 dark:text-slate-400">To split the bill, change the amount before choosing how it is paid.</p>
+    </div>
+  );
+};
+
+const ManualSaleModal: React.FC<{ isOpen: boolean; onClose: () => void; onConfirm: (amount: number, paymentMethod: TenderMethod) => void; }> = ({ isOpen, onClose, onConfirm }) => {
   const [amount, setAmount] = useState('');
   const { addToast } = useToasts();
 
-  const handleConfirm = (paymentMethod: PaymentMethod) => {
+  const handleConfirm = (paymentMethod: TenderMethod) => {
     const numericAmount = parseFloat(amount);
     if (!isNaN(numericAmount) && numericAmount > 0) {
       onConfirm(numericAmount, paymentMethod);
@@ -182,8 +773,79 @@ const NotesModal: React.FC<{ isOpen: boolean; initialNotes: string; onClose: ()
   );
 };
 
+// Orders parked on any till, oldest first; tapping one brings it back here.
+const HeldCartsBar: React.FC<{ heldCarts: HeldCart[]; onRecall: (cart: HeldCart) => void }> = ({ heldCarts, onRecall }) => {
+  if (heldCarts.length === 0) return null;
+  return (
+    <div className="flex items-center gap-2 mb-4 overflow-x-auto pb-1">
+      <span className="flex-shrink-0 text-xs font-semibold uppercase text-slate-500 dark:text-slate-400">Parked</span>
+      {heldCarts.map(cart => {
+        const itemCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+        return (
+          <button
+            key={cart.id}
+            onClick={() => onRecall(cart)}
+            title={`Parked at ${new Date(cart.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${cart.user_notes ? ` · ${cart.user_notes}` : ''}`}
+            className="flex-shrink-0 px-3 py-1.5 rounded-full text-sm bg-amber-100 text-amber-900 dark:bg-amber-900/50 dark:text-amber-200 hover:bg-amber-200 dark:hover:bg-amber-900 transition-colors"
+          >
+            <span className="font-semibold">{cart.label}</span>
+            <span className="opacity-75"> &middot; {itemCount} {itemCount === 1 ? 'item' : 'items'} &middot; ₹{getCartTotals(cart.items, cart.order_discount ?? null).net.toFixed(2)}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+// `recalling` is set when the cashier picked a parked order while this one still had items.
+const ParkCartModal: React.FC<{
+  isOpen: boolean;
+  recalling: HeldCart | null;
+  onClose: () => void;
+  onPark: (label: string) => Promise<void>;
+}> = ({ isOpen, recalling, onClose, onPark }) => {
+  const [label, setLabel] = useState('');
+  const [isParking, setIsParking] = useState(false);
+
+  useEffect(() => { if (isOpen) setLabel(''); }, [isOpen]);
+
+  const handlePark = async () => {
+    setIsParking(true);
+    await onPark(label.trim() || `Order at ${new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`);
+    setIsParking(false);
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-2">Park Order</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        {recalling
+          ? `Park the current order first, then "${recalling.label}" is brought back.`
+          : 'The order is kept for any till to finish later.'}
+      </p>
+      <label htmlFor="park-label" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Label</label>
+      <input
+        id="park-label"
+        type="text"
+        value={label}
+        onChange={(e) => setLabel(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && !isParking && handlePark()}
+        maxLength={40}
+        placeholder="e.g. customer name or table"
+        className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+        autoFocus
+      />
+      <div className="mt-6 flex justify-end gap-3">
+        <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500 transition-colors">Cancel</button>
+        <button onClick={handlePark} disabled={isParking} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 transition-colors disabled:bg-slate-500">
+          {isParking ? 'Parking...' : recalling ? 'Park & Recall' : 'Park Order'}
+        </button>
+      </div>
+    </Modal>
+  );
+};
 
-const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) => {
+const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale, onRedeemPromoCode, canDiscount, taxConfig, upiConfig, reservedOrder, onReserveOrderNumber, heldCarts, onHoldCart, onClaimHeldCart, hotkeys, hotkeysEnabled }) => {
   const [cartItems, setCartItems] = useLocalStorage<CartItem[]>('posCartItems', []);
   const [isPaymentModalOpen, setPaymentModalOpen] = useState(false);
   const [isManualSaleModalOpen, setManualSaleModalOpen] = useState(false);
@@ -192,44 +854,176 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [activeCategoryId, setActiveCategoryId] = useState<string | null>(null);
+  const [pickingProduct, setPickingProduct] = useState<Product | null>(null);
   const [userNotes, setUserNotes] = useLocalStorage<string>('posUserNotes', '');
+  const [orderDiscount, setOrderDiscount] = useLocalStorage<Discount | null>('posOrderDiscount', null);
+  const [discountingLineKey, setDiscountingLineKey] = useState<string | null>(null);
+  const [isOrderDiscountModalOpen, setOrderDiscountModalOpen] = useState(false);
+  const [isPromoCodeModalOpen, setPromoCodeModalOpen] = useState(false);
+  const [isParkModalOpen, setParkModalOpen] = useState(false);
+  const [pendingRecall, setPendingRecall] = useState<HeldCart | null>(null);
+  const [isCameraOpen, setCameraOpen] = useState(false);
+  // The search result Enter adds; arrows in the search box move it.
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const searchInputRef = useRef<HTMLInputElement>(null);
   const { addToast } = useToasts();
 
+  const totals = useMemo(() => getCartTotals(cartItems, orderDiscount), [cartItems, orderDiscount]);
+  // Tax is worked out on what each line comes to after discounts.
+  const tax = useMemo(() => {
+    const amounts = discountedLineAmounts(cartItems, totals);
+    const lines = cartItems.map((item, i) => ({ amount: amounts[i], rate: resolveTaxRate(taxConfig, categories, item) }));
+    return calculateTaxes(lines, taxConfig.pricesIncludeTax);
+  }, [cartItems, totals, taxConfig, categories]);
+  // An order discount belongs to the order it was given on, so it goes once the cart is emptied.
+  useEffect(() => {
+    if (cartItems.length === 0) setOrderDiscount(null);
+  }, [cartItems.length]);
+  const discountingLine = cartItems.find(item => cartLineKey(item) === discountingLineKey) || null;
+
   const filteredProducts = useMemo(() => {
     return products.filter(product => {
-      const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase());
+      const term = searchTerm.toLowerCase();
+      const matchesSearch = product.name.toLowerCase().includes(term)
+        || !!product.sku?.toLowerCase().includes(term)
+        || !!product.barcode?.includes(searchTerm.trim());
       const matchesCategory = !activeCategoryId || product.category_id === activeCategoryId;
       return matchesSearch && matchesCategory;
     });
   }, [products, searchTerm, activeCategoryId]);
 
-  const handleAddToCart = (product: Product) => {
+  useEffect(() => { setHighlightedIndex(0); }, [searchTerm, activeCategoryId]);
+  const highlightedProduct = searchTerm.trim() ? filteredProducts[highlightedIndex] : undefined;
+
+  const addLine = (product: Product, modifiers: SelectedModifier[]) => {
+    const line: CartItem = { ...product, price: product.price + modifiersTotal(modifiers), quantity: 1, modifiers };
+    const key = cartLineKey(line);
     setCartItems(prevItems => {
-      const existingItem = prevItems.find(item => item.id === product.id);
-      if (existingItem) {
-        if (existingItem.quantity < product.stock) {
-          return prevItems.map(item =>
-            item.id === product.id ? { ...item, quantity: item.quantity + 1 } : item
-          );
-        } else {
-          addToast(`${product.name} is out of stock`, 'warning');
-        }
+      // Stock is shared by every line of the product, whatever its modifiers.
+      const inCart = prevItems.filter(item => item.id === product.id).reduce((sum, item) => sum + item.quantity, 0);
+      if (inCart >= product.stock) {
+        addToast(`${product.name} is out of stock`, 'warning');
         return prevItems;
       }
-      return [...prevItems, { ...product, quantity: 1 }];
+      if (prevItems.some(item => cartLineKey(item) === key)) {
+        return prevItems.map(item => cartLineKey(item) === key ? { ...item, quantity: item.quantity + 1 } : item);
+      }
+      return [...prevItems, line];
     });
   };
 
-  const handleUpdateQuantity = (productId: string, newQuantity: number) => {
+  const handleAddToCart = (product: Product) => {
+    if (hasModifiers(product)) setPickingProduct(product);
+    else addLine(product, []);
+  };
+
+  // Adds the product a scanner read, or beeps; returns what happened for the camera preview.
+  const handleScannedCode = (code: string): string => {
+    const product = findProductByCode(products, code);
+    if (!product) {
+      playErrorBeep();
+      addToast(`No product has the code ${code}.`, 'error');
+      return `Unknown code ${code}`;
+    }
+    // The modifier picker needs the screen, so the camera makes way for it.
+    if (hasModifiers(product)) setCameraOpen(false);
+    handleAddToCart(product);
+    return `Added ${product.name}`;
+  };
+
+  const isAnyModalOpen = isPaymentModalOpen || isManualSaleModalOpen || isNotesModalOpen || !!pickingProduct || !!discountingLine
+    || isOrderDiscountModalOpen || isPromoCodeModalOpen || isParkModalOpen || isCameraOpen;
+  useBarcodeScanner(handleScannedCode, !isAnyModalOpen);
+
+  // A scanner pointed at the search box types the code there; Enter then adds the product. Otherwise
+  // the add shortcut takes the highlighted result, and the search is cleared for the next item.
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!highlightedProduct) return;
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedIndex(i => Math.min(Math.max(i + step, 0), filteredProducts.length - 1));
+      return;
+    }
+    if (!searchTerm.trim()) return;
+    if (e.key === 'Enter' && findProductByCode(products, searchTerm)) {
+      e.preventDefault();
+      handleScannedCode(searchTerm);
+      setSearchTerm('');
+    } else if (eventToCombo(e.nativeEvent) === hotkeys.addHighlighted && highlightedProduct) {
+      e.preventDefault();
+      handleAddToCart(highlightedProduct);
+      setSearchTerm('');
+    } else if (e.key === 'Enter' && filteredProducts.length === 0) {
+      handleScannedCode(searchTerm);
+    }
+  };
+
+  const handleUpdateQuantity = (lineKey: string, newQuantity: number) => {
     setCartItems(prevItems =>
       prevItems.map(item =>
-        item.id === productId ? { ...item, quantity: newQuantity > 0 ? newQuantity : 1 } : item
+        cartLineKey(item) === lineKey ? { ...item, quantity: newQuantity > 0 ? newQuantity : 1 } : item
       )
     );
   };
   
-  const handleRemoveItem = (productId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.id !== productId));
+  const handleRemoveItem = (lineKey: string) => {
+    setCartItems(prevItems => prevItems.filter(item => cartLineKey(item) !== lineKey));
+  };
+
+  const handleDiscountLine = (discount: Discount | null) => {
+    setCartItems(prevItems => prevItems.map(item => cartLineKey(item) === discountingLineKey ? { ...item, discount } : item));
+  };
+
+  const handleRedeemPromoCode = async (code: string): Promise<string | null> => {
+    const result = await onRedeemPromoCode(code);
+    if ('error' in result) return result.error;
+    setOrderDiscount(result.discount);
+    addToast(`Promo code ${result.discount.code} applied.`, 'success');
+    return null;
+  };
+
+  const clearOrder = () => {
+    setCartItems([]);
+    setUserNotes('');
+    setOrderDiscount(null);
+  };
+
+  const recallCart = async (cart: HeldCart) => {
+    const result = await onClaimHeldCart(cart.id);
+    if (!result.ok) return;
+    if (!result.data) {
+      addToast(`"${cart.label}" was already recalled on another till.`, 'warning');
+      return;
+    }
+    setCartItems(result.data.items);
+    setUserNotes(result.data.user_notes || '');
+    setOrderDiscount(result.data.order_discount || null);
+    addToast(`Recalled "${cart.label}".`, 'success');
+  };
+
+  // Only one order is worked on at a time, so one with items is parked before another comes back.
+  const handleRecallCart = (cart: HeldCart) => {
+    if (cartItems.length === 0) {
+      recallCart(cart);
+      return;
+    }
+    setPendingRecall(cart);
+    setParkModalOpen(true);
+  };
+
+  const closeParkModal = () => {
+    setParkModalOpen(false);
+    setPendingRecall(null);
+  };
+
+  const handleParkCart = async (label: string) => {
+    const result = await onHoldCart({ label, items: cartItems, order_discount: orderDiscount, user_notes: userNotes || null });
+    if (!result.ok) return;
+    const next = pendingRecall;
+    clearOrder();
+    closeParkModal();
+    if (next) await recallCart(next);
   };
 
   const handleCheckout = () => {
@@ -237,22 +1031,36 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
     setPaymentModalOpen(true);
   };
 
-  const handleConfirmPayment = async (paymentMethod: PaymentMethod) => {
+  const handleUpiStart = async () => {
+    if (reservedOrder || !upiConfig.vpa) return;
+    await onReserveOrderNumber();
+  };
+
+  const handleConfirmPayment = async (payments: Payment[], { cash, upiRef }: TenderDetails) => {
     setIsProcessingPayment(true);
-    const total = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0);
+    // Sale items record the amount taken off, worked out once here, rather than how it was entered.
     const saleData = {
-      items: cartItems.map(({ stock, categories, category_id, ...item }) => item),
-      total,
-      paymentMethod,
+      items: cartItems.map(cartItem => {
+        const { stock, categories, category_id, modifier_groups, modifiers, discount, ...item } = cartItem;
+        const markdown = lineDiscount(cartItem);
+        return { ...item, ...(modifiers?.length ? { modifiers } : {}), ...(markdown > 0 ? { discount: markdown } : {}) };
+      }),
+      total: tax.total,
+      payments,
+      cash,
+      upiRef,
       userNotes,
+      discount: totals.orderDiscount,
+      promoCode: totals.orderDiscount > 0 ? orderDiscount?.code ?? null : null,
+      subtotal: tax.subtotal,
+      taxes: tax.taxes,
     };
     
     try {
       const newSale = await onAddSale(saleData);
       if (newSale) {
         setCompletedSale(newSale);
-        setCartItems([]);
-        setUserNotes('');
+        clearOrder();
       } else {
         setPaymentModalOpen(false);
       }
@@ -264,14 +1072,14 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
     }
   };
   
-  const handleConfirmManualSale = (amount: number, paymentMethod: PaymentMethod) => {
+  const handleConfirmManualSale = (amount: number, paymentMethod: TenderMethod) => {
     if (amount <= 0) return;
     const saleData = {
       items: [{
         id: `manual-${Date.now()}`, name: 'Manual Sale', price: amount, quantity: 1,
       }],
       total: amount,
-      paymentMethod,
+      payments: [{ method: paymentMethod, amount }],
     };
     onAddSale(saleData);
     setManualSaleModalOpen(false);
@@ -281,6 +1089,38 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
     setCompletedSale(null);
     setPaymentModalOpen(false);
   };
+
+  const focusSearch = () => {
+    searchInputRef.current?.focus();
+    searchInputRef.current?.select();
+  };
+
+  // Quantity shortcuts work on the line added last, which is usually the one just scanned.
+  const lastLine = cartItems[cartItems.length - 1];
+  const changeLastLineQuantity = (change: 1 | -1) => {
+    if (!lastLine) return;
+    if (change === 1) {
+      const product = products.find(p => p.id === lastLine.id);
+      if (product) addLine(product, lastLine.modifiers || []);
+    } else if (lastLine.quantity > 1) {
+      handleUpdateQuantity(cartLineKey(lastLine), lastLine.quantity - 1);
+    } else {
+      handleRemoveItem(cartLineKey(lastLine));
+    }
+  };
+
+  // The payment modal's own shortcuts live in TenderPanel; after a sale only starting over applies.
+  const pageHotkeys = !hotkeysEnabled ? {} : completedSale ? {
+    newOrder: () => { handleNewOrder(); focusSearch(); },
+  } : isAnyModalOpen ? {} : {
+    focusSearch,
+    increaseQuantity: () => changeLastLineQuantity(1),
+    decreaseQuantity: () => changeLastLineQuantity(-1),
+    ...(cartItems.length > 0 ? { checkout: handleCheckout } : {}),
+    // An order in progress is parked rather than thrown away.
+    newOrder: () => { if (cartItems.length > 0) setParkModalOpen(true); else focusSearch(); },
+  };
+  useHotkeys(hotkeys, pageHotkeys);
   
   const handleSaveNotes = (notes: string) => {
     setUserNotes(notes);
@@ -292,17 +1132,25 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
       <div className="lg:col-span-2 flex flex-col h-full">
         {/* Product Filters */}
         <div className="flex-shrink-0 mb-4">
+            <HeldCartsBar heldCarts={heldCarts} onRecall={handleRecallCart} />
             <div className="relative mb-4">
                 <span className="absolute inset-y-0 left-0 flex items-center pl-3 text-slate-500">
                     <SearchIcon/>
                 </span>
                 <input
+                    ref={searchInputRef}
                     type="text"
-                    placeholder="Search products..."
+                    placeholder={`Search or scan products... (${formatCombo(hotkeys.focusSearch)})`}
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
-                    className="w-full pl-10 pr-4 py-2 border border-slate-300 dark:border-slate-600 rounded-full bg-white dark:bg-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none"
+                    onKeyDown={handleSearchKeyDown}
+                    className={`w-full pl-10 ${isCameraScanSupported() ? 'pr-12' : 'pr-4'} py-2 border border-slate-300 dark:border-slate-600 rounded-full bg-white dark:bg-slate-800 focus:ring-2 focus:ring-indigo-500 outline-none`}
                 />
+                {isCameraScanSupported() && (
+                    <button onClick={() => setCameraOpen(true)} className="absolute inset-y-0 right-0 flex items-center pr-4 text-slate-500 hover:text-indigo-500" aria-label="Scan with camera" title="Scan a barcode with the camera">
+                        <CameraIcon />
+                    </button>
+                )}
             </div>
             <div className="flex flex-wrap gap-2">
                 <button onClick={() => setActiveCategoryId(null)} className={`px-4 py-1.5 rounded-full text-sm font-semibold transition-colors ${!activeCategoryId ? 'bg-indigo-600 text-white' : 'bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600'}`}>All</button>
@@ -316,7 +1164,7 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
         <div className="flex-grow overflow-y-auto pr-2 -mr-2">
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4">
             {filteredProducts.map(product => (
-              <ProductCard key={product.id} product={product} onAddToCart={handleAddToCart} />
+              <ProductCard key={product.id} product={product} onAddToCart={handleAddToCart} isHighlighted={product === highlightedProduct} />
             ))}
              {filteredProducts.length === 0 && <p className="col-span-full text-center text-slate-500 py-8">No products match your search.</p>}
           </div>
@@ -325,12 +1173,22 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
       <div className="lg:col-span-1 h-full">
         <Cart
           cartItems={cartItems}
+          totals={totals}
+          tax={tax}
+          orderDiscount={orderDiscount}
+          canDiscount={canDiscount}
           onUpdateQuantity={handleUpdateQuantity}
           onRemoveItem={handleRemoveItem}
+          onDiscountItem={item => setDiscountingLineKey(cartLineKey(item))}
+          onDiscountOrder={() => setOrderDiscountModalOpen(true)}
+          onEnterPromoCode={() => setPromoCodeModalOpen(true)}
+          onRemoveOrderDiscount={() => setOrderDiscount(null)}
           onCheckout={handleCheckout}
           onManualSale={() => setManualSaleModalOpen(true)}
           onAddNotes={() => setNotesModalOpen(true)}
+          onPark={() => setParkModalOpen(true)}
           userNotes={userNotes}
+          checkoutHint={formatCombo(hotkeys.checkout)}
         />
       </div>
       
@@ -339,30 +1197,55 @@ const PosView: React.FC<PosViewProps> = ({ products, categories, onAddSale }) =>
           <div className="animate-fade-in">
             <h2 className="text-2xl font-bold text-center text-green-500 dark:text-green-400">Payment Successful!</h2>
             <p className="text-center text-slate-500 dark:text-slate-300 mt-4">Order Number:</p>
-            <p className="text-center text-7xl font-bold text-indigo-500 dark:text-indigo-400 my-4 tracking-tight">#{completedSale.order_number}</p>
+            <p className="text-center text-7xl font-bold text-indigo-500 dark:text-indigo-400 my-4 tracking-tight">#{formatOrderNumber(completedSale)}</p>
+            {!!completedSale.change_given && (
+              <p className="text-center text-2xl font-bold text-green-600 dark:text-green-400 mb-4">Change: ₹{completedSale.change_given.toFixed(2)}</p>
+            )}
+            {completedSale.is_unsynced && (
+              <p className="text-center text-sm text-amber-600 dark:text-amber-400">Saved offline. This order will sync automatically once the connection returns.</p>
+            )}
             <button
               onClick={handleNewOrder}
               className="w-full mt-6 bg-indigo-600 text-white font-bold py-3 rounded-lg shadow-lg hover:bg-indigo-500 transition-colors duration-200"
             >
               Start New Order
+              <span className="ml-2 text-xs font-mono font-normal opacity-75">{formatCombo(hotkeys.newOrder)}</span>
             </button>
           </div>
         ) : (
-          <div>
-            <h2 className="text-2xl font-bold mb-6 text-center">Select Payment Method</h2>
-            <div className="flex justify-center gap-4">
-              <button onClick={() => handleConfirmPayment(PaymentMethod.CASH)} disabled={isProcessingPayment} className="bg-green-600 text-white font-bold py-3 px-8 rounded-lg shadow-lg hover:bg-green-500 transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-wait">
-                {isProcessingPayment ? 'Processing...' : 'Cash'}
-              </button>
-              <button onClick={() => handleConfirmPayment(PaymentMethod.UPI)} disabled={isProcessingPayment} className="bg-blue-600 text-white font-bold py-3 px-8 rounded-lg shadow-lg hover:bg-blue-500 transition-colors duration-200 disabled:bg-slate-500 disabled:cursor-wait">
-                {isProcessingPayment ? 'Processing...' : 'UPI'}
-              </button>
-            </div>
-          </div>
+          <TenderPanel
+            total={tax.total}
+            isProcessing={isProcessingPayment}
+            upiConfig={upiConfig}
+            upiNote={reservedOrder ? `Order #${formatOrderNumber(reservedOrder)}` : 'PYJ POS'}
+            onUpiStart={handleUpiStart}
+            onComplete={handleConfirmPayment}
+            hotkeys={hotkeys}
+          />
         )}
       </Modal>
 
+      <CameraScanner isOpen={isCameraOpen} onClose={() => setCameraOpen(false)} onScan={handleScannedCode} />
+      <ParkCartModal isOpen={isParkModalOpen} recalling={pendingRecall} onClose={closeParkModal} onPark={handleParkCart} />
+      <ModifierPickerModal product={pickingProduct} onClose={() => setPickingProduct(null)} onAdd={addLine} />
       <ManualSaleModal isOpen={isManualSaleModalOpen} onClose={() => setManualSaleModalOpen(false)} onConfirm={handleConfirmManualSale} />
+      <DiscountModal
+        isOpen={!!discountingLine}
+        title={discountingLine ? `Discount ${discountingLine.name}` : ''}
+        base={discountingLine ? discountingLine.price * discountingLine.quantity : 0}
+        initial={discountingLine?.discount}
+        onClose={() => setDiscountingLineKey(null)}
+        onApply={handleDiscountLine}
+      />
+      <DiscountModal
+        isOpen={isOrderDiscountModalOpen}
+        title="Discount Order"
+        base={totals.gross - totals.lineDiscounts}
+        initial={orderDiscount}
+        onClose={() => setOrderDiscountModalOpen(false)}
+        onApply={setOrderDiscount}
+      />
+      <PromoCodeModal isOpen={isPromoCodeModalOpen} onClose={() => setPromoCodeModalOpen(false)} onRedeem={handleRedeemPromoCode} />
       <NotesModal isOpen={isNotesModalOpen} initialNotes={userNotes} onClose={() => setNotesModalOpen(false)} onSave={handleSaveNotes} />
     </div>
   );
@@ -1,32 +1,159 @@
 import React, { useState, useEffect } from 'react';
-import type { Product, Category } from '../types';
+import type { Product, Category, Device, DeviceCommand, DiscountKind, ModifierGroup, Permission, PromoCode, RoleDefinition, StaffMember, StaffRole, StockMovement, StockMovementReason, TaxRate } from '../types';
+import type { PromoCodeInput, StaffApproval, StaffInput } from '../lib/dataStore';
+import { ADMIN_ROLE_ID, PERMISSIONS, roleName } from '../lib/permissions';
+import type { BackendProfile, RemoteBackendProfile, SupabaseConnection } from '../lib/backendConfig';
+import { BACKEND_PROFILES, backendProfileLabels, getBuildConnection, getConnection, getDeviceConnection } from '../lib/backendConfig';
+import ConnectionForm from '../components/ConnectionForm';
+import type { MutationResult } from '../hooks/useMutation';
+import { formatOrderNumber, isValidTimeZone } from '../lib/orderNumber';
+import type { OrderNumberingConfig } from '../lib/orderNumber';
+import type { FailedSale } from '../lib/offlineQueue';
+import type { SessionPolicy } from '../lib/sessionPolicy';
+import { deviceLabel, getDeviceId, isDeviceOnline, shortDeviceId } from '../lib/device';
+import { formatDiscount, isPromoCodeLive, normalizePromoCode } from '../lib/discounts';
+import { TAX_EXEMPT } from '../lib/tax';
+import type { TaxConfig } from '../lib/tax';
+import { isValidVpa } from '../lib/upi';
+import { findCodeConflict, normalizeCode } from '../lib/productCodes';
+import type { UpiConfig } from '../lib/upi';
 import Modal from '../components/Modal';
-import { PlusIcon, PencilIcon, TrashIcon, TagIcon } from '../components/icons/Icons';
+import { PlusIcon, PencilIcon, TrashIcon, TagIcon, ClipboardListIcon, RefreshIcon, XIcon } from '../components/icons/Icons';
 
 interface SettingsViewProps {
   products: Product[];
   categories: Category[];
-  onSaveProduct: (product: Omit<Product, 'id'> & { id?: string }) => Promise<void>;
-  onDeleteProduct: (productId: string) => Promise<void>;
-  onSaveCategory: (category: Omit<Category, 'id'> & { id?: string }) => Promise<void>;
-  onDeleteCategory: (categoryId: string) => Promise<void>;
+  onSaveProduct: (product: Omit<Product, 'id'> & { id?: string }) => Promise<MutationResult<unknown>>;
+  onDeleteProduct: (productId: string) => Promise<MutationResult<null>>;
+  onAdjustStock: (productId: string, delta: number, reason: StockMovementReason, note?: string) => Promise<MutationResult<number>>;
+  onLoadStockMovements: (productId: string) => Promise<StockMovement[]>;
+  onSaveCategory: (category: Omit<Category, 'id'> & { id?: string }) => Promise<MutationResult<unknown>>;
+  onDeleteCategory: (categoryId: string) => Promise<MutationResult<null>>;
   onGlobalLogout: () => Promise<void>;
+  onLoadDevices: () => Promise<Device[]>;
+  onRenameDevice: (device: Device, name: string | null) => Promise<MutationResult<null>>;
+  onSendDeviceCommand: (device: Device, command: DeviceCommand) => Promise<MutationResult<null>>;
+  staff: StaffMember[];
+  onSaveStaff: (staff: Partial<StaffInput> & { id?: string }, approval: StaffApproval) => Promise<MutationResult<unknown>>;
+  staffApproverId: string;
+  promoCodes: PromoCode[];
+  onSavePromoCode: (promo: PromoCodeInput & { id?: string }) => Promise<MutationResult<unknown>>;
+  roles: RoleDefinition[];
+  onSaveRoles: (roles: RoleDefinition[]) => Promise<MutationResult<null>>;
+  // Inventory and settings are separate permissions, so either half of this view may be hidden.
+  canManageInventory: boolean;
+  canManageSettings: boolean;
+  orderNumbering: OrderNumberingConfig;
+  onSaveOrderNumbering: (config: OrderNumberingConfig) => Promise<MutationResult<null>>;
+  failedSales: FailedSale[];
+  onRetryFailedSale: (clientId: string) => Promise<MutationResult<null>>;
+  onDiscardFailedSale: (clientId: string) => Promise<MutationResult<null>>;
+  taxConfig: TaxConfig;
+  onSaveTaxConfig: (config: TaxConfig) => Promise<MutationResult<null>>;
+  upiConfig: UpiConfig;
+  onSaveUpiConfig: (config: UpiConfig) => Promise<MutationResult<null>>;
+  sessionPolicy: SessionPolicy;
+  onSaveSessionPolicy: (policy: SessionPolicy) => Promise<MutationResult<null>>;
+  backendProfile: BackendProfile;
+  onSwitchBackendProfile: (profile: BackendProfile) => void;
+  onSaveBackendConnection: (profile: RemoteBackendProfile, connection: SupabaseConnection | null) => void;
 }
 
+const emptyModifierGroup = (): ModifierGroup => ({ id: crypto.randomUUID(), name: '', required: false, multiple: false, options: [] });
+
+const ModifierGroupsEditor: React.FC<{
+  groups: ModifierGroup[];
+  onChange: (groups: ModifierGroup[]) => void;
+}> = ({ groups, onChange }) => {
+  const updateGroup = (groupId: string, patch: Partial<ModifierGroup>) =>
+    onChange(groups.map(g => (g.id === groupId ? { ...g, ...patch } : g)));
+
+  const updateOption = (group: ModifierGroup, optionId: string, patch: Partial<ModifierGroup['options'][number]>) =>
+    updateGroup(group.id, { options: group.options.map(o => (o.id === optionId ? { ...o, ...patch } : o)) });
+
+  const smallInputClasses = "bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 text-sm";
+
+  return (
+    <div>
+      <p className="block text-sm font-medium text-slate-500 dark:text-slate-300">Options</p>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">Sizes, add-ons and choices offered when this product is added to an order. Price changes are added to the price above.</p>
+      <div className="space-y-3">
+        {groups.map(group => (
+          <div key={group.id} className="p-3 rounded-lg border border-slate-200 dark:border-slate-700 space-y-2">
+            <div className="flex gap-2 items-center">
+              <input type="text" value={group.name} onChange={e => updateGroup(group.id, { name: e.target.value })} placeholder="Group, e.g. Size" aria-label="Group name" className={`${smallInputClasses} flex-1 min-w-0`} />
+              <button type="button" onClick={() => onChange(groups.filter(g => g.id !== group.id))} className="text-red-500 hover:text-red-400 p-1" aria-label={`Remove ${group.name || 'group'}`}><TrashIcon /></button>
+            </div>
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={group.required} onChange={e => updateGroup(group.id, { required: e.target.checked })} /> Required
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="checkbox" checked={group.multiple} onChange={e => updateGroup(group.id, { multiple: e.target.checked })} /> Allow several
+              </label>
+            </div>
+            {group.options.map(option => (
+              <div key={option.id} className="flex gap-2 items-center pl-2">
+                <input type="text" value={option.name} onChange={e => updateOption(group, option.id, { name: e.target.value })} placeholder="Option, e.g. Large" aria-label="Option name" className={`${smallInputClasses} flex-1 min-w-0`} />
+                <input type="number" step="0.01" value={option.price_delta} onChange={e => updateOption(group, option.id, { price_delta: parseFloat(e.target.value) || 0 })} aria-label="Price change (₹)" className={`${smallInputClasses} w-24`} />
+                <button type="button" onClick={() => updateGroup(group.id, { options: group.options.filter(o => o.id !== option.id) })} className="text-slate-500 hover:text-red-500 p-1" aria-label={`Remove ${option.name || 'option'}`}><XIcon /></button>
+              </div>
+            ))}
+            <button type="button" onClick={() => updateGroup(group.id, { options: [...group.options, { id: crypto.randomUUID(), name: '', price_delta: 0 }] })} className="text-sm text-indigo-500 hover:underline pl-2">
+              + Add option
+            </button>
+          </div>
+        ))}
+      </div>
+      <button type="button" onClick={() => onChange([...groups, emptyModifierGroup()])} className="mt-2 text-sm font-semibold text-indigo-500 hover:underline">
+        + Add option group
+      </button>
+    </div>
+  );
+};
+
+/** Trims names and drops blank options; returns an error message when a group cannot be saved. */
+const cleanModifierGroups = (groups: ModifierGroup[]): { groups: ModifierGroup[]; error: string | null } => {
+  const cleaned = groups
+    .map(g => ({ ...g, name: g.name.trim(), options: g.options.map(o => ({ ...o, name: o.name.trim() })).filter(o => o.name) }))
+    .filter(g => g.name || g.options.length > 0);
+  if (cleaned.some(g => !g.name)) return { groups: cleaned, error: 'Every option group needs a name.' };
+  if (cleaned.some(g => g.options.length === 0)) return { groups: cleaned, error: 'Every option group needs at least one option.' };
+  const names = cleaned.map(g => g.name.toLowerCase());
+  if (new Set(names).size !== names.length) return { groups: cleaned, error: 'Option groups must have different names.' };
+  return { groups: cleaned, error: null };
+};
+
+// Empty follows the level above: the category for a product, the default rate for a category.
+const TaxRateOptions: React.FC<{ taxConfig: TaxConfig; inheritLabel: string }> = ({ taxConfig, inheritLabel }) => (
+  <>
+    <option value="">{inheritLabel}</option>
+    {taxConfig.rates.map(rate => <option key={rate.id} value={rate.id}>{rate.name} ({rate.rate}%)</option>)}
+    <option value={TAX_EXEMPT}>No tax</option>
+  </>
+);
+
 const ProductForm: React.FC<{
   product: Product | null;
+  products: Product[];
   categories: Category[];
-  onSave: (product: Omit<Product, 'id'> & { id?: string }) => void;
+  taxConfig: TaxConfig;
+  onSave: (product: Omit<Product, 'id'> & { id?: string }) => Promise<MutationResult<unknown>>;
   onClose: () => void;
-}> = ({ product, categories, onSave, onClose }) => {
-  const [formData, setFormData] = useState({ name: '', price: 0, stock: 0, category_id: '' });
+}> = ({ product, products, categories, taxConfig, onSave, onClose }) => {
+  const [formData, setFormData] = useState({ name: '', price: 0, stock: 0, sku: '', barcode: '', category_id: '', tax_rate_id: '' });
+  const [modifierGroups, setModifierGroups] = useState<ModifierGroup[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
 
   useEffect(() => {
     if (product) {
-      setFormData({ name: product.name, price: product.price, stock: product.stock, category_id: product.category_id || '' });
+      setFormData({ name: product.name, price: product.price, stock: product.stock, sku: product.sku || '', barcode: product.barcode || '', category_id: product.category_id || '', tax_rate_id: product.tax_rate_id || '' });
     } else {
-      setFormData({ name: '', price: 0, stock: 0, category_id: '' });
+      setFormData({ name: '', price: 0, stock: 0, sku: '', barcode: '', category_id: '', tax_rate_id: '' });
     }
+    setModifierGroups(product?.modifier_groups || []);
+    setError('');
   }, [product]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -35,14 +162,26 @@ const ProductForm: React.FC<{
     setFormData(prev => ({ ...prev, [name]: isNumber ? parseFloat(value) || 0 : value }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const dataToSave = { ...formData, category_id: formData.category_id || null };
-    if (product) {
-      onSave({ ...dataToSave, id: product.id });
-    } else {
-      onSave(dataToSave);
+    const modifiers = cleanModifierGroups(modifierGroups);
+    if (modifiers.error) {
+      setError(modifiers.error);
+      return;
+    }
+    const codes = { sku: normalizeCode(formData.sku), barcode: normalizeCode(formData.barcode) };
+    const conflict = findCodeConflict(products, { ...codes, id: product?.id });
+    if (conflict) {
+      setError(conflict);
+      return;
     }
+    const dataToSave = { ...formData, ...codes, category_id: formData.category_id || null, tax_rate_id: formData.tax_rate_id || null, modifier_groups: modifiers.groups };
+    setIsSaving(true);
+    setError('');
+    // The parent closes the form on success; on failure it stays open so nothing typed is lost.
+    const result = await onSave(product ? { ...dataToSave, id: product.id } : dataToSave);
+    setIsSaving(false);
+    if (!result.ok) setError(result.error.message);
   };
 
   return (
@@ -53,6 +192,17 @@ const ProductForm: React.FC<{
           <label htmlFor="name" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Product Name</label>
           <input type="text" name="name" value={formData.name} onChange={handleChange} required className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="sku" className="block text-sm font-medium text-slate-500 dark:text-slate-300">SKU</label>
+            <input type="text" name="sku" id="sku" value={formData.sku} onChange={handleChange} placeholder="Optional" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+          </div>
+          <div>
+            <label htmlFor="barcode" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Barcode</label>
+            {/* A scanner's Enter would otherwise submit the form half filled in. */}
+            <input type="text" name="barcode" id="barcode" value={formData.barcode} onChange={handleChange} onKeyDown={e => e.key === 'Enter' && e.preventDefault()} placeholder="Type or scan" inputMode="numeric" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+          </div>
+        </div>
         <div>
           <label htmlFor="category_id" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Category</label>
           <select name="category_id" value={formData.category_id} onChange={handleChange} className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
@@ -61,55 +211,210 @@ const ProductForm: React.FC<{
           </select>
         </div>
         <div>
-          <label htmlFor="price" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Price (₹)</label>
-          <input type="number" name="price" value={formData.price} onChange={handleChange} required min="0" step="0.01" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+          <label htmlFor="tax_rate_id" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Tax Rate</label>
+          <select name="tax_rate_id" value={formData.tax_rate_id} onChange={handleChange} className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500">
+            <TaxRateOptions taxConfig={taxConfig} inheritLabel="Same as category" />
+          </select>
         </div>
         <div>
-          <label htmlFor="stock" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Stock Count</label>
-          <input type="number" name="stock" value={formData.stock} onChange={handleChange} required min="0" step="1" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+          <label htmlFor="price" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Price (₹)</label>
+          <input type="number" name="price" value={formData.price} onChange={handleChange} required min="0" step="0.01" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
         </div>
+        {product ? (
+          <div>
+            <p className="block text-sm font-medium text-slate-500 dark:text-slate-300">Stock Count</p>
+            <p className="mt-1 text-lg font-semibold">{product.stock}</p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">Use the stock history button in the inventory list to restock or adjust.</p>
+          </div>
+        ) : (
+          <div>
+            <label htmlFor="stock" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Opening Stock</label>
+            <input type="number" name="stock" value={formData.stock} onChange={handleChange} required min="0" step="1" className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"/>
+          </div>
+        )}
+        <ModifierGroupsEditor groups={modifierGroups} onChange={setModifierGroups} />
       </div>
+      {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
       <div className="mt-6 flex justify-end gap-3">
         <button type="button" onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
-        <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500">Save Product</button>
+        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{isSaving ? 'Saving...' : 'Save Product'}</button>
       </div>
     </form>
   );
 };
 
 
-const CategoryManager: React.FC<{ categories: Category[], onSave: Function, onDelete: Function }> = ({ categories, onSave, onDelete }) => {
+const movementLabels: Record<StockMovementReason, string> = {
+  sale: 'Sale',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+  restock: 'Restock',
+};
+
+const StockHistoryModal: React.FC<{
+  product: Product;
+  onClose: () => void;
+  onAdjustStock: (productId: string, delta: number, reason: StockMovementReason, note?: string) => Promise<MutationResult<number>>;
+  onLoadStockMovements: (productId: string) => Promise<StockMovement[]>;
+}> = ({ product, onClose, onAdjustStock, onLoadStockMovements }) => {
+  const [movements, setMovements] = useState<StockMovement[] | null>(null);
+  const [reason, setReason] = useState<'restock' | 'adjustment'>('restock');
+  const [quantity, setQuantity] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+    onLoadStockMovements(product.id).then(data => { if (isCurrent) setMovements(data); });
+    return () => { isCurrent = false; };
+  }, [product.id, onLoadStockMovements]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(quantity, 10);
+    if (isNaN(amount) || amount === 0) return;
+    // Restocks only add; adjustments take a signed count (e.g. -3 for breakage).
+    const delta = reason === 'restock' ? Math.abs(amount) : amount;
+    setIsSaving(true);
+    const result = await onAdjustStock(product.id, delta, reason, note.trim() || undefined);
+    if (result.ok) {
+      setQuantity('');
+      setNote('');
+      setMovements(await onLoadStockMovements(product.id));
+    }
+    setIsSaving(false);
+  };
+
+  const inputClasses = "bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500";
+
+  return (
+    <Modal isOpen={true} onClose={onClose}>
+      <h2 className="text-2xl font-bold mb-1">{product.name}</h2>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Current stock: <strong>{product.stock}</strong></p>
+      <form onSubmit={handleSubmit} className="space-y-2 mb-4">
+        <div className="flex gap-2">
+          <select value={reason} onChange={e => setReason(e.target.value as 'restock' | 'adjustment')} className={inputClasses}>
+            <option value="restock">Restock</option>
+            <option value="adjustment">Adjustment</option>
+          </select>
+          <input type="number" step="1" value={quantity} onChange={e => setQuantity(e.target.value)} required
+            placeholder={reason === 'restock' ? 'Quantity added' : 'e.g. -3 or 2'} className={`${inputClasses} w-full`} />
+        </div>
+        <div className="flex gap-2">
+          <input type="text" value={note} onChange={e => setNote(e.target.value)} placeholder="Note (optional)" className={`${inputClasses} flex-grow`} />
+          <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">
+            {isSaving ? 'Saving...' : 'Apply'}
+          </button>
+        </div>
+      </form>
+      <h3 className="font-semibold mb-2">Inventory History</h3>
+      <div className="max-h-64 overflow-y-auto">
+        {movements === null ? (
+          <p className="text-sm text-slate-500 text-center py-4">Loading...</p>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-4">No stock movements recorded yet.</p>
+        ) : (
+          <table className="w-full text-left text-sm">
+            <tbody>
+              {movements.map(movement => (
+                <tr key={movement.id} className="border-b border-slate-200 dark:border-slate-700">
+                  <td className="py-2 pr-2 whitespace-nowrap text-slate-500 dark:text-slate-400">{new Date(movement.created_at).toLocaleString()}</td>
+                  <td className="py-2 pr-2">
+                    <div>{movementLabels[movement.reason]}</div>
+                    {movement.note && <div className="text-xs text-slate-500 dark:text-slate-400">{movement.note}</div>}
+                  </td>
+                  <td className={`py-2 pr-2 text-right font-semibold ${movement.delta < 0 ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>
+                    {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                  </td>
+                  <td className="py-2 text-right text-slate-500 dark:text-slate-400">{movement.stock_after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end">
+        <button onClick={onClose} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Close</button>
+      </div>
+    </Modal>
+  );
+};
+
+
+const CategoryManager: React.FC<{
+  categories: Category[];
+  taxConfig: TaxConfig;
+  onSave: (category: Omit<Category, 'id'> & { id?: string }) => Promise<MutationResult<unknown>>;
+  onDelete: (categoryId: string) => Promise<MutationResult<null>>;
+}> = ({ categories, taxConfig, onSave, onDelete }) => {
     const [editingCategory, setEditingCategory] = useState<Category | null>(null);
     const [isDeleting, setIsDeleting] = useState<Category | null>(null);
     const [name, setName] = useState('');
+    const [taxRateId, setTaxRateId] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [deleteError, setDeleteError] = useState('');
 
     const handleEdit = (cat: Category) => {
         setEditingCategory(cat);
         setName(cat.name);
+        setTaxRateId(cat.tax_rate_id || '');
+        setError('');
     };
 
-    const handleSave = (e: React.FormEvent) => {
+    const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (name.trim()) {
-            onSave({ id: editingCategory?.id, name: name.trim() });
+        if (!name.trim()) return;
+        setIsSaving(true);
+        const result = await onSave({ id: editingCategory?.id, name: name.trim(), tax_rate_id: taxRateId || null });
+        setIsSaving(false);
+        if (result.ok) {
             setName('');
+            setTaxRateId('');
             setEditingCategory(null);
+            setError('');
+        } else {
+            setError(result.error.message);
         }
     };
+
+    const closeDeleteModal = () => {
+        setIsDeleting(null);
+        setDeleteError('');
+    };
+
+    const confirmDelete = async () => {
+        if (!isDeleting) return;
+        const result = await onDelete(isDeleting.id);
+        if (result.ok) closeDeleteModal();
+        else setDeleteError(result.error.message);
+    };
     
     return (
         <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
             <h3 className="text-2xl font-bold mb-4">Manage Categories</h3>
-            <form onSubmit={handleSave} className="flex gap-2 mb-4">
+            <form onSubmit={handleSave} className="flex flex-wrap gap-2 mb-4">
                 <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder={editingCategory ? "Edit category name..." : "New category name..."}
                     className="flex-grow bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500" />
-                <button type="submit" className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500">{editingCategory ? 'Update' : 'Add'}</button>
-                {editingCategory && <button type="button" onClick={() => { setEditingCategory(null); setName(''); }} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg">Cancel</button>}
+                <select value={taxRateId} onChange={e => setTaxRateId(e.target.value)} aria-label="Tax rate"
+                    className="bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500">
+                    <TaxRateOptions taxConfig={taxConfig} inheritLabel="Default tax" />
+                </select>
+                <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{editingCategory ? 'Update' : 'Add'}</button>
+                {editingCategory && <button type="button" onClick={() => { setEditingCategory(null); setName(''); setTaxRateId(''); setError(''); }} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg">Cancel</button>}
             </form>
+            {error && <p className="-mt-2 mb-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
             <ul className="space-y-2">
                 {categories.map(cat => (
                     <li key={cat.id} className="flex justify-between items-center p-2 rounded-md bg-slate-100 dark:bg-slate-700/50">
-                        <span>{cat.name}</span>
+                        <span>
+                            {cat.name}
+                            {cat.tax_rate_id && (
+                                <span className="ml-2 text-xs text-slate-500 dark:text-slate-400">
+                                    {cat.tax_rate_id === TAX_EXEMPT ? 'No tax' : taxConfig.rates.find(r => r.id === cat.tax_rate_id)?.name}
+                                </span>
+                            )}
+                        </span>
                         <div className="flex gap-2">
                             <button onClick={() => handleEdit(cat)} className="text-blue-500 hover:text-blue-400 p-1"><PencilIcon/></button>
                             <button onClick={() => setIsDeleting(cat)} className="text-red-500 hover:text-red-400 p-1"><TrashIcon/></button>
@@ -117,12 +422,13 @@ const CategoryManager: React.FC<{ categories: Category[], onSave: Function, onDe
                     </li>
                 ))}
             </ul>
-             <Modal isOpen={!!isDeleting} onClose={() => setIsDeleting(null)}>
+             <Modal isOpen={!!isDeleting} onClose={closeDeleteModal}>
                 <h2 className="text-xl font-bold mb-4 text-center">Delete Category?</h2>
                 <p className="text-center mb-6">Are you sure you want to delete the "<strong>{isDeleting?.name}</strong>" category? Products in this category will become uncategorized.</p>
+                {deleteError && <p className="text-center mb-4 text-sm text-red-500 dark:text-red-400">{deleteError}</p>}
                 <div className="flex justify-center gap-4">
-                    <button onClick={() => setIsDeleting(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg">Cancel</button>
-                    <button onClick={() => { onDelete(isDeleting?.id); setIsDeleting(null); }} className="bg-red-600 text-white font-semibold py-2 px-6 rounded-lg">Delete</button>
+                    <button onClick={closeDeleteModal} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg">Cancel</button>
+                    <button onClick={confirmDelete} className="bg-red-600 text-white font-semibold py-2 px-6 rounded-lg">Delete</button>
                 </div>
             </Modal>
         </div>
@@ -130,11 +436,971 @@ const CategoryManager: React.FC<{ categories: Category[], onSave: Function, onDe
 };
 
 
+// Every change is approved with an Admin's PIN, which the backend checks before saving. The approver
+// starts as `defaultApproverId` when they are an Admin.
+const StaffManager: React.FC<{
+  staff: StaffMember[];
+  roles: RoleDefinition[];
+  defaultApproverId: string;
+  onSave: (staff: Partial<StaffInput> & { id?: string }, approval: StaffApproval) => Promise<MutationResult<unknown>>;
+}> = ({ staff, roles, defaultApproverId, onSave }) => {
+    const admins = staff.filter(s => s.active && s.role === ADMIN_ROLE_ID);
+    const emptyForm = { name: '', role: (roles.find(r => r.id !== ADMIN_ROLE_ID) || roles[0]).id as StaffRole, pin: '' };
+    const [editing, setEditing] = useState<StaffMember | 'new' | null>(null);
+    const [toggling, setToggling] = useState<StaffMember | null>(null);
+    const [formData, setFormData] = useState(emptyForm);
+    const [approverId, setApproverId] = useState('');
+    const [approverPin, setApproverPin] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const openForm = (member: StaffMember | 'new') => {
+        setEditing(member);
+        setFormData(member === 'new' ? emptyForm : { name: member.name, role: member.role, pin: '' });
+        resetApproval();
+    };
+
+    const openToggle = (member: StaffMember) => {
+        setToggling(member);
+        resetApproval();
+    };
+
+    const resetApproval = () => {
+        setApproverId(admins.some(a => a.id === defaultApproverId) ? defaultApproverId : admins[0]?.id || '');
+        setApproverPin('');
+        setError('');
+    };
+
+    const renderApproval = (idPrefix: string, autoFocus = false) => (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+                <label htmlFor={`${idPrefix}-approver`} className="block text-sm font-medium text-slate-500 dark:text-slate-300">Approved by</label>
+                <select id={`${idPrefix}-approver`} value={approverId} onChange={e => { setApproverId(e.target.value); setError(''); }} required className={inputClasses}>
+                    {admins.map(admin => <option key={admin.id} value={admin.id}>{admin.name}</option>)}
+                </select>
+            </div>
+            <div>
+                <label htmlFor={`${idPrefix}-approver-pin`} className="block text-sm font-medium text-slate-500 dark:text-slate-300">Their PIN</label>
+                <input id={`${idPrefix}-approver-pin`} type="password" inputMode="numeric" autoComplete="off" maxLength={6} value={approverPin} onChange={e => { setApproverPin(e.target.value.replace(/\D/g, '')); setError(''); }} required autoFocus={autoFocus} className={inputClasses} />
+            </div>
+        </div>
+    );
+
+    const handleToggle = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!toggling) return;
+        setIsSaving(true);
+        const result = await onSave({ id: toggling.id, active: !toggling.active }, { staffId: approverId, pin: approverPin });
+        setIsSaving(false);
+        if (result.ok) setToggling(null);
+        else setError(result.error.message);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const isNew = editing === 'new';
+        // Leaving the PIN empty while editing keeps the current one.
+        if ((isNew || formData.pin) && !/^[0-9]{4,6}$/.test(formData.pin)) {
+            setError('The PIN must be 4 to 6 digits.');
+            return;
+        }
+        setIsSaving(true);
+        const result = await onSave({
+            id: isNew ? undefined : editing?.id,
+            name: formData.name.trim(),
+            role: formData.role,
+            ...(formData.pin ? { pin: formData.pin } : {}),
+            ...(isNew ? { active: true } : {}),
+        }, { staffId: approverId, pin: approverPin });
+        setIsSaving(false);
+        if (result.ok) setEditing(null);
+        else setError(result.error.message);
+    };
+
+    const inputClasses = "mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-2xl font-bold">Staff</h3>
+                <button onClick={() => openForm('new')} className="flex items-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 transition-colors">
+                    <PlusIcon /> Add Staff
+                </button>
+            </div>
+            <ul className="space-y-2">
+                {staff.map(member => (
+                    <li key={member.id} className={`flex justify-between items-center p-2 rounded-md bg-slate-100 dark:bg-slate-700/50 ${member.active ? '' : 'opacity-60'}`}>
+                        <div>
+                            <span className="font-medium">{member.name}</span>
+                            <span className="ml-2 text-xs uppercase text-slate-500 dark:text-slate-400">{roleName(roles, member.role)}</span>
+                            {!member.active && <span className="ml-2 text-xs text-red-500 dark:text-red-400">Deactivated</span>}
+                            {member.locked_until && new Date(member.locked_until) > new Date() && (
+                                <span className="ml-2 text-xs text-amber-600 dark:text-amber-400" title="Too many wrong PINs. Setting a new PIN unlocks the account.">Locked</span>
+                            )}
+                        </div>
+                        <div className="flex gap-2 items-center">
+                            <button onClick={() => openToggle(member)} className="text-sm text-slate-500 dark:text-slate-400 hover:underline">
+                                {member.active ? 'Deactivate' : 'Reactivate'}
+                            </button>
+                            <button onClick={() => openForm(member)} className="text-blue-500 hover:text-blue-400 p-1" aria-label={`Edit ${member.name}`}><PencilIcon/></button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">Deactivated staff can no longer log in, but keep their name on the sales they made. PINs are stored hashed, so a forgotten PIN can only be replaced.</p>
+
+            <Modal isOpen={!!editing} onClose={() => setEditing(null)}>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <h2 className="text-2xl font-bold">{editing === 'new' ? 'Add Staff Member' : 'Edit Staff Member'}</h2>
+                    <div>
+                        <label htmlFor="staff-name" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Name</label>
+                        <input id="staff-name" type="text" value={formData.name} onChange={e => setFormData(prev => ({ ...prev, name: e.target.value }))} required className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="staff-role" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Role</label>
+                        <select id="staff-role" value={formData.role} onChange={e => setFormData(prev => ({ ...prev, role: e.target.value as StaffRole }))} className={inputClasses}>
+                            {roles.map(role => <option key={role.id} value={role.id}>{role.name}</option>)}
+                            {!roles.some(r => r.id === formData.role) && <option value={formData.role}>{formData.role} (removed)</option>}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="staff-pin" className="block text-sm font-medium text-slate-500 dark:text-slate-300">{editing === 'new' ? 'PIN' : 'New PIN (leave empty to keep)'}</label>
+                        <input id="staff-pin" type="password" inputMode="numeric" autoComplete="off" maxLength={6} value={formData.pin} onChange={e => setFormData(prev => ({ ...prev, pin: e.target.value.replace(/\D/g, '') }))} required={editing === 'new'} placeholder="4 to 6 digits" className={inputClasses} />
+                    </div>
+                    {renderApproval('staff')}
+                    {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={() => setEditing(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{isSaving ? 'Saving...' : 'Save'}</button>
+                    </div>
+                </form>
+            </Modal>
+
+            <Modal isOpen={!!toggling} onClose={() => setToggling(null)}>
+                <form onSubmit={handleToggle} className="space-y-4">
+                    <h2 className="text-2xl font-bold">{toggling?.active ? 'Deactivate' : 'Reactivate'} {toggling?.name}?</h2>
+                    {renderApproval('staff-toggle', true)}
+                    {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={() => setToggling(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{isSaving ? 'Saving...' : toggling?.active ? 'Deactivate' : 'Reactivate'}</button>
+                    </div>
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+
+// `datetime-local` inputs work in local time without a zone, so values are converted both ways.
+const toDateTimeInput = (iso?: string | null) => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 16);
+};
+
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const promoStatus = (promo: PromoCode): { label: string; className: string } => {
+    if (isPromoCodeLive(promo)) return { label: 'Live', className: 'text-green-600 dark:text-green-400' };
+    if (!promo.active) return { label: 'Off', className: 'text-slate-500 dark:text-slate-400' };
+    if (promo.starts_at && new Date(promo.starts_at) > new Date()) return { label: 'Scheduled', className: 'text-amber-600 dark:text-amber-400' };
+    return { label: 'Expired', className: 'text-red-500 dark:text-red-400' };
+};
+
+const PromoCodeManager: React.FC<{
+  promoCodes: PromoCode[];
+  onSave: (promo: PromoCodeInput & { id?: string }) => Promise<MutationResult<unknown>>;
+}> = ({ promoCodes, onSave }) => {
+    const emptyForm = { code: '', description: '', kind: 'percent' as DiscountKind, value: '', starts_at: '', ends_at: '' };
+    const [editing, setEditing] = useState<PromoCode | 'new' | null>(null);
+    const [formData, setFormData] = useState(emptyForm);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const openForm = (promo: PromoCode | 'new') => {
+        setEditing(promo);
+        setFormData(promo === 'new' ? emptyForm : {
+            code: promo.code,
+            description: promo.description || '',
+            kind: promo.kind,
+            value: String(promo.value),
+            starts_at: toDateTimeInput(promo.starts_at),
+            ends_at: toDateTimeInput(promo.ends_at),
+        });
+        setError('');
+    };
+
+    const toInput = (promo: PromoCode): PromoCodeInput => ({
+        code: promo.code, description: promo.description ?? null, kind: promo.kind, value: promo.value,
+        starts_at: promo.starts_at ?? null, ends_at: promo.ends_at ?? null, active: promo.active,
+    });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = normalizePromoCode(formData.code);
+        const value = parseFloat(formData.value);
+        if (!/^[A-Z0-9_-]+$/.test(code)) {
+            setError('Use letters, digits, dashes or underscores for the code.');
+            return;
+        }
+        if (isNaN(value) || value <= 0 || (formData.kind === 'percent' && value > 100)) {
+            setError(formData.kind === 'percent' ? 'The percentage must be between 0 and 100.' : 'The amount must be more than 0.');
+            return;
+        }
+        if (formData.starts_at && formData.ends_at && formData.ends_at <= formData.starts_at) {
+            setError('The code must end after it starts.');
+            return;
+        }
+        setIsSaving(true);
+        const result = await onSave({
+            id: editing === 'new' ? undefined : editing?.id,
+            code,
+            description: formData.description.trim() || null,
+            kind: formData.kind,
+            value,
+            starts_at: fromDateTimeInput(formData.starts_at),
+            ends_at: fromDateTimeInput(formData.ends_at),
+            active: editing === 'new' ? true : !!editing?.active,
+        });
+        setIsSaving(false);
+        if (result.ok) setEditing(null);
+        else setError(result.error.message);
+    };
+
+    const inputClasses = "mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-2xl font-bold">Promo Codes</h3>
+                <button onClick={() => openForm('new')} className="flex items-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 transition-colors">
+                    <PlusIcon /> Add Code
+                </button>
+            </div>
+            {promoCodes.length === 0 ? (
+                <p className="text-slate-500 dark:text-slate-400">No promo codes yet.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {promoCodes.map(promo => {
+                        const status = promoStatus(promo);
+                        return (
+                            <li key={promo.id} className={`flex justify-between items-center p-2 rounded-md bg-slate-100 dark:bg-slate-700/50 ${promo.active ? '' : 'opacity-60'}`}>
+                                <div>
+                                    <span className="font-mono font-semibold">{promo.code}</span>
+                                    <span className="ml-2 text-sm">{formatDiscount(promo)} off</span>
+                                    <span className={`ml-2 text-xs font-semibold uppercase ${status.className}`}>{status.label}</span>
+                                    {promo.description && <p className="text-xs text-slate-500 dark:text-slate-400">{promo.description}</p>}
+                                    {(promo.starts_at || promo.ends_at) && (
+                                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                                            {promo.starts_at ? new Date(promo.starts_at).toLocaleString() : 'Any time'} &ndash; {promo.ends_at ? new Date(promo.ends_at).toLocaleString() : 'no end'}
+                                        </p>
+                                    )}
+                                </div>
+                                <div className="flex gap-2 items-center">
+                                    <button onClick={() => onSave({ ...toInput(promo), id: promo.id, active: !promo.active })} className="text-sm text-slate-500 dark:text-slate-400 hover:underline">
+                                        {promo.active ? 'Switch Off' : 'Switch On'}
+                                    </button>
+                                    <button onClick={() => openForm(promo)} className="text-blue-500 hover:text-blue-400 p-1" aria-label={`Edit ${promo.code}`}><PencilIcon/></button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">Codes can be typed in any case at the till and take their discount off the whole order. A code that is switched off, or outside its dates, is refused.</p>
+
+            <Modal isOpen={!!editing} onClose={() => setEditing(null)}>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <h2 className="text-2xl font-bold">{editing === 'new' ? 'Add Promo Code' : 'Edit Promo Code'}</h2>
+                    <div>
+                        <label htmlFor="promo-code" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Code</label>
+                        <input id="promo-code" type="text" value={formData.code} onChange={e => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))} required placeholder="e.g. DIWALI10" className={`${inputClasses} font-mono uppercase`} />
+                    </div>
+                    <div>
+                        <label htmlFor="promo-description" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Description (optional)</label>
+                        <input id="promo-description" type="text" value={formData.description} onChange={e => setFormData(prev => ({ ...prev, description: e.target.value }))} className={inputClasses} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="promo-kind" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Type</label>
+                            <select id="promo-kind" value={formData.kind} onChange={e => setFormData(prev => ({ ...prev, kind: e.target.value as DiscountKind }))} className={inputClasses}>
+                                <option value="percent">Percent (%)</option>
+                                <option value="fixed">Amount (₹)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="promo-value" className="block text-sm font-medium text-slate-500 dark:text-slate-300">{formData.kind === 'percent' ? 'Percent off' : 'Amount off (₹)'}</label>
+                            <input id="promo-value" type="number" min="0.01" max={formData.kind === 'percent' ? 100 : undefined} step="0.01" value={formData.value} onChange={e => setFormData(prev => ({ ...prev, value: e.target.value }))} required className={inputClasses} />
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label htmlFor="promo-starts" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Valid from (optional)</label>
+                            <input id="promo-starts" type="datetime-local" value={formData.starts_at} onChange={e => setFormData(prev => ({ ...prev, starts_at: e.target.value }))} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label htmlFor="promo-ends" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Valid until (optional)</label>
+                            <input id="promo-ends" type="datetime-local" value={formData.ends_at} onChange={e => setFormData(prev => ({ ...prev, ends_at: e.target.value }))} className={inputClasses} />
+                        </div>
+                    </div>
+                    {error && <p className="text-sm text-red-500 dark:text-red-400">{error}</p>}
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={() => setEditing(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{isSaving ? 'Saving...' : 'Save'}</button>
+                    </div>
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+const slugify = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Refreshed while open, so last-seen times and current users stay roughly live.
+const DEVICE_REFRESH_MS = 15 * 1000;
+
+const formatLastSeen = (lastSeenAt: string) => {
+  const minutes = Math.floor((Date.now() - new Date(lastSeenAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(lastSeenAt).toLocaleString();
+};
+
+// Offline sales the backend rejected. They stay on this till, and in its totals, until retried or discarded.
+const FailedSalesManager: React.FC<{
+  failedSales: FailedSale[];
+  onRetry: (clientId: string) => Promise<MutationResult<null>>;
+  onDiscard: (clientId: string) => Promise<MutationResult<null>>;
+}> = ({ failedSales, onRetry, onDiscard }) => {
+    const [discarding, setDiscarding] = useState<FailedSale | null>(null);
+
+    const confirmDiscard = async () => {
+        if (!discarding) return;
+        const result = await onDiscard(discarding.client_id);
+        if (result.ok) setDiscarding(null);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <h3 className="text-2xl font-bold mb-4">Failed Syncs</h3>
+            {failedSales.length === 0 ? (
+                <p className="text-slate-500 dark:text-slate-400">Every offline sale on this till has synced.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {failedSales.map(failed => (
+                        <li key={failed.client_id} className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 p-3 rounded-md bg-slate-100 dark:bg-slate-700/50">
+                            <div className="min-w-0">
+                                <p className="font-medium">
+                                    Order #{formatOrderNumber(failed.sale)} &middot; ₹{failed.sale.total.toFixed(2)}
+                                    <span className="ml-2 text-sm text-slate-500 dark:text-slate-400">{new Date(failed.sale.timestamp).toLocaleString()}</span>
+                                </p>
+                                <p className="text-sm text-red-500 dark:text-red-400 break-words">{failed.error}</p>
+                            </div>
+                            <div className="flex gap-3 items-center flex-shrink-0">
+                                <button onClick={() => onRetry(failed.client_id)} className="text-sm text-indigo-500 dark:text-indigo-400 hover:underline">Retry</button>
+                                <button onClick={() => setDiscarding(failed)} className="text-sm text-red-500 dark:text-red-400 hover:underline">Discard</button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">Sales made offline that the backend rejected are kept here instead of holding up the rest of the queue.</p>
+
+            <Modal isOpen={!!discarding} onClose={() => setDiscarding(null)}>
+                <h2 className="text-xl font-bold mb-4 text-center">Discard Sale?</h2>
+                <p className="text-center mb-6">Order <strong>#{discarding ? formatOrderNumber(discarding.sale) : ''}</strong> will never reach the backend and drops out of this till's totals. This cannot be undone.</p>
+                <div className="flex justify-center gap-4">
+                    <button onClick={() => setDiscarding(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg">Cancel</button>
+                    <button onClick={confirmDiscard} className="bg-red-600 text-white font-semibold py-2 px-6 rounded-lg">Discard</button>
+                </div>
+            </Modal>
+        </div>
+    );
+};
+
+const DeviceManager: React.FC<{
+  onLoad: () => Promise<Device[]>;
+  onRename: (device: Device, name: string | null) => Promise<MutationResult<null>>;
+  onSendCommand: (device: Device, command: DeviceCommand) => Promise<MutationResult<null>>;
+}> = ({ onLoad, onRename, onSendCommand }) => {
+    const [devices, setDevices] = useState<Device[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [renaming, setRenaming] = useState<Device | null>(null);
+    const [name, setName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const thisDevice = getDeviceId();
+
+    const reload = React.useCallback(() => onLoad().then(list => {
+        setDevices(list);
+        setIsLoading(false);
+    }), [onLoad]);
+
+    useEffect(() => {
+        reload();
+        const interval = setInterval(reload, DEVICE_REFRESH_MS);
+        return () => clearInterval(interval);
+    }, [reload]);
+
+    const openRename = (device: Device) => {
+        setRenaming(device);
+        setName(device.name || '');
+    };
+
+    const handleRename = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!renaming) return;
+        setIsSaving(true);
+        const result = await onRename(renaming, name.trim() || null);
+        setIsSaving(false);
+        if (!result.ok) return;
+        setRenaming(null);
+        reload();
+    };
+
+    const sendCommand = async (device: Device, command: DeviceCommand) => {
+        const result = await onSendCommand(device, command);
+        if (result.ok) reload();
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-2xl font-bold">Devices</h3>
+                <button onClick={reload} className="p-2 rounded-full text-slate-600 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-slate-700" aria-label="Refresh devices">
+                    <RefreshIcon />
+                </button>
+            </div>
+            {isLoading ? (
+                <p className="text-slate-500 dark:text-slate-400">Loading devices...</p>
+            ) : devices.length === 0 ? (
+                <p className="text-slate-500 dark:text-slate-400">No device has reported in yet.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {devices.map(device => {
+                        const isThisDevice = device.id === thisDevice;
+                        const isOnline = isDeviceOnline(device);
+                        const canCommand = !isThisDevice && !!device.current_staff_id;
+                        return (
+                            <li key={device.id} className="flex flex-col sm:flex-row justify-between sm:items-center gap-2 p-3 rounded-md bg-slate-100 dark:bg-slate-700/50">
+                                <div className="min-w-0">
+                                    <p className="font-medium flex items-center gap-2">
+                                        <span className={`h-2 w-2 rounded-full flex-shrink-0 ${isOnline ? 'bg-green-500' : 'bg-slate-400'}`}></span>
+                                        <span className="truncate" title={device.user_agent || undefined}>{deviceLabel(device)}</span>
+                                        {isThisDevice && <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-600 text-white">This device</span>}
+                                    </p>
+                                    <p className="text-sm text-slate-500 dark:text-slate-400">
+                                        {device.current_staff_name ? `${device.current_staff_name}${device.is_locked ? ' (locked)' : ''}` : 'Nobody logged in'}
+                                        {' · '}{isOnline ? 'Online' : `Last seen ${formatLastSeen(device.last_seen_at)}`}
+                                        {device.name && <span className="ml-1 text-xs">({shortDeviceId(device.id)})</span>}
+                                    </p>
+                                    {device.pending_command && (
+                                        <p className="text-xs text-amber-600 dark:text-amber-400">Will {device.pending_command === 'logout' ? 'log out' : 'lock'} when it next reports in.</p>
+                                    )}
+                                </div>
+                                <div className="flex gap-2 items-center flex-shrink-0">
+                                    {canCommand && !device.is_locked && (
+                                        <button onClick={() => sendCommand(device, 'lock')} className="text-sm text-slate-500 dark:text-slate-400 hover:underline">Lock</button>
+                                    )}
+                                    {canCommand && (
+                                        <button onClick={() => sendCommand(device, 'logout')} className="text-sm text-red-500 dark:text-red-400 hover:underline">Log Out</button>
+                                    )}
+                                    <button onClick={() => openRename(device)} className="text-blue-500 hover:text-blue-400 p-1" aria-label={`Rename ${deviceLabel(device)}`}><PencilIcon/></button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+            <p className="text-sm text-slate-500 dark:text-slate-400 mt-3">Every till reports in every few seconds. Logging out or locking one device leaves everyone else signed in.</p>
+
+            <Modal isOpen={!!renaming} onClose={() => setRenaming(null)}>
+                <form onSubmit={handleRename} className="space-y-4">
+                    <h2 className="text-2xl font-bold">Rename Device</h2>
+                    <div>
+                        <label htmlFor="device-name" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Name</label>
+                        <input id="device-name" type="text" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Front counter" maxLength={40} autoFocus
+                            className="mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500" />
+                    </div>
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={() => setRenaming(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg hover:bg-indigo-500 disabled:bg-slate-500">{isSaving ? 'Saving...' : 'Save'}</button>
+                    </div>
+                </form>
+            </Modal>
+        </div>
+    );
+};
+
+
+const RolesManager: React.FC<{
+  roles: RoleDefinition[];
+  staff: StaffMember[];
+  onSave: (roles: RoleDefinition[]) => Promise<MutationResult<null>>;
+}> = ({ roles, staff, onSave }) => {
+    const [draft, setDraft] = useState(roles);
+    const [newRoleName, setNewRoleName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => { setDraft(roles); }, [roles]);
+
+    const updateRole = (roleId: string, update: (role: RoleDefinition) => RoleDefinition) =>
+        setDraft(prev => prev.map(r => (r.id === roleId ? update(r) : r)));
+
+    const togglePermission = (roleId: string, permission: Permission) =>
+        updateRole(roleId, r => ({
+            ...r,
+            permissions: r.permissions.includes(permission) ? r.permissions.filter(p => p !== permission) : [...r.permissions, permission],
+        }));
+
+    const handleAddRole = (e: React.FormEvent) => {
+        e.preventDefault();
+        const id = slugify(newRoleName);
+        if (!id) return;
+        if (draft.some(r => r.id === id)) {
+            setError(`A role called "${newRoleName.trim()}" already exists.`);
+            return;
+        }
+        setDraft(prev => [...prev, { id, name: newRoleName.trim(), permissions: [] }]);
+        setNewRoleName('');
+        setError('');
+    };
+
+    const handleSave = async () => {
+        if (draft.some(r => !r.name.trim())) {
+            setError('Every role needs a name.');
+            return;
+        }
+        setIsSaving(true);
+        const result = await onSave(draft.map(r => ({ ...r, name: r.name.trim() })));
+        setIsSaving(false);
+        setError(result.ok ? '' : result.error.message);
+    };
+
+    return (
+        <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <h3 className="text-2xl font-bold mb-1">Roles &amp; Permissions</h3>
+            <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">Changes apply to staff the next time they log in. The Admin role always has every permission.</p>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead>
+                        <tr className="border-b border-slate-200 dark:border-slate-700">
+                            <th className="p-2">Permission</th>
+                            {draft.map(role => {
+                                const assigned = staff.filter(s => s.role === role.id).length;
+                                return (
+                                    <th key={role.id} className="p-2 text-center align-bottom min-w-[7rem]">
+                                        {role.id === ADMIN_ROLE_ID ? <span>{role.name}</span> : (
+                                            <input type="text" value={role.name} onChange={e => updateRole(role.id, r => ({ ...r, name: e.target.value }))} aria-label={`Name of role ${role.name}`}
+                                                className="w-full text-center bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 focus:outline-none focus:ring-indigo-500" />
+                                        )}
+                                        <div className="text-xs font-normal text-slate-500 dark:text-slate-400 mt-1">
+                                            {assigned} staff
+                                            {role.id !== ADMIN_ROLE_ID && assigned === 0 && (
+                                                <button onClick={() => setDraft(prev => prev.filter(r => r.id !== role.id))} className="ml-2 text-red-500 hover:text-red-400" aria-label={`Remove role ${role.name}`}>Remove</button>
+                                            )}
+                                        </div>
+                                    </th>
+                                );
+                            })}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {PERMISSIONS.map(permission => (
+                            <tr key={permission.id} className="border-b border-slate-200 dark:border-slate-700">
+                                <td className="p-2">
+                                    <div className="font-medium">{permission.label}</div>
+                                    <div className="text-xs text-slate-500 dark:text-slate-400">{permission.description}</div>
+                                </td>
+                                {draft.map(role => (
+                                    <td key={role.id} className="p-2 text-center">
+                                        <input type="checkbox" checked={role.permissions.includes(permission.id)} disabled={role.id === ADMIN_ROLE_ID}
+                                            onChange={() => togglePermission(role.id, permission.id)} aria-label={`${role.name}: ${permission.label}`}
+                                            className="h-4 w-4 accent-indigo-600" />
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="mt-4 flex flex-col sm:flex-row justify-between gap-3">
+                <form onSubmit={handleAddRole} className="flex gap-2">
+                    <input type="text" value={newRoleName} onChange={e => setNewRoleName(e.target.value)} placeholder="New role name..."
+                        className="flex-grow bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500" />
+                    <button type="submit" className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Add Role</button>
+                </form>
+                <button onClick={handleSave} disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-slate-500">
+                    {isSaving ? 'Saving...' : 'Save Roles'}
+                </button>
+            </div>
+            {error && <p className="mt-2 text-sm text-red-500 dark:text-red-400">{error}</p>}
+        </div>
+    );
+};
+
+
+const OrderNumberingSettings: React.FC<{
+  config: OrderNumberingConfig;
+  onSave: (config: OrderNumberingConfig) => Promise<MutationResult<null>>;
+}> = ({ config, onSave }) => {
+  const [formData, setFormData] = useState(config);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => { setFormData(config); }, [config]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const timezone = formData.timezone.trim();
+    // The database turns the day over in this zone too, and rejects one it does not know.
+    if (!isValidTimeZone(timezone)) {
+      setError('Enter a time zone like Asia/Kolkata.');
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    await onSave({ ...formData, prefix: formData.prefix.trim(), event: formData.event.trim(), timezone });
+    setIsSaving(false);
+  };
+
+  const inputClasses = "mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h3 className="text-2xl font-bold mb-4">Order Numbering</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="order-reset" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Restart Numbering</label>
+          <select id="order-reset" value={formData.reset} onChange={e => setFormData(prev => ({ ...prev, reset: e.target.value as OrderNumberingConfig['reset'] }))} className={inputClasses}>
+            <option value="never">Never</option>
+            <option value="daily">Every business day</option>
+            <option value="event">For each event</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="order-prefix" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Prefix (optional)</label>
+          <input id="order-prefix" type="text" value={formData.prefix} onChange={e => setFormData(prev => ({ ...prev, prefix: e.target.value }))} placeholder="e.g. A-" maxLength={8} className={inputClasses} />
+        </div>
+        {formData.reset === 'event' && (
+          <div>
+            <label htmlFor="order-event" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Event Name</label>
+            <input id="order-event" type="text" value={formData.event} onChange={e => setFormData(prev => ({ ...prev, event: e.target.value }))} required placeholder="e.g. Youth Fest 2024" className={inputClasses} />
+          </div>
+        )}
+        {formData.reset === 'daily' && (
+          <div>
+            <label htmlFor="order-timezone" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Time Zone</label>
+            <input id="order-timezone" type="text" list="order-timezones" value={formData.timezone} onChange={e => setFormData(prev => ({ ...prev, timezone: e.target.value }))} required placeholder="e.g. Asia/Kolkata" autoCapitalize="none" className={inputClasses} />
+            <datalist id="order-timezones">
+              {Intl.supportedValuesOf('timeZone').map(zone => <option key={zone} value={zone} />)}
+            </datalist>
+          </div>
+        )}
+      </div>
+      {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Next orders will look like <strong>#{formatOrderNumber({ order_number: 1, order_prefix: formData.prefix.trim() })}</strong>.
+          {formData.reset === 'event' && ' Changing the event name starts again from 1.'}
+          {formData.reset === 'daily' && ' Numbering starts again from 1 at midnight in this time zone, whatever the till\'s clock is set to.'}
+        </p>
+        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-slate-500 flex-shrink-0">
+          {isSaving ? 'Saving...' : 'Save Numbering'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+
+const TaxSettings: React.FC<{
+  config: TaxConfig;
+  onSave: (config: TaxConfig) => Promise<MutationResult<null>>;
+}> = ({ config, onSave }) => {
+  const [formData, setFormData] = useState(config);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => { setFormData(config); }, [config]);
+
+  const updateRate = (id: string, patch: Partial<TaxRate>) =>
+    setFormData(prev => ({ ...prev, rates: prev.rates.map(r => (r.id === id ? { ...r, ...patch } : r)) }));
+
+  const removeRate = (id: string) =>
+    setFormData(prev => ({ ...prev, rates: prev.rates.filter(r => r.id !== id), defaultRateId: prev.defaultRateId === id ? null : prev.defaultRateId }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const rates = formData.rates.map(r => ({ ...r, name: r.name.trim() }));
+    if (rates.some(r => !r.name)) {
+      setError('Every tax rate needs a name.');
+      return;
+    }
+    if (rates.some(r => !(r.rate >= 0 && r.rate <= 100))) {
+      setError('Tax rates must be between 0 and 100%.');
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    await onSave({ ...formData, rates });
+    setIsSaving(false);
+  };
+
+  const inputClasses = "block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h3 className="text-2xl font-bold mb-4">Tax</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="tax-pricing" className="block text-sm font-medium text-slate-500 dark:text-slate-300 mb-1">Prices</label>
+          <select id="tax-pricing" value={formData.pricesIncludeTax ? 'inclusive' : 'exclusive'} onChange={e => setFormData(prev => ({ ...prev, pricesIncludeTax: e.target.value === 'inclusive' }))} className={inputClasses}>
+            <option value="inclusive">Include tax</option>
+            <option value="exclusive">Exclude tax (added at checkout)</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="tax-default" className="block text-sm font-medium text-slate-500 dark:text-slate-300 mb-1">Default Rate</label>
+          <select id="tax-default" value={formData.defaultRateId || ''} onChange={e => setFormData(prev => ({ ...prev, defaultRateId: e.target.value || null }))} className={inputClasses}>
+            <option value="">No tax</option>
+            {formData.rates.map(rate => <option key={rate.id} value={rate.id}>{rate.name || 'Unnamed rate'}</option>)}
+          </select>
+        </div>
+      </div>
+      <div className="space-y-2">
+        {formData.rates.map(rate => (
+          <div key={rate.id} className="flex gap-2 items-center">
+            <input type="text" value={rate.name} onChange={e => updateRate(rate.id, { name: e.target.value })} placeholder="e.g. GST 5%" aria-label="Rate name" className={inputClasses} />
+            <input type="number" value={rate.rate} onChange={e => updateRate(rate.id, { rate: parseFloat(e.target.value) || 0 })} min="0" max="100" step="0.01" aria-label="Rate (%)" className={`${inputClasses} !w-28`} />
+            <span className="text-slate-500 dark:text-slate-400">%</span>
+            <button type="button" onClick={() => removeRate(rate.id)} className="text-red-500 hover:text-red-400 p-1" aria-label={`Remove ${rate.name || 'rate'}`}><TrashIcon /></button>
+          </div>
+        ))}
+        <button type="button" onClick={() => setFormData(prev => ({ ...prev, rates: [...prev.rates, { id: crypto.randomUUID(), name: '', rate: 0 }] }))} className="flex items-center gap-2 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+          <PlusIcon /> Add Rate
+        </button>
+      </div>
+      {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          A product uses its own rate, else its category's, else the default. Past sales keep the rates they were made with.
+        </p>
+        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-slate-500 flex-shrink-0">
+          {isSaving ? 'Saving...' : 'Save Tax'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const UpiSettings: React.FC<{
+  config: UpiConfig;
+  onSave: (config: UpiConfig) => Promise<MutationResult<null>>;
+}> = ({ config, onSave }) => {
+  const [formData, setFormData] = useState(config);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => { setFormData(config); }, [config]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const vpa = formData.vpa.trim();
+    // Clearing the UPI ID turns the checkout QR off.
+    if (vpa && !isValidVpa(vpa)) {
+      setError('Enter a UPI ID like pyjcafe@okaxis.');
+      return;
+    }
+    setError('');
+    setIsSaving(true);
+    await onSave({ vpa, payeeName: formData.payeeName.trim() });
+    setIsSaving(false);
+  };
+
+  const inputClasses = "mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h3 className="text-2xl font-bold mb-4">UPI</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="upi-vpa" className="block text-sm font-medium text-slate-500 dark:text-slate-300">UPI ID (VPA)</label>
+          <input id="upi-vpa" type="text" value={formData.vpa} onChange={e => setFormData(prev => ({ ...prev, vpa: e.target.value }))} placeholder="e.g. pyjcafe@okaxis" autoCapitalize="none" className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="upi-payee" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Payee Name</label>
+          <input id="upi-payee" type="text" value={formData.payeeName} onChange={e => setFormData(prev => ({ ...prev, payeeName: e.target.value }))} placeholder="e.g. PYJ Cafe" className={inputClasses} />
+        </div>
+      </div>
+      {error && <p className="mt-4 text-sm text-red-500 dark:text-red-400">{error}</p>}
+      <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          UPI payments show a QR with the amount and order number filled in. Leave the UPI ID empty to take UPI without a QR.
+        </p>
+        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-slate-500 flex-shrink-0">
+          {isSaving ? 'Saving...' : 'Save UPI'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+
+const SessionPolicySettings: React.FC<{
+  policy: SessionPolicy;
+  onSave: (policy: SessionPolicy) => Promise<MutationResult<null>>;
+}> = ({ policy, onSave }) => {
+  const [formData, setFormData] = useState(policy);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => { setFormData(policy); }, [policy]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onSave(formData);
+    setIsSaving(false);
+  };
+
+  const setNumber = (key: keyof SessionPolicy) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFormData(prev => ({ ...prev, [key]: parseInt(e.target.value, 10) || 0 }));
+
+  const inputClasses = "mt-1 block w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h3 className="text-2xl font-bold mb-4">Sessions</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="session-idle" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Lock After Idle (minutes)</label>
+          <input id="session-idle" type="number" min="0" max="240" value={formData.idleLockMinutes} onChange={setNumber('idleLockMinutes')} className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="session-max" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Log Out After (hours)</label>
+          <input id="session-max" type="number" min="1" max="72" required value={formData.maxSessionHours} onChange={setNumber('maxSessionHours')} className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="session-elevation" className="block text-sm font-medium text-slate-500 dark:text-slate-300">Elevated Access (minutes)</label>
+          <input id="session-elevation" type="number" min="1" max="60" required value={formData.elevationMinutes} onChange={setNumber('elevationMinutes')} className={inputClasses} />
+        </div>
+      </div>
+      <div className="mt-4 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <p className="text-sm text-slate-500 dark:text-slate-400">
+          Idle tills ask for the PIN again; 0 never locks. Sessions end after the maximum age however busy the till is.
+          A new maximum age applies from the next login.
+        </p>
+        <button type="submit" disabled={isSaving} className="bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 disabled:bg-slate-500 flex-shrink-0">
+          {isSaving ? 'Saving...' : 'Save Sessions'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+
+const profileDescriptions: Record<BackendProfile, string> = {
+  production: 'The live Supabase project shared by every till.',
+  training: 'A separate Supabase project for practice, so test sales never reach production.',
+  local: 'Products and sales stay in this browser and are not shared with other devices.',
+};
+
+const BackendSettings: React.FC<{
+  activeProfile: BackendProfile;
+  onSwitchProfile: (profile: BackendProfile) => void;
+  onSaveConnection: (profile: RemoteBackendProfile, connection: SupabaseConnection | null) => void;
+}> = ({ activeProfile, onSwitchProfile, onSaveConnection }) => {
+  const [editingProfile, setEditingProfile] = useState<RemoteBackendProfile | null>(null);
+  const [pendingProfile, setPendingProfile] = useState<BackendProfile | null>(null);
+
+  const connectionSource = (profile: RemoteBackendProfile) => {
+    if (getDeviceConnection(profile)) return 'Set on this device';
+    if (getBuildConnection(profile)) return 'From the build settings';
+    return 'Not set up';
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h3 className="text-2xl font-bold mb-4">Backend</h3>
+      <div className="space-y-3">
+        {BACKEND_PROFILES.map(profile => {
+          const isActive = profile === activeProfile;
+          const isRemote = profile !== 'local';
+          const isReady = !isRemote || !!getConnection(profile);
+          return (
+            <div key={profile} className={`p-3 rounded-lg border ${isActive ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700'}`}>
+              <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+                <div>
+                  <p className="font-semibold">
+                    {backendProfileLabels[profile]}
+                    {isActive && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-600 text-white">Active</span>}
+                  </p>
+                  <p className="text-sm text-slate-500 dark:text-slate-400">{profileDescriptions[profile]}</p>
+                  {isRemote && <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">Connection: {connectionSource(profile)}</p>}
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  {isRemote && (
+                    <button onClick={() => setEditingProfile(profile)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-4 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500 text-sm">
+                      {getConnection(profile) ? 'Edit Connection' : 'Set Up'}
+                    </button>
+                  )}
+                  {!isActive && (
+                    <button onClick={() => setPendingProfile(profile)} disabled={!isReady} title={isReady ? undefined : 'Set up the connection first'}
+                      className="bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-slate-500 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed">
+                      Switch
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Modal isOpen={!!editingProfile} onClose={() => setEditingProfile(null)}>
+        {editingProfile && (
+          <>
+            <h2 className="text-xl font-bold mb-4">{backendProfileLabels[editingProfile]} Connection</h2>
+            {editingProfile === activeProfile && (
+              <p className="text-sm text-amber-600 dark:text-amber-400 mb-4">This profile is in use. Saving will log everyone out on this device and reload the app.</p>
+            )}
+            <ConnectionForm
+              initial={getConnection(editingProfile)}
+              submitLabel="Save"
+              onSubmit={(connection) => { onSaveConnection(editingProfile, connection); setEditingProfile(null); }}
+              onCancel={() => setEditingProfile(null)}
+            />
+            {getDeviceConnection(editingProfile) && getBuildConnection(editingProfile) && (
+              <button onClick={() => { onSaveConnection(editingProfile, null); setEditingProfile(null); }} className="mt-4 text-sm text-red-500 hover:underline">
+                Forget this device's connection and use the build settings
+              </button>
+            )}
+          </>
+        )}
+      </Modal>
+
+      <Modal isOpen={!!pendingProfile} onClose={() => setPendingProfile(null)}>
+        <h2 className="text-xl font-bold mb-4 text-center">Switch to {pendingProfile && backendProfileLabels[pendingProfile]}?</h2>
+        <p className="text-center mb-6">The app will log out and reload with the data of the selected profile. Nothing is copied between profiles, and sales waiting to sync stay with the profile they were made in.</p>
+        <div className="flex justify-center gap-4">
+            <button onClick={() => setPendingProfile(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+            <button onClick={() => pendingProfile && onSwitchProfile(pendingProfile)} className="bg-indigo-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-indigo-500">Switch and Reload</button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
 const SettingsView: React.FC<SettingsViewProps> = (props) => {
   const { products, onSaveProduct, onDeleteProduct, onGlobalLogout } = props;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [deletingProductId, setDeletingProductId] = useState<string | null>(null);
+  const [deleteProductError, setDeleteProductError] = useState('');
+  const [stockHistoryProductId, setStockHistoryProductId] = useState<string | null>(null);
+  const stockHistoryProduct = products.find(p => p.id === stockHistoryProductId) || null;
   const [isGlobalLogoutModalOpen, setIsGlobalLogoutModalOpen] = useState(false);
 
   const handleOpenModal = (product: Product | null = null) => {
@@ -143,16 +1409,24 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
   };
   
   const handleSaveProduct = async (product: Omit<Product, 'id'> & { id?: string }) => {
-    await onSaveProduct(product);
-    setIsModalOpen(false);
-    setEditingProduct(null);
+    const result = await onSaveProduct(product);
+    if (result.ok) {
+      setIsModalOpen(false);
+      setEditingProduct(null);
+    }
+    return result;
+  };
+
+  const closeDeleteProductModal = () => {
+    setDeletingProductId(null);
+    setDeleteProductError('');
   };
 
   const confirmDeleteProduct = async () => {
-    if (deletingProductId) {
-        await onDeleteProduct(deletingProductId);
-        setDeletingProductId(null);
-    }
+    if (!deletingProductId) return;
+    const result = await onDeleteProduct(deletingProductId);
+    if (result.ok) closeDeleteProductModal();
+    else setDeleteProductError(result.error.message);
   };
 
   const confirmGlobalLogout = async () => {
@@ -162,76 +1436,120 @@ const SettingsView: React.FC<SettingsViewProps> = (props) => {
 
   return (
     <div className="space-y-8 animate-fade-in">
-      <div>
-        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
-            <h2 className="text-3xl font-bold">Inventory Management</h2>
-            <button onClick={() => handleOpenModal()} className="flex items-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 transition-colors">
-            <PlusIcon /> Add Product
-            </button>
-        </div>
-        <div className="bg-white dark:bg-slate-800 p-2 sm:p-4 rounded-lg shadow-lg">
-            <div className="overflow-x-auto">
-            <table className="w-full text-left">
-                <thead>
-                <tr className="border-b border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400">
-                    <th className="p-3">Product Name</th>
-                    <th className="p-3">Category</th>
-                    <th className="p-3 text-right">Price</th>
-                    <th className="p-3 text-right">Stock</th>
-                    <th className="p-3 text-center">Actions</th>
-                </tr>
-                </thead>
-                <tbody>
-                {products.map(product => {
-                    const stockClasses = product.stock === 0 ? 'text-red-500 font-bold' : product.stock <= 5 ? 'text-yellow-500 font-semibold' : '';
-                    return (
-                    <tr key={product.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50">
-                        <td className="p-3 font-medium">{product.name}</td>
-                        <td className="p-3 text-slate-500 dark:text-slate-400">{product.categories?.name || 'N/A'}</td>
-                        <td className="p-3 text-right">₹{product.price.toFixed(2)}</td>
-                        <td className={`p-3 text-right ${stockClasses}`}>{product.stock}</td>
-                        <td className="p-3 text-center">
-                        <div className="flex justify-center gap-2">
-                            <button onClick={() => handleOpenModal(product)} className="text-blue-500 hover:text-blue-400 p-1"><PencilIcon/></button>
-                            <button onClick={() => setDeletingProductId(product.id)} className="text-red-500 hover:text-red-400 p-1"><TrashIcon/></button>
-                        </div>
-                        </td>
+      {props.canManageInventory && (
+        <>
+          <div>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+                <h2 className="text-3xl font-bold">Inventory Management</h2>
+                <button onClick={() => handleOpenModal()} className="flex items-center gap-2 bg-indigo-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-indigo-500 transition-colors">
+                <PlusIcon /> Add Product
+                </button>
+            </div>
+            <div className="bg-white dark:bg-slate-800 p-2 sm:p-4 rounded-lg shadow-lg">
+                <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                    <thead>
+                    <tr className="border-b border-slate-200 dark:border-slate-700 text-slate-500 dark:text-slate-400">
+                        <th className="p-3">Product Name</th>
+                        <th className="p-3">Category</th>
+                        <th className="p-3 text-right">Price</th>
+                        <th className="p-3 text-right">Stock</th>
+                        <th className="p-3 text-center">Actions</th>
                     </tr>
-                    );
-                })}
-                </tbody>
-            </table>
+                    </thead>
+                    <tbody>
+                    {products.map(product => {
+                        const stockClasses = product.stock === 0 ? 'text-red-500 font-bold' : product.stock <= 5 ? 'text-yellow-500 font-semibold' : '';
+                        return (
+                        <tr key={product.id} className="border-b border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                            <td className="p-3">
+                                <div className="font-medium">{product.name}</div>
+                                {(product.sku || product.barcode) && (
+                                    <div className="text-xs text-slate-500 dark:text-slate-400 font-mono">{[product.sku, product.barcode].filter(Boolean).join(' · ')}</div>
+                                )}
+                            </td>
+                            <td className="p-3 text-slate-500 dark:text-slate-400">{product.categories?.name || 'N/A'}</td>
+                            <td className="p-3 text-right">₹{product.price.toFixed(2)}</td>
+                            <td className={`p-3 text-right ${stockClasses}`}>{product.stock}</td>
+                            <td className="p-3 text-center">
+                            <div className="flex justify-center gap-2">
+                                <button onClick={() => setStockHistoryProductId(product.id)} className="text-slate-500 hover:text-slate-400 p-1" aria-label={`Stock history for ${product.name}`}><ClipboardListIcon/></button>
+                                <button onClick={() => handleOpenModal(product)} className="text-blue-500 hover:text-blue-400 p-1"><PencilIcon/></button>
+                                <button onClick={() => setDeletingProductId(product.id)} className="text-red-500 hover:text-red-400 p-1"><TrashIcon/></button>
+                            </div>
+                            </td>
+                        </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+                </div>
             </div>
-        </div>
-      </div>
+          </div>
       
-      <CategoryManager categories={props.categories} onSave={props.onSaveCategory} onDelete={props.onDeleteCategory} />
+          <CategoryManager categories={props.categories} taxConfig={props.taxConfig} onSave={props.onSaveCategory} onDelete={props.onDeleteCategory} />
+        </>
+      )}
 
-      <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
-        <h3 className="text-2xl font-bold mb-4 text-red-600 dark:text-red-500">Security</h3>
-        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-            <div>
-            <p className="font-semibold">Log Out From All Devices</p>
-            <p className="text-sm text-slate-500 dark:text-slate-400">Force a sign-out on every device currently logged in. You will remain logged in on this device.</p>
+      {props.canManageSettings && (
+        <>
+          <StaffManager staff={props.staff} roles={props.roles} defaultApproverId={props.staffApproverId} onSave={props.onSaveStaff} />
+
+          <RolesManager roles={props.roles} staff={props.staff} onSave={props.onSaveRoles} />
+
+          <PromoCodeManager promoCodes={props.promoCodes} onSave={props.onSavePromoCode} />
+
+          <OrderNumberingSettings config={props.orderNumbering} onSave={props.onSaveOrderNumbering} />
+
+          <TaxSettings config={props.taxConfig} onSave={props.onSaveTaxConfig} />
+
+          <UpiSettings config={props.upiConfig} onSave={props.onSaveUpiConfig} />
+
+          <SessionPolicySettings policy={props.sessionPolicy} onSave={props.onSaveSessionPolicy} />
+
+          <FailedSalesManager failedSales={props.failedSales} onRetry={props.onRetryFailedSale} onDiscard={props.onDiscardFailedSale} />
+
+          <DeviceManager onLoad={props.onLoadDevices} onRename={props.onRenameDevice} onSendCommand={props.onSendDeviceCommand} />
+
+          <BackendSettings activeProfile={props.backendProfile} onSwitchProfile={props.onSwitchBackendProfile} onSaveConnection={props.onSaveBackendConnection} />
+
+          <div className="bg-white dark:bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+            <h3 className="text-2xl font-bold mb-4 text-red-600 dark:text-red-500">Security</h3>
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+                <div>
+                <p className="font-semibold">Log Out From All Devices</p>
+                <p className="text-sm text-slate-500 dark:text-slate-400">Force a sign-out on every device currently logged in. You will remain logged in on this device.</p>
+                </div>
+                <button
+                onClick={() => setIsGlobalLogoutModalOpen(true)}
+                className="bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500 transition-colors flex-shrink-0"
+                >
+                Force Log Out
+                </button>
             </div>
-            <button
-            onClick={() => setIsGlobalLogoutModalOpen(true)}
-            className="bg-red-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md hover:bg-red-500 transition-colors flex-shrink-0"
-            >
-            Force Log Out
-            </button>
-        </div>
-      </div>
+          </div>
+        </>
+      )}
       
       <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)}>
-        <ProductForm product={editingProduct} categories={props.categories} onSave={handleSaveProduct} onClose={() => setIsModalOpen(false)} />
+        <ProductForm product={editingProduct} products={props.products} categories={props.categories} taxConfig={props.taxConfig} onSave={handleSaveProduct} onClose={() => setIsModalOpen(false)} />
       </Modal>
 
-      <Modal isOpen={!!deletingProductId} onClose={() => setDeletingProductId(null)}>
+      {stockHistoryProduct && (
+        <StockHistoryModal
+          product={stockHistoryProduct}
+          onClose={() => setStockHistoryProductId(null)}
+          onAdjustStock={props.onAdjustStock}
+          onLoadStockMovements={props.onLoadStockMovements}
+        />
+      )}
+
+      <Modal isOpen={!!deletingProductId} onClose={closeDeleteProductModal}>
             <h2 className="text-2xl font-bold mb-4 text-center">Confirm Deletion</h2>
             <p className="text-center mb-6">Are you sure you want to delete this product? This action cannot be undone.</p>
+            {deleteProductError && <p className="text-center mb-4 text-sm text-red-500 dark:text-red-400">{deleteProductError}</p>}
             <div className="flex justify-center gap-4">
-                <button onClick={() => setDeletingProductId(null)} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
+                <button onClick={closeDeleteProductModal} className="bg-slate-200 dark:bg-slate-600 font-semibold py-2 px-6 rounded-lg hover:bg-slate-300 dark:hover:bg-slate-500">Cancel</button>
                 <button onClick={confirmDeleteProduct} className="bg-red-600 text-white font-semibold py-2 px-6 rounded-lg hover:bg-red-500">Delete</button>
             </div>
       </Modal>
@@ -0,0 +1,15 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Baked into the build as defaults; an admin can override them on each device.
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  readonly VITE_TRAINING_SUPABASE_URL?: string;
+  readonly VITE_TRAINING_SUPABASE_ANON_KEY?: string;
+  // Profile used on a device that has never picked one: 'production', 'training' or 'local'.
+  readonly VITE_BACKEND_PROFILE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}